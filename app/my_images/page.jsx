@@ -2,7 +2,7 @@
  * @file app/my_images/page.jsx
  * @author Anshi
  * @description Displays a user's history of resized images, including original and resized versions, and resizing details.
- * @lastUpdated 2025-10-25
+ * @lastUpdated 2026-10-19
  */
 'use client'
 
@@ -11,17 +11,23 @@ import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Loader2, Image as ImageIcon, Trash2 } from 'lucide-react';
+import { ArrowLeft, Loader2, Image as ImageIcon, Trash2, Download } from 'lucide-react';
 import Image from 'next/image';
 import { useToast } from "@/hooks/use-toast";
 import { ImageModal } from "@/components/image-modal";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { handleZipDownload } from "@/lib/image-actions/handleZipDownload";
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_PLACEHOLDERS, formatFileName, getFileNameValues, getArchivePath } from "@/lib/image-actions/fileNames";
+import { useFilenameTemplate } from "@/lib/image-actions/filenameTemplate";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
 /**
  * @overview MyImagesPage component fetches and displays the authenticated user's image resizing history.
  * It retrieves original and resized image URLs, file names, timestamps, and interpolation methods
  * from Supabase, allowing users to view a gallery of their past resizing operations.
- * Users can also click on images to open a larger preview modal.
+ * Users can also click on images to open a larger preview modal, and download all resized images as one ZIP archive.
  * 
  * @returns {JSX.Element} The image history page, displaying a list of resized images or a message if none are found.
  */
@@ -32,6 +38,11 @@ export default function MyImagesPage() {
   const { toast } = useToast();
   const [modalOpen, setModalOpen] = useState(false);
   const [modalImage, setModalImage] = useState(null);
+  const [user, setUser] = useState(null);
+  // Filename template of the images in the ZIP, shared with the resizer through the user's account
+  const { template: zipTemplate, setTemplate: setZipTemplate, templateError } = useFilenameTemplate(user);
+  const [zipKeepFolders, setZipKeepFolders] = useState(true); // Whether the ZIP mirrors the folders the images came from
+  const [isZipping, setIsZipping] = useState(false);
 
   const openImageModal = useCallback((src, title) => {
     setModalImage({ src, title });
@@ -58,6 +69,7 @@ export default function MyImagesPage() {
       return;
     }
 
+    setUser(session.user);
     const userId = session.user.id;
 
     const { data, error } = await supabase
@@ -132,6 +144,54 @@ export default function MyImagesPage() {
     }
   }, [fetchImages, toast]);
 
+  /**
+   * @overview Downloads every resized image in the history as one ZIP archive. The images are fetched one at a
+   * time as the archive is built, named by the filename template and, if chosen, placed in the folders their
+   * originals were uploaded from. Entries saved before their size was recorded are measured after fetching.
+   *
+   * @returns {Promise<void>} A promise that resolves once the download has been started or the failure reported.
+   */
+  const downloadAllZip = useCallback(async () => {
+    async function* entries() {
+      for (const [i, img] of images.entries()) {
+        const response = await fetch(img.resized_img);
+        if (!response.ok) throw new Error(`Could not fetch ${img.file_name}`);
+        const blob = await response.blob();
+
+        let { width, height } = img.resize_settings ?? {};
+        if (width === undefined) {
+          const bitmap = await createImageBitmap(blob);
+          ({ width, height } = bitmap);
+          bitmap.close();
+        }
+        const values = getFileNameValues(img.file_name, {
+          width,
+          height,
+          method: img.interpolation_method,
+          type: blob.type,
+          date: new Date(img.created_at),
+          index: i + 1,
+        });
+        const fileName = formatFileName(zipTemplate, values);
+        yield { path: getArchivePath(fileName, zipKeepFolders ? img.resize_settings?.folder : ""), blob };
+      }
+    }
+
+    setIsZipping(true);
+    try {
+      await handleZipDownload(entries(), "my-images.zip");
+    } catch (error) {
+      console.error("Error building ZIP archive:", error);
+      toast({
+        title: "Error",
+        description: `Failed to build the ZIP archive: ${error.message}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsZipping(false);
+    }
+  }, [images, zipTemplate, zipKeepFolders, toast]);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-rose-50 via-orange-50 to-pink-100">
@@ -183,6 +243,35 @@ export default function MyImagesPage() {
             </Button>
           </div>
         ) : (
+          <>
+          {/* ZIP download of all resized images */}
+          <div className="flex flex-col md:flex-row md:items-end gap-4 mb-8 p-4 bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="zip-template" className="text-sm font-semibold text-gray-800">Filename Template</Label>
+              <Input
+                id="zip-template"
+                value={zipTemplate}
+                onChange={(e) => setZipTemplate(e.target.value)}
+                placeholder={DEFAULT_FILENAME_TEMPLATE}
+                className="h-10 rounded-lg"
+              />
+              <p className={`text-xs ${templateError ? "text-red-500" : "text-gray-500"}`}>
+                {templateError || `Use ${FILENAME_PLACEHOLDERS.map((key) => `{${key}}`).join(", ")}; {date} is the day it was resized.`}
+              </p>
+            </div>
+            <div className="flex items-center gap-3 md:pb-7">
+              <Switch id="zip-folders" checked={zipKeepFolders} onCheckedChange={setZipKeepFolders} />
+              <Label htmlFor="zip-folders" className="text-sm text-gray-700">Keep folders</Label>
+            </div>
+            <Button
+              onClick={downloadAllZip}
+              disabled={isZipping || templateError !== ""}
+              className="md:mb-7 bg-gradient-to-r from-rose-500 to-pink-500 hover:from-rose-600 hover:to-pink-600 text-white border-0 font-semibold"
+            >
+              {isZipping ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Download All as ZIP ({images.length})
+            </Button>
+          </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 md:gap-6">
             {images.map((img) => (
               <Card key={img.id} className="overflow-hidden shadow-lg border-0 bg-white/80 backdrop-blur-sm hover:shadow-xl transition-all duration-300">
@@ -198,6 +287,21 @@ export default function MyImagesPage() {
                       </p>
                       <p className="text-xs text-gray-500">
                         Method: {img.interpolation_method}
+                        {img.resize_settings?.lobes && ` (${img.resize_settings.lobes} lobes)`}
+                        {img.resize_settings?.linearLight && " (linear light)"}
+                        {img.resize_settings?.edgeMode && img.resize_settings.edgeMode !== "clamp" && ` (${img.resize_settings.edgeMode} edges)`}
+                        {img.resize_settings?.alignCorners && " (corners aligned)"}
+                        {img.resize_settings?.transform && " (cropped/rotated)"}
+                        {img.resize_settings?.output &&
+                          ` (${img.resize_settings.output.type.replace("image/", "").toUpperCase()}${img.resize_settings.output.quality ? ` ${Math.round(img.resize_settings.output.quality * 100)}%` : ""})`}
+                        {img.resize_settings?.fit &&
+                          ` (${img.resize_settings.fit}, ${typeof img.resize_settings.gravity === "string"
+                            ? img.resize_settings.gravity
+                            : `focal point ${Math.round(img.resize_settings.gravity.x * 100)}%, ${Math.round(img.resize_settings.gravity.y * 100)}%`})`}
+                        {img.resize_settings?.sharpen &&
+                          ` (sharpened ${Math.round(img.resize_settings.sharpen.amount * 100)}%, r=${img.resize_settings.sharpen.radius})`}
+                        {img.resize_settings?.cubicB !== undefined &&
+                          ` (B=${Number(img.resize_settings.cubicB.toFixed(2))}, C=${Number(img.resize_settings.cubicC.toFixed(2))})`}
                       </p>
                     </div>
                     <AlertDialog>
@@ -267,6 +371,7 @@ export default function MyImagesPage() {
               </Card>
             ))}
           </div>
+          </>
         )}
       </div>
       <ImageModal isOpen={modalOpen} onClose={closeImageModal} image={modalImage} />
@@ -0,0 +1,96 @@
+/**
+ * @file components/crop-editor.jsx
+ * @author Harsh
+ * @description Image preview on which a crop rectangle is drawn by dragging.
+ * @lastUpdated 2026-10-19
+ */
+"use client"
+
+import { useRef } from "react"
+
+/**
+ * @overview CropEditor shows the original image and lets the user drag out a crop rectangle over it. The area
+ * outside the rectangle is dimmed. The rectangle is reported in pixels of the image as uploaded, rounded to whole
+ * pixels and clamped to the image, which is what the `crop` of a transform expects.
+ *
+ * @param {object} props - The properties for the CropEditor component.
+ * @param {string} props.imageSrc - The source URL of the image to crop.
+ * @param {number} props.width - The natural width of the image in pixels.
+ * @param {number} props.height - The natural height of the image in pixels.
+ * @param {{left: number, top: number, width: number, height: number} | null} props.crop - The current crop rectangle,
+ * or null for the whole image.
+ * @param {(crop: {left: number, top: number, width: number, height: number}) => void} props.onCropChange - Receives
+ * the rectangle while it is being drawn.
+ *
+ * @returns {JSX.Element} The image with its crop overlay.
+ */
+export function CropEditor({ imageSrc, width, height, crop, onCropChange }) {
+  const overlayRef = useRef(null)
+  const anchorRef = useRef(null) // Corner where the current drag started, in image pixels
+
+  /**
+   * @overview Converts a pointer position to image pixel coordinates, clamped to the image.
+   *
+   * @param {React.PointerEvent<HTMLDivElement>} event - The pointer event.
+   *
+   * @returns {{x: number, y: number}} The position in image pixels.
+   */
+  const toImagePoint = (event) => {
+    const rect = overlayRef.current.getBoundingClientRect()
+    return {
+      x: Math.min(width, Math.max(0, Math.round(((event.clientX - rect.left) / rect.width) * width))),
+      y: Math.min(height, Math.max(0, Math.round(((event.clientY - rect.top) / rect.height) * height))),
+    }
+  }
+
+  /**
+   * @overview Reports the rectangle spanned by the drag's starting corner and the pointer, at least one pixel in size.
+   *
+   * @param {React.PointerEvent<HTMLDivElement>} event - The pointer event.
+   *
+   * @returns {void}
+   */
+  const updateCrop = (event) => {
+    const anchor = anchorRef.current
+    const point = toImagePoint(event)
+    const left = Math.min(anchor.x, point.x, width - 1)
+    const top = Math.min(anchor.y, point.y, height - 1)
+    onCropChange({
+      left,
+      top,
+      width: Math.max(1, Math.max(anchor.x, point.x) - left),
+      height: Math.max(1, Math.max(anchor.y, point.y) - top),
+    })
+  }
+
+  return (
+    <div className="relative inline-block max-w-full overflow-hidden">
+      <img src={imageSrc} alt="Original" className="block max-w-full h-auto max-h-96 select-none" draggable={false} />
+      <div
+        ref={overlayRef}
+        className="absolute inset-0 cursor-crosshair touch-none"
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId)
+          anchorRef.current = toImagePoint(event)
+          updateCrop(event)
+        }}
+        onPointerMove={(event) => {
+          if (event.currentTarget.hasPointerCapture(event.pointerId)) updateCrop(event)
+        }}
+      >
+        {crop && (
+          <div
+            className="absolute border-2 border-white pointer-events-none"
+            style={{
+              left: `${(crop.left / width) * 100}%`,
+              top: `${(crop.top / height) * 100}%`,
+              width: `${(crop.width / width) * 100}%`,
+              height: `${(crop.height / height) * 100}%`,
+              boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.5)", // Dims everything outside the rectangle
+            }}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+/**
+ * @file components/focal-point-picker.jsx
+ * @author Anshi
+ * @description Image preview on which the focal point kept in view by 'contain' and 'cover' is picked by clicking.
+ * @lastUpdated 2026-10-19
+ */
+"use client"
+
+/**
+ * @overview FocalPointPicker shows the original image and reports where it is clicked, in pixels of the image as
+ * uploaded, clamped to the image. The current focal point is marked with a ring.
+ *
+ * @param {object} props - The properties for the FocalPointPicker component.
+ * @param {string} props.imageSrc - The source URL of the image.
+ * @param {number} props.width - The natural width of the image in pixels.
+ * @param {number} props.height - The natural height of the image in pixels.
+ * @param {{x: number, y: number} | null} props.focalPoint - The current focal point in image pixels, or null for none.
+ * @param {(point: {x: number, y: number}) => void} props.onFocalPointChange - Receives the clicked point.
+ *
+ * @returns {JSX.Element} The image with its focal point marker.
+ */
+export function FocalPointPicker({ imageSrc, width, height, focalPoint, onFocalPointChange }) {
+  return (
+    <div className="relative inline-block max-w-full overflow-hidden">
+      <img src={imageSrc} alt="Original" className="block max-w-full h-auto max-h-96 select-none" draggable={false} />
+      <div
+        className="absolute inset-0 cursor-crosshair"
+        title="Click to keep this point in view"
+        onClick={(event) => {
+          const rect = event.currentTarget.getBoundingClientRect()
+          onFocalPointChange({
+            x: Math.min(width, Math.max(0, ((event.clientX - rect.left) / rect.width) * width)),
+            y: Math.min(height, Math.max(0, ((event.clientY - rect.top) / rect.height) * height)),
+          })
+        }}
+      >
+        {focalPoint && (
+          <div
+            className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white bg-orange-500/60 shadow-lg pointer-events-none"
+            style={{ left: `${(focalPoint.x / width) * 100}%`, top: `${(focalPoint.y / height) * 100}%` }}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
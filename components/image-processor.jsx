@@ -2,14 +2,34 @@
  * @file components/image-processor.jsx
  * @author Anshi
  * @description Provides static methods for image processing, including various resizing algorithms.
- * @lastUpdated 2025-10-07
+ * @lastUpdated 2026-10-19
  */
 "use client"
 
 import React from "react";
 import { applyNearestNeighborResize } from "../lib/image-resizers/NearestNeighborResizer";
+import { performAreaResize } from "../lib/image-resizers/AreaResizer";
 import { resizeImageBilinear } from "../lib/image-resizers/BilinearResizer";
 import { performBicubicResize } from "../lib/image-resizers/BicubicResizer";
+import { performLanczosResize } from "../lib/image-resizers/LanczosResizer";
+import { performPixelArtResize } from "../lib/image-resizers/PixelArtResizer";
+import { performSeamCarvingResize } from "../lib/image-resizers/SeamCarvingResizer";
+import { performEdgeDirectedResize } from "../lib/image-resizers/EdgeDirectedResizer";
+import { computeFitLayout } from "../lib/image-resizers/fit";
+import { getTransformedSize, orientPixels } from "../lib/image-resizers/transform";
+import { resolveOutput, OUTPUT_FORMATS } from "../lib/image-resizers/outputFormat";
+import { supportsOutputType } from "../lib/image-resizers/imageCodec";
+import { isSvgFile } from "../lib/image-resizers/inputFormat";
+import { readSvgSize, rasterizeSvg, getSvgRasterPlan } from "../lib/image-resizers/svgRaster";
+import { hasTiffSignature, readTiffSize } from "../lib/image-resizers/tiffDecoder";
+import { readFileMetadata, withoutOrientation, getOrientationTransform, pickMetadata, embedMetadata, getMetadataSize } from "../lib/image-resizers/metadata";
+import { isPixelArtMethod } from "../lib/image-resizers/pixelArt";
+import { resizeImageInWorkers, supportsWorkerResize } from "../lib/image-workers/resizeInWorkers";
+
+// Most times the dimensions are stepped down to meet a maximum file size before settling for the smallest result
+const MAX_DOWNSCALE_STEPS = 5;
+// Aim this far below the size the file would need to shrink to, since file size does not scale exactly with area
+const DOWNSCALE_MARGIN = 0.95;
 
 /**
  * @overview ImageProcessor is a utility class that provides static methods for image manipulation,
@@ -19,31 +39,190 @@ import { performBicubicResize } from "../lib/image-resizers/BicubicResizer";
 export class ImageProcessor {
   /**
    * @overview Resizes a given image file to the target dimensions using the specified interpolation method.
-   * It delegates the actual resizing operation to specific resizer functions based on the chosen method.
+   * An optional transform crops, flips and rotates the image on the way in, within the same pass over the pixels
+   * (see `IDENTITY_TRANSFORM`), so the image is decoded, filtered and encoded only once.
+   * The fit mode decides how the image fills the requested box (see `computeFitLayout`): stretched to it, scaled
+   * within or around it, or scaled and then padded or cropped to it, with the gravity placing the image.
+   * The result is encoded once, straight to the requested output format.
+   * SVG images are drawn at the size they are resized to rather than resampled, so the method only matters for a
+   * free rotation; seam carving instead draws them at their intrinsic size and carves that.
+   * Where the browser supports it, decoding, resampling and encoding run on a pool of Web Workers so the UI
+   * stays responsive; otherwise it delegates to the resizer functions on the main thread.
    * 
    * @param {File} imageFile - The image file to be resized (e.g., from an input element).
-   * @param {number} width - The target width for the resized image.
-   * @param {number} height - The target height for the resized image.
-   * @param {('nearest' | 'bilinear' | 'bicubic')} method - The interpolation method to use for resizing.
-   * Valid options are 'nearest', 'bilinear', and 'bicubic'.
+   * @param {number} width - The width of the target box.
+   * @param {number} height - The height of the target box.
+   * @param {('nearest' | 'area' | 'bilinear' | 'bicubic' | 'lanczos' | 'lanczos2' | 'lanczos3' | 'epx' | 'hqx' | 'xbr' | 'seam' | 'edi')} method - The interpolation method to use for resizing.
+   * Valid options are 'nearest', 'area' (area averaging), 'bilinear', 'bicubic', 'lanczos2' / 'lanczos3' (Lanczos with 2 or 3 lobes),
+   * 'lanczos' (Lanczos with `options.lobes` lobes),
+   * the pixel-art scalers 'epx', 'hqx' and 'xbr', which only enlarge by integer factors, 'seam' (content-aware seam carving)
+   * and 'edi' (edge-directed upscaling for text and line art).
+   * @param {object} [options] - Resampling options, progress reporting and cancellation.
+   * @param {boolean} [options.linearLight=false] - Whether to interpolate in linear light instead of on sRGB values.
+   * @param {number} [options.lobes=3] - For 'lanczos', the number of lobes on each side of the kernel, a whole number
+   * from `MIN_LANCZOS_LOBES` to `MAX_LANCZOS_LOBES`.
+   * @param {object} [options.transform] - The crop (in pixels of the image as uploaded), flips, quarter turn and free
+   * rotation angle to apply before resizing. A free angle is only supported by 'nearest' and the kernel-based methods.
+   * @param {('fill' | 'contain' | 'cover' | 'inside' | 'outside')} [options.fit='fill'] - How the image is fitted into the
+   * box, which is measured against the transformed image.
+   * @param {string | {x: number, y: number}} [options.gravity='center'] - Where 'contain' places the image and what
+   * 'cover' keeps: a key of `GRAVITIES` or a focal point.
+   * @param {number[]} [options.background=[0, 0, 0, 0]] - The RGBA color of the padding added by 'contain'.
+   * @param {object} [options.sharpen] - Unsharp-mask settings `{ radius, amount, threshold }` (see `unsharpMask`) for
+   * a sharpening stage applied after resampling; omit it to skip sharpening.
+   * @param {Int8Array} [options.mask] - For 'seam', one `SEAM_MASK` value per pixel of the image as uploaded, marking
+   * areas to protect or remove; it is transformed along with the image.
+   * @param {{type?: string, quality?: number, compressionLevel?: number, maxFileSize?: number}} [options.output] - The
+   * output format (a key of `OUTPUT_FORMATS`), the quality (0 to 1) of the lossy formats, the PNG compression level
+   * (0 to 9) and, for the lossy formats, a maximum file size in bytes, met by lowering the quality as little as
+   * needed; PNG at `DEFAULT_OUTPUT` settings by default.
+   * @param {boolean} [options.downscaleToFit=false] - Whether to step the box down in size when even the lowest
+   * quality does not meet the maximum file size (not for the pixel-art scalers, which need exact factors).
+   * @param {string[]} [options.keepMetadata] - The `METADATA_FIELDS` to copy from the uploaded file into the output,
+   * if it has them; nothing is copied by default.
+   * @param {(fraction: number) => void} [options.onProgress] - Receives the completed fraction of the resize (0 to 1);
+   * it starts over each time the dimensions are stepped down.
+   * @param {(result: {width: number, height: number, size: number, quality?: number, fits: boolean}) => void} [options.onEncoded] -
+   * Receives the output's dimensions, its size in bytes, the quality it was encoded at (none for PNG) and whether it
+   * meets the maximum file size.
+   * @param {AbortSignal} [options.signal] - Aborting it stops the resize and rejects with an `AbortError`.
    * 
-   * @returns {Promise<Blob>} A promise that resolves with a Blob containing the resized image in PNG format.
-   * @throws {Error} If an unknown resize method is provided.
+   * @returns {Promise<Blob>} A promise that resolves with a Blob containing the resized image in the output format.
+   * @throws {Error} If an unknown resize method or fit mode or an invalid number of Lanczos lobes is provided, a
+   * pixel-art scaler is given an unsupported size, seam carving is combined with a fit mode other than 'fill', the
+   * transform is invalid for the method, or the output format is unknown or cannot be encoded by this browser.
+   * @throws {DOMException} An `AbortError` if `options.signal` is aborted.
    */
   static async resizeImage(
     imageFile,
     width,
     height,
     method,
+    options = {},
   ) {
-    // Select the appropriate resizing function based on the provided method
+    const { fit = "fill", gravity = "center", keepMetadata = [], output, downscaleToFit = false, onEncoded, ...resizeOptions } = options;
+    const { transform, mask } = resizeOptions;
+    const isSvg = isSvgFile(imageFile);
+    // Seam carving exists to change the aspect ratio without scaling, so keeping the ratio defeats it
+    if (fit !== "fill" && method === "seam") {
+      throw new Error("Seam carving only supports the 'fill' fit mode");
+    }
+    // Check the format before resizing, so an unsupported one fails fast rather than after all the work
+    const resolvedOutput = resolveOutput(output);
+    if (!(await supportsOutputType(resolvedOutput.type))) {
+      throw new Error(`This browser cannot encode ${OUTPUT_FORMATS[resolvedOutput.type].label} images.`);
+    }
+    const metadata = keepMetadata.length > 0 ? pickMetadata(await readFileMetadata(imageFile), keepMetadata) : null;
+    const { maxFileSize } = resolvedOutput;
+    // The metadata is written after encoding, so the encoder has to leave room for it
+    resizeOptions.output = maxFileSize && metadata
+      ? { ...resolvedOutput, maxFileSize: Math.max(1, maxFileSize - getMetadataSize(metadata)) }
+      : resolvedOutput;
+
+    let source = null;
+    let original = null;
+    if (fit !== "fill" || (transform && mask) || isSvg) {
+      original = await ImageProcessor.getImageDimensions(imageFile);
+      // The mask is painted on the image as uploaded, so it is cropped, flipped and turned along with it
+      if (transform && mask) {
+        resizeOptions.mask = orientPixels(mask, original.width, original.height, transform).pixels;
+      }
+      source = getTransformedSize(original.width, original.height, transform);
+    }
+    // Seam carving removes pixels rather than scaling, so it needs the SVG as a bitmap at its own size
+    const drawsSvg = isSvg && method !== "seam";
+    const sourceFile = isSvg && !drawsSvg ? await rasterizeSvg(imageFile, original.width, original.height) : imageFile;
+
+    let boxWidth = width;
+    let boxHeight = height;
+    for (let step = 0; ; step++) {
+      const layout = fit === "fill"
+        ? { width: boxWidth, height: boxHeight, placement: null }
+        : computeFitLayout(source.width, source.height, boxWidth, boxHeight, fit, gravity);
+      let encoding = { fits: true };
+      let runFile = sourceFile;
+      let runMethod = method;
+      let runOptions = resizeOptions;
+      if (drawsSvg) {
+        // Draw the SVG so the transform brings it to the layout size, leaving the resampler a one-to-one copy
+        // unless a free rotation has to be interpolated
+        const plan = getSvgRasterPlan(original.width, original.height, transform, layout.width, layout.height);
+        runFile = await rasterizeSvg(imageFile, plan.width, plan.height);
+        runMethod = transform?.angle ? method : "nearest";
+        runOptions = { ...resizeOptions, transform: plan.transform };
+      }
+      const encoded = await ImageProcessor.runResize(runFile, layout.width, layout.height, runMethod, {
+        ...runOptions,
+        ...(layout.placement && { placement: layout.placement }),
+        onEncoded: (result) => {
+          encoding = result;
+        },
+      });
+
+      // Settle for this result if it fits, or if the box may not or can no longer shrink
+      const canShrink = downscaleToFit && !isPixelArtMethod(method) && step < MAX_DOWNSCALE_STEPS && boxWidth * boxHeight > 1;
+      if (encoding.fits || !canShrink) {
+        const blob = metadata ? await embedMetadata(encoded, metadata) : encoded;
+        const { width: outputWidth, height: outputHeight } = layout.placement ?? layout;
+        onEncoded?.({
+          width: outputWidth,
+          height: outputHeight,
+          size: blob.size,
+          quality: encoding.quality,
+          fits: !maxFileSize || blob.size <= maxFileSize,
+        });
+        return blob;
+      }
+
+      // File size grows roughly with the pixel count, so scale both sides by the square root of the excess
+      const scale = Math.sqrt(resizeOptions.output.maxFileSize / encoded.size) * DOWNSCALE_MARGIN;
+      boxWidth = Math.max(1, Math.floor(boxWidth * scale));
+      boxHeight = Math.max(1, Math.floor(boxHeight * scale));
+    }
+  }
+
+  /**
+   * @overview Runs a resize with the pipeline the browser supports: on a pool of Web Workers where possible,
+   * otherwise with the resizer function of the method on the main thread.
+   *
+   * @param {File} imageFile - The image file to be resized.
+   * @param {number} width - The width to resample the image to.
+   * @param {number} height - The height to resample the image to.
+   * @param {string} method - The interpolation method (see `resizeImage`).
+   * @param {object} resizeOptions - The options passed on to the resizer (see `resizeImage`).
+   *
+   * @returns {Promise<Blob>} A promise that resolves with the resized image in the output format.
+   * @throws {Error} If an unknown resize method is provided or the resizer fails.
+   */
+  static async runResize(imageFile, width, height, method, resizeOptions) {
+    if (supportsWorkerResize()) {
+      return resizeImageInWorkers(imageFile, width, height, { ...resizeOptions, method });
+    }
+
+    // Fall back to the main thread: select the appropriate resizing function based on the provided method
     switch (method) {
       case "nearest":
-        return applyNearestNeighborResize(imageFile, width, height);
+        return applyNearestNeighborResize(imageFile, width, height, resizeOptions);
+      case "area":
+        return performAreaResize(imageFile, width, height, resizeOptions);
       case "bilinear":
-        return resizeImageBilinear(imageFile, width, height);
+        return resizeImageBilinear(imageFile, width, height, resizeOptions);
       case "bicubic":
-        return performBicubicResize(imageFile, width, height);
+        return performBicubicResize(imageFile, width, height, resizeOptions);
+      case "lanczos2":
+        return performLanczosResize(imageFile, width, height, 2, resizeOptions);
+      case "lanczos3":
+        return performLanczosResize(imageFile, width, height, 3, resizeOptions);
+      case "lanczos":
+        return performLanczosResize(imageFile, width, height, resizeOptions.lobes, resizeOptions);
+      case "epx":
+      case "hqx":
+      case "xbr":
+        return performPixelArtResize(imageFile, width, height, method, resizeOptions);
+      case "seam":
+        return performSeamCarvingResize(imageFile, width, height, resizeOptions);
+      case "edi":
+        return performEdgeDirectedResize(imageFile, width, height, resizeOptions);
       default:
         // Throw an error if an unsupported method is specified
         throw new Error("Unknown resize method: " + method);
@@ -51,16 +230,23 @@ export class ImageProcessor {
   }
 
   /**
-   * @overview Retrieves the intrinsic dimensions (width and height) of an image file.
-   * This is done by loading the image into an `Image` object and reading its `width` and `height` properties.
+   * @overview Retrieves the dimensions (width and height) of an image file as it is displayed, that is, after its
+   * EXIF orientation. Browsers disagree on whether an `Image` applies the orientation, so the image is loaded with
+   * its orientation neutralized and the stored size is turned here, matching what the resize pipeline decodes.
+   * TIFF sizes are read from the file, which most browsers cannot load, and SVG sizes from its attributes.
    * 
    * @param {File} file - The image file from which to extract dimensions.
    * 
-   * @returns {Promise<{width: number, height: number}>} A promise that resolves with an object
-   * containing the width and height of the image. Rejects if the image fails to load.
+   * @returns {Promise<{width: number, height: number, orientation: number}>} A promise that resolves with an object
+   * containing the upright width and height of the image and its EXIF orientation (1 to 8, 1 meaning stored upright).
+   * Rejects if the image fails to load.
    */
-  static getImageDimensions(file) {
-    return new Promise((resolve, reject) => {
+  static async getImageDimensions(file) {
+    if (isSvgFile(file)) {
+      return { ...(await readSvgSize(file)), orientation: 1 }
+    }
+    const metadata = await readFileMetadata(file);
+    const stored = (await hasTiffSignature(file)) ? await readTiffSize(file) : await new Promise((resolve, reject) => {
       const img = new Image()
       // Set crossOrigin to anonymous to prevent CORS issues when drawing images to canvas
       img.crossOrigin = "anonymous";
@@ -73,7 +259,9 @@ export class ImageProcessor {
       // Reject the promise if the image fails to load
       img.onerror = reject
       // Set the image source to a Blob URL created from the file
-      img.src = URL.createObjectURL(file)
+      img.src = URL.createObjectURL(withoutOrientation(file, metadata))
     })
+    const upright = getTransformedSize(stored.width, stored.height, getOrientationTransform(metadata.orientation))
+    return { ...upright, orientation: metadata.orientation }
   }
 }
@@ -2,27 +2,209 @@
  * @file components/image-resizer-app.jsx
  * @author Anshi, Sameer, Harsh
  * @description Main application component for the RGB Image Rescaler, handling image upload, resizing, and display.
- * @lastUpdated 2025-10-01
+ * @lastUpdated 2026-10-19
  */
 'use client'
 
 import React from "react";
 
-import { useState, useCallback, useRef } from "react"
-import { Upload, Download, Loader2, ZoomIn, ArrowLeft, Sparkles, ImageIcon, Settings, Lock, Unlock } from "lucide-react"
+import { useState, useCallback, useRef, useEffect } from "react"
+import { Upload, Download, Loader2, ZoomIn, ArrowLeft, Sparkles, ImageIcon, Settings, Lock, Unlock, X, Contrast, Grid3x3, Crosshair, Spline, Shield, Scissors, Eraser, Focus, Frame, Crop, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2, FileText, FileImage, FilePen, Layers, RefreshCw, Trash2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
+import { Progress } from "@/components/ui/progress"
+import { Slider } from "@/components/ui/slider"
 import { ImageProcessor } from "@/components/image-processor"
 import { ImageModal } from "@/components/image-modal"
-import { useImageUploader } from "../lib/image-actions/handleFileUpload";
+import { SeamMaskEditor } from "@/components/seam-mask-editor"
+import { SharpenPreview } from "@/components/sharpen-preview"
+import { CropEditor } from "@/components/crop-editor"
+import { FocalPointPicker } from "@/components/focal-point-picker"
+import { useImageUploader, getSourceFolder } from "../lib/image-actions/handleFileUpload";
+import { useBatchQueue } from "../lib/image-actions/batchQueue";
 import { handleImageDownload } from "../lib/image-actions/handleImageDownload";
+import { handleZipDownload } from "../lib/image-actions/handleZipDownload";
+import { useFilenameTemplate } from "../lib/image-actions/filenameTemplate";
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_PLACEHOLDERS, formatFileName, getFileNameValues, getArchivePath } from "../lib/image-actions/fileNames";
+import { isAbortError } from "../lib/image-resizers/taskControl";
+import { CUBIC_PRESETS, MIN_LANCZOS_LOBES, MAX_LANCZOS_LOBES } from "../lib/image-resizers/kernels";
+import { DEFAULT_SHARPEN } from "../lib/image-resizers/sharpen";
+import { GRAVITIES, computeFitLayout } from "../lib/image-resizers/fit";
+import { IDENTITY_TRANSFORM, getTransformedSize, transformPoint } from "../lib/image-resizers/transform";
+import { supportsFreeRotation } from "../lib/image-resizers/resample";
+import { DEFAULT_KEPT_METADATA } from "../lib/image-resizers/metadata";
+import { OUTPUT_FORMATS, DEFAULT_OUTPUT } from "../lib/image-resizers/outputFormat";
+import { supportsOutputType } from "../lib/image-resizers/imageCodec";
+import { PIXEL_ART_FACTORS, isPixelArtMethod, getPixelArtFactor } from "../lib/image-resizers/pixelArt";
+import { ACCEPTED_INPUT, isSvgFile } from "../lib/image-resizers/inputFormat";
 import { supabase } from "../lib/supabase";
 import { useToast } from "@/hooks/use-toast";
 
+/**
+ * @overview Formats a cubic kernel parameter for display in its text input.
+ *
+ * @param {number} value - The B or C parameter.
+ *
+ * @returns {string} The value rounded to at most four decimals.
+ */
+function formatCubicParam(value) {
+  return String(Number(value.toFixed(4)))
+}
+
+/**
+ * @overview Resolves the B and C parameters to resize with: the exact values of the selected preset,
+ * or the typed values for a custom kernel.
+ *
+ * @param {object} resizeParams - The resize parameters held in state.
+ *
+ * @returns {{cubicB: number, cubicC: number}} The kernel parameters.
+ */
+function getCubicParams(resizeParams) {
+  const preset = CUBIC_PRESETS[resizeParams.cubicPreset]
+  return preset
+    ? { cubicB: preset.b, cubicC: preset.c }
+    : { cubicB: Number(resizeParams.cubicB), cubicC: Number(resizeParams.cubicC) }
+}
+
+/**
+ * @overview Builds the unsharp-mask settings to resize with from the sharpening controls.
+ *
+ * @param {object} resizeParams - The resize parameters held in state.
+ *
+ * @returns {{radius: number, amount: number, threshold: number} | undefined} The settings, or undefined when
+ * sharpening is turned off.
+ */
+function getSharpenSettings(resizeParams) {
+  if (!resizeParams.sharpen) return undefined
+  return {
+    radius: resizeParams.sharpenRadius,
+    amount: resizeParams.sharpenAmount / 100,
+    threshold: resizeParams.sharpenThreshold,
+  }
+}
+
+/**
+ * @overview Builds the fit options to resize with from the fit controls, turning the padding color picker's
+ * hex value into the RGBA color the pipeline expects.
+ *
+ * @param {object} resizeParams - The resize parameters held in state.
+ *
+ * @returns {{fit: string, gravity: string | {x: number, y: number}, background: number[]}} The fit mode, gravity
+ * and padding color.
+ */
+function getFitOptions(resizeParams) {
+  const hex = resizeParams.padColor.slice(1)
+  const background = resizeParams.padTransparent
+    ? [0, 0, 0, 0]
+    : [0, 2, 4].map((start) => parseInt(hex.slice(start, start + 2), 16)).concat(255)
+  return { fit: resizeParams.fit, gravity: resizeParams.gravity, background }
+}
+
+/**
+ * @overview Turns a focal point picked on the original image into the gravity of the transformed image, which is
+ * what the fit modes place: its position as fractions of the transformed width and height, clamped to the image
+ * when the point was cropped away.
+ *
+ * @param {{x: number, y: number}} focalPoint - The focal point, in pixels of the image as uploaded.
+ * @param {{width: number, height: number}} dimensions - The size of the image as uploaded.
+ * @param {object} transform - The transform applied before resizing (see `IDENTITY_TRANSFORM`).
+ *
+ * @returns {{x: number, y: number}} The focal point gravity (see `computeFitLayout`).
+ */
+function getFocalGravity(focalPoint, dimensions, transform) {
+  const size = getTransformedSize(dimensions.width, dimensions.height, transform)
+  const position = transformPoint(focalPoint.x, focalPoint.y, dimensions.width, dimensions.height, transform)
+  const clamp = (value) => Math.min(1, Math.max(0, value))
+  return { x: clamp(position.x / size.width), y: clamp(position.y / size.height) }
+}
+
+/**
+ * @overview Builds the output format settings to encode with from the output controls.
+ *
+ * @param {object} resizeParams - The resize parameters held in state.
+ *
+ * @returns {{type: string, quality: number, compressionLevel: number}} The format, the quality of the lossy formats
+ * (0 to 1) and the PNG compression level.
+ */
+function getOutputOptions(resizeParams) {
+  return {
+    type: resizeParams.outputType,
+    quality: resizeParams.outputQuality / 100,
+    compressionLevel: resizeParams.pngCompression,
+    ...(hasFileSizeLimit(resizeParams) && { maxFileSize: Math.round(Number(resizeParams.maxFileSizeKb) * 1024) }),
+  }
+}
+
+/**
+ * @overview Builds the options every resize shares from the controls: resampling, kernel, sharpening, fit,
+ * metadata and output. The crop, rotation and seam-carving mask are drawn on one image, so they are not included.
+ *
+ * @param {object} resizeParams - The resize parameters held in state.
+ *
+ * @returns {object} The options for `ImageProcessor.resizeImage`.
+ */
+function getResizeOptions(resizeParams) {
+  return {
+    linearLight: resizeParams.linearLight,
+    edgeMode: resizeParams.edgeMode,
+    alignCorners: resizeParams.alignCorners,
+    ...getCubicParams(resizeParams),
+    lobes: resizeParams.lanczosLobes,
+    sharpen: getSharpenSettings(resizeParams),
+    ...getFitOptions(resizeParams),
+    keepMetadata: resizeParams.keepMetadata,
+    output: getOutputOptions(resizeParams),
+    downscaleToFit: resizeParams.downscaleToFit,
+  }
+}
+
+/**
+ * @overview Tells whether the output is to be kept under a maximum file size, which only the lossy formats support.
+ *
+ * @param {object} resizeParams - The resize parameters held in state.
+ *
+ * @returns {boolean} True if a maximum file size applies.
+ */
+function hasFileSizeLimit(resizeParams) {
+  return resizeParams.limitFileSize && OUTPUT_FORMATS[resizeParams.outputType].lossy
+}
+
+/**
+ * @overview Formats a file size for display.
+ *
+ * @param {number} bytes - The size in bytes.
+ *
+ * @returns {string} The size in KB, or in MB from 1 MB on.
+ */
+function formatFileSize(bytes) {
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * @overview Explains why the requested size cannot be produced by a pixel-art scaler, which only enlarges by
+ * the integer factors it supports.
+ *
+ * @param {string} method - The selected resize method.
+ * @param {{width: number, height: number} | null} sourceDimensions - The dimensions of the image being resized,
+ * after any crop and rotation.
+ * @param {number | string} width - The requested width.
+ * @param {number | string} height - The requested height.
+ *
+ * @returns {string} The validation message, or an empty string if the size is fine or the method is not a pixel-art scaler.
+ */
+function getPixelArtError(method, sourceDimensions, width, height) {
+  if (!isPixelArtMethod(method) || !sourceDimensions) return ""
+  if (getPixelArtFactor(method, sourceDimensions.width, sourceDimensions.height, Number(width), Number(height))) return ""
+
+  const factors = PIXEL_ART_FACTORS[method]
+  const example = factors.map((factor) => `${sourceDimensions.width * factor} × ${sourceDimensions.height * factor}`).join(" or ")
+  return `Pixel-art scalers only enlarge by whole factors (${factors.join("x, ")}x). Use ${example}.`
+}
+
 /**
  * @overview ImageResizerApp is the main application component for the RGB Image Rescaler.
  * It provides functionality for users to upload images, select resizing parameters (method, width, height),
@@ -45,6 +227,28 @@ export function ImageResizerApp({ onBack, session }) {
     method: "bilinear", // Default resize method
     width: 256,
     height: 256,
+    linearLight: false, // Interpolate in linear light instead of on sRGB-encoded values
+    edgeMode: "clamp", // How samples outside the image are filled in
+    alignCorners: false, // Align corner pixels instead of image edges
+    cubicPreset: "classic", // Named (B, C) pair for bicubic, or "custom"
+    cubicB: formatCubicParam(CUBIC_PRESETS.classic.b), // B and C are kept as typed; see getCubicParams
+    cubicC: formatCubicParam(CUBIC_PRESETS.classic.c),
+    lanczosLobes: 3, // Lobes on each side of the kernel for the custom Lanczos method
+    sharpen: false, // Apply an unsharp mask after resizing
+    sharpenRadius: DEFAULT_SHARPEN.radius,
+    sharpenAmount: DEFAULT_SHARPEN.amount * 100, // In percent
+    sharpenThreshold: DEFAULT_SHARPEN.threshold,
+    fit: "fill", // How the image is fitted into the width x height box
+    gravity: "center", // Where "contain" places the image and what "cover" keeps
+    padColor: "#ffffff", // Padding color for "contain"
+    padTransparent: false, // Pad with transparency instead of padColor
+    keepMetadata: DEFAULT_KEPT_METADATA, // EXIF/XMP fields copied into the output; the location is stripped by default
+    outputType: DEFAULT_OUTPUT.type, // MIME type of the resized file
+    outputQuality: DEFAULT_OUTPUT.quality * 100, // Quality of the lossy formats, in percent
+    pngCompression: DEFAULT_OUTPUT.compressionLevel, // Deflate level of PNG output, 0 to 9
+    limitFileSize: false, // Lower the quality until the output fits under maxFileSizeKb
+    maxFileSizeKb: "200", // Kept as typed, like the width and height
+    downscaleToFit: false, // Also shrink the dimensions if the lowest quality is still too large
   })
   const [originalDimensions, setOriginalDimensions] = useState(null)
   const [aspectRatio, setAspectRatio] = useState(1) // Aspect ratio of the original image
@@ -53,10 +257,143 @@ export function ImageResizerApp({ onBack, session }) {
   const [lockAspectRatio, setLockAspectRatio] = useState(false) // State for locking aspect ratio
   const [widthError, setWidthError] = useState("")
   const [heightError, setHeightError] = useState("")
+  const [cubicError, setCubicError] = useState("")
+  const [resizedDimensions, setResizedDimensions] = useState(null) // Size of the last resize's output
+  const [resizedFileInfo, setResizedFileInfo] = useState(null) // File size, quality, size-limit result and method of the last resize
   const resizedImageRef = useRef(null) // Ref for scrolling to resized image
   const [isResized, setIsResized] = useState(false) // State to track if an image has been resized
+  const [resizeProgress, setResizeProgress] = useState(0) // Percentage of the running resize that is complete
+  const abortControllerRef = useRef(null) // Aborts the running resize when Cancel is clicked
+  const seamMaskRef = useRef(null) // Protect/remove mask for seam carving, one value per original pixel
+  const [maskVersion, setMaskVersion] = useState(0) // Bumped to redraw the mask overlay after it is replaced
+  const [maskTool, setMaskTool] = useState("protect") // Painting tool for the seam-carving mask
+  const [brushSize, setBrushSize] = useState(24) // Brush diameter in screen pixels
+  const [transform, setTransform] = useState(IDENTITY_TRANSFORM) // Crop, flips and rotation applied before resizing
+  const [cropMode, setCropMode] = useState(false) // Whether dragging over the original image draws the crop
+  const [focalPoint, setFocalPoint] = useState(null) // Point of the original image that contain and cover keep in view
+  const [imageMetadata, setImageMetadata] = useState(null) // EXIF/XMP metadata found in the uploaded image
+  const [encodableTypes, setEncodableTypes] = useState([DEFAULT_OUTPUT.type]) // Output formats this browser can encode
+  const [zipKeepFolders, setZipKeepFolders] = useState(true) // Whether the ZIP mirrors the folders the images came from
+  const [isZipping, setIsZipping] = useState(false) // Whether a ZIP download is being built
 
   const { toast } = useToast();
+  // Filename template of downloads, kept in the user's account
+  const { template: fileNameTemplate, setTemplate: setFileNameTemplate, templateError } = useFilenameTemplate(session?.user)
+
+  // Find out once which output formats the browser can encode (AVIF often cannot be)
+  useEffect(() => {
+    const types = Object.keys(OUTPUT_FORMATS)
+    Promise.all(types.map(supportsOutputType)).then((supported) => {
+      setEncodableTypes(types.filter((_, i) => supported[i]))
+    })
+  }, [])
+
+  // Start with an empty seam-carving mask and no transform for every new image
+  useEffect(() => {
+    seamMaskRef.current = originalDimensions ? new Int8Array(originalDimensions.width * originalDimensions.height) : null
+    setMaskVersion((version) => version + 1)
+    setTransform(IDENTITY_TRANSFORM)
+    setCropMode(false)
+    setFocalPoint(null)
+  }, [originalDimensions])
+
+  // Keep the gravity on the focal point as the transform changes, and fall back to the center once it is cleared
+  useEffect(() => {
+    setResizeParams((prev) => {
+      if (focalPoint && originalDimensions) return { ...prev, gravity: getFocalGravity(focalPoint, originalDimensions, transform) }
+      return typeof prev.gravity === "string" ? prev : { ...prev, gravity: "center" }
+    })
+  }, [focalPoint, originalDimensions, transform])
+
+  // Size of the image after the transform, which is what gets resized
+  const hasTransform = Boolean(transform.crop || transform.rotate || transform.flipX || transform.flipY || transform.angle)
+  const sourceDimensions = originalDimensions && getTransformedSize(originalDimensions.width, originalDimensions.height, transform)
+  const sourceAspectRatio = sourceDimensions ? sourceDimensions.width / sourceDimensions.height : aspectRatio
+
+  // Size the image is resampled to and the size of the output, once the fit mode has been applied to the box
+  const hasValidSize = resizeParams.width !== "" && resizeParams.height !== "" && !widthError && !heightError
+  const fitLayout = sourceDimensions && hasValidSize
+    ? computeFitLayout(
+        sourceDimensions.width,
+        sourceDimensions.height,
+        Number(resizeParams.width),
+        Number(resizeParams.height),
+        resizeParams.fit,
+        resizeParams.gravity,
+      )
+    : null
+  const outputDimensions = fitLayout && (fitLayout.placement ?? fitLayout)
+
+  // SVGs are drawn at the target size rather than scaled, so any size suits them
+  const isSvgInput = selectedFile ? isSvgFile(selectedFile) : false
+  const pixelArtError = fitLayout && !isSvgInput
+    ? getPixelArtError(resizeParams.method, sourceDimensions, fitLayout.width, fitLayout.height)
+    : ""
+  const fileSizeError = hasFileSizeLimit(resizeParams) && !(Number(resizeParams.maxFileSizeKb) >= 1)
+    ? "Enter a maximum file size of at least 1 KB."
+    : ""
+  const transformError = transform.angle && !supportsFreeRotation(resizeParams.method)
+    ? "Free rotation needs Nearest Neighbor or a kernel-based method (area, bilinear, bicubic or Lanczos)."
+    : ""
+
+  /**
+   * @overview Resizes one file of a batch with the settings the batch was started with, then saves it to the
+   * image history if the user was logged in when the batch started. With the aspect ratio locked, the target height
+   * follows each image's own aspect ratio.
+   *
+   * @param {File} file - The image file to resize.
+   * @param {{resizeParams: object, lockAspectRatio: boolean, saveHistory: boolean}} settings - The resize parameters,
+   * aspect-ratio lock and whether to save to the history, as they were when the batch was started.
+   * @param {{onProgress: (fraction: number) => void, signal: AbortSignal}} control - Progress reporting and cancellation.
+   *
+   * @returns {Promise<{blob: Blob, width: number, height: number, size: number, quality?: number, fits: boolean}>}
+   * The resized image and its encoding result.
+   */
+  const processBatchJob = async (file, settings, control) => {
+    const { resizeParams: params, lockAspectRatio: locked, saveHistory } = settings
+    let height = params.height
+    if (locked) {
+      const dimensions = await ImageProcessor.getImageDimensions(file)
+      height = Math.max(1, Math.round((params.width * dimensions.height) / dimensions.width))
+    }
+
+    let encoding
+    const blob = await ImageProcessor.resizeImage(file, params.width, height, params.method, {
+      ...getResizeOptions(params),
+      onEncoded: (result) => {
+        encoding = result
+      },
+      ...control,
+    })
+    if (saveHistory) {
+      await saveImageHistory(file, blob, file.name, encoding, params, null)
+    }
+    return { blob, ...encoding }
+  }
+
+  // Queue of files resized together with the same settings
+  const { jobs: batchJobs, addFiles: addBatchFiles, startJobs, retryJobs, cancelJobs, clearJobs } = useBatchQueue(processBatchJob)
+  const batchSettings = { resizeParams, lockAspectRatio, saveHistory: Boolean(session?.user) }
+  const batchCounts = batchJobs.reduce((counts, job) => ({ ...counts, [job.status]: (counts[job.status] ?? 0) + 1 }), {})
+  const isBatchRunning = Boolean(batchCounts.queued || batchCounts.processing)
+
+  /**
+   * @overview Starts or retries the batch with the current settings. The session is checked here, once, rather than
+   * by every job: a logged-out user is told a single time that the results will not be saved to the image history.
+   *
+   * @param {(settings: object) => void} run - `startJobs` or `retryJobs` of the batch queue.
+   *
+   * @returns {void}
+   */
+  const runBatch = (run) => {
+    if (!batchSettings.saveHistory) {
+      toast({
+        title: "Not Saved to History",
+        description: "You are not logged in, so these images will not be saved to your image history.",
+      })
+    }
+    run(batchSettings)
+  }
 
   // Custom hook for handling image uploads, including file input and drag-and-drop
   const { handleFile, handleFileInput, handleDrag, handleDrop } = useImageUploader(
@@ -66,55 +403,125 @@ export function ImageResizerApp({ onBack, session }) {
     setOriginalDimensions,
     setAspectRatio,
     setIsResized,
+    setImageMetadata,
+    addBatchFiles,
   );
 
+  /**
+   * @overview Updates the B or C parameter of the bicubic kernel from a text input. Editing either value
+   * switches the preset to "custom"; values that are not numbers in [-1, 2] are flagged.
+   *
+   * @param {('cubicB' | 'cubicC')} name - The parameter to update.
+   * @param {string} value - The raw input value.
+   *
+   * @returns {void}
+   */
+  const handleCubicParamChange = (name, value) => {
+    const parsed = Number(value.trim())
+    const isValid = value.trim() !== "" && Number.isFinite(parsed) && parsed >= -1 && parsed <= 2
+    setCubicError(isValid ? "" : "B and C must be numbers between -1 and 2.")
+    setResizeParams((prev) => ({ ...prev, cubicPreset: "custom", [name]: value }))
+  }
+
   /**
    * @overview Initiates the image resizing process. It validates if a file is selected,
    * sets the processing state, calls the `ImageProcessor` to resize the image with the specified parameters,
-   * and then updates the resized image state. Handles errors and ensures UI updates after processing.
+   * and then updates the resized image state. Progress is reported to the progress bar, and the resize
+   * can be stopped with `cancelResize`. Handles errors and ensures UI updates after processing.
    * 
    * @returns {Promise<void>} A promise that resolves when the image resizing is complete.
    */
   const handleResize = async () => {
     if (!selectedFile) return; // Prevent resizing if no file is selected
 
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
     setIsProcessing(true) // Indicate that processing has started
     setIsResized(false) // Reset resized state for a new operation
+    setResizeProgress(0)
 
+    let resizedBlob
+    let encoding
     try {
       // Perform the image resizing using the selected method
-      const resizedBlob = await ImageProcessor.resizeImage(
+      resizedBlob = await ImageProcessor.resizeImage(
         selectedFile,
         resizeParams.width,
         resizeParams.height,
         resizeParams.method,
+        {
+          ...getResizeOptions(resizeParams),
+          ...(hasTransform && { transform }),
+          ...(resizeParams.method === "seam" && { mask: seamMaskRef.current }),
+          onEncoded: (result) => {
+            encoding = result
+          },
+          onProgress: (fraction) => setResizeProgress(Math.round(fraction * 100)),
+          signal: abortController.signal,
+        },
       )
-
-      // Create a URL for the resized image blob and update state
-      const resizedImageUrl = URL.createObjectURL(resizedBlob)
-      setResizedImage(resizedImageUrl)
-
-      const originalImageBlob = await fetch(originalImage).then((res) => res.blob());
-      await saveImageHistory(originalImageBlob, resizedBlob, selectedFile.name);
-
     } catch (error) {
-      console.error("Error resizing image:", error)
-      alert("Failed to resize image. Please try again.")
+      if (isAbortError(error)) {
+        toast({
+          title: "Resize Cancelled",
+          description: "The image was not resized.",
+        });
+      } else {
+        console.error("Error resizing image:", error)
+        alert("Failed to resize image. Please try again.")
+      }
+      return
     } finally {
-      // Simulate a processing delay for better user experience, then reset states
-      setTimeout(() => {
-        setIsProcessing(false)
-        setIsResized(true)
-        // Scroll to the resized image section after processing
-        if (resizedImageRef.current) {
-          resizedImageRef.current.scrollIntoView({ behavior: "smooth", block: "center" })
-        }
-      }, 500) // Minimum 500ms processing time
+      abortControllerRef.current = null
+      setIsProcessing(false)
+    }
+
+    // Create a URL for the resized image blob and update state
+    const resizedImageUrl = URL.createObjectURL(resizedBlob)
+    setResizedImage(resizedImageUrl)
+    setResizedDimensions({ width: encoding.width, height: encoding.height })
+    setResizedFileInfo({
+      size: encoding.size,
+      quality: encoding.quality,
+      fits: encoding.fits,
+      maxFileSizeKb: hasFileSizeLimit(resizeParams) ? Number(resizeParams.maxFileSizeKb) : null,
+      downscaled: encoding.width !== outputDimensions.width || encoding.height !== outputDimensions.height,
+      method: resizeParams.method,
+    })
+    setIsResized(true)
+    // Scroll to the resized image section after processing
+    if (resizedImageRef.current) {
+      resizedImageRef.current.scrollIntoView({ behavior: "smooth", block: "center" })
     }
-    
+
+    const originalImageBlob = await fetch(originalImage).then((res) => res.blob());
+    await saveImageHistory(originalImageBlob, resizedBlob, selectedFile.name, encoding);
+  }
+
+  /**
+   * @overview Cancels the running resize, if any. `handleResize` then reports the cancellation.
+   * 
+   * @returns {void}
+   */
+  const cancelResize = () => {
+    abortControllerRef.current?.abort()
   }
 
-  const saveImageHistory = async (originalBlob, resizedBlob, fileName) => {
+  /**
+   * @overview Uploads an original image and its resized version to storage and records the resize, with the
+   * settings it was made with, in the user's image history.
+   *
+   * @param {Blob} originalBlob - The image as uploaded; a File from a chosen or dropped folder also records that folder.
+   * @param {Blob} resizedBlob - The resized image.
+   * @param {string} fileName - The name of the uploaded file.
+   * @param {{width: number, height: number, quality?: number}} encoding - The encoding result reported by `ImageProcessor.resizeImage`.
+   * @param {object} [params=resizeParams] - The resize parameters the image was resized with.
+   * @param {object | null} [imageTransform] - The crop, flips and rotation applied, or null for none; the current
+   * transform by default.
+   *
+   * @returns {Promise<void>} A promise that resolves once the history is saved or the failure has been reported.
+   */
+  const saveImageHistory = async (originalBlob, resizedBlob, fileName, encoding, params = resizeParams, imageTransform = hasTransform ? transform : null) => {
     try {
       if (!session?.user) {
         console.error("User not authenticated.");
@@ -157,7 +564,25 @@ export function ImageResizerApp({ onBack, session }) {
             resized_img: resizedImageUrl, 
             file_name: fileName, 
             created_at: timestamp,
-            interpolation_method: resizeParams.method
+            interpolation_method: params.method,
+            resize_settings: {
+              linearLight: params.linearLight,
+              edgeMode: params.edgeMode,
+              alignCorners: params.alignCorners,
+              ...(params.method === "bicubic" && getCubicParams(params)),
+              ...(params.method === "lanczos" && { lobes: params.lanczosLobes }),
+              ...(params.sharpen && { sharpen: getSharpenSettings(params) }),
+              ...(params.fit !== "fill" && getFitOptions(params)),
+              ...(imageTransform && { transform: imageTransform }),
+              ...(getSourceFolder(originalBlob) && { folder: getSourceFolder(originalBlob) }),
+              width: encoding.width,
+              height: encoding.height,
+              output: {
+                type: resizedBlob.type,
+                ...(encoding.quality !== undefined && { quality: encoding.quality }),
+                ...(hasFileSizeLimit(params) && { maxFileSize: getOutputOptions(params).maxFileSize }),
+              },
+            },
           }
         ]);
 
@@ -178,14 +603,45 @@ export function ImageResizerApp({ onBack, session }) {
     }
   };
 
+  /**
+   * @overview Downloads the finished images of the batch as one ZIP archive, named by the filename template and,
+   * if chosen, placed in the folders they were uploaded from.
+   * 
+   * @returns {Promise<void>} A promise that resolves once the download has been started or the failure reported.
+   */
+  const downloadBatchZip = async () => {
+    const entries = batchJobs
+      .filter((job) => job.status === "done")
+      .map((job, i) => {
+        const { blob, width, height } = job.result
+        const values = getFileNameValues(job.file.name, { width, height, method: job.settings.resizeParams.method, type: blob.type, index: i + 1 })
+        const fileName = formatFileName(fileNameTemplate, values)
+        return { path: getArchivePath(fileName, zipKeepFolders ? getSourceFolder(job.file) : ""), blob }
+      })
+
+    setIsZipping(true)
+    try {
+      await handleZipDownload(entries, "resized-images.zip")
+    } catch (error) {
+      console.error("Error building ZIP archive:", error)
+      toast({
+        title: "Error",
+        description: `Failed to build the ZIP archive: ${error.message}`,
+        variant: "destructive",
+      })
+    } finally {
+      setIsZipping(false)
+    }
+  }
+
   /**
    * @overview Initiates the download of the resized image. It calls the `handleImageDownload`
-   * utility function with the URL of the resized image and its parameters.
+   * utility function with the URL of the resized image, the filename template and the image's details.
    * 
    * @returns {void}
    */
   const downloadResizedImage = () => {
-    handleImageDownload(resizedImage, resizeParams);
+    handleImageDownload(resizedImage, fileNameTemplate, selectedFile.name, { ...resizedDimensions, method: resizedFileInfo.method });
   };
 
   /**
@@ -280,8 +736,8 @@ export function ImageResizerApp({ onBack, session }) {
               <div className="w-24 h-24 bg-gradient-to-r from-rose-500 to-pink-500 rounded-3xl flex items-center justify-center mx-auto mb-8 shadow-2xl shadow-rose-500/30 transform transition-all duration-500 group-hover:scale-110">
                 <Upload className="h-12 w-12 text-white transform group-hover:scale-110 transition-transform" />
               </div>
-              <p className="text-3xl font-semibold text-gray-900 mb-4">Drop your image here</p>
-              <p className="text-gray-500 mb-8 text-lg max-w-md mx-auto">Supports JPG, JPEG, and PNG files up to 10MB</p>
+              <p className="text-3xl font-semibold text-gray-900 mb-4">Drop your images here</p>
+              <p className="text-gray-500 mb-8 text-lg max-w-md mx-auto">Supports JPG, PNG, WebP, GIF, BMP, AVIF, TIFF and SVG files up to 10MB. Drop several to resize them all with the same settings.</p>
               {/* Display selected file name */}
               {selectedFile && (
                 <p className="text-lg text-gray-700 mb-4">Selected File: <span className="font-semibold">{selectedFile.name}</span></p>
@@ -289,7 +745,8 @@ export function ImageResizerApp({ onBack, session }) {
               {/* Hidden file input for manual selection */}
               <input
                 type="file"
-                accept=".jpg,.jpeg,.png"
+                accept={ACCEPTED_INPUT}
+                multiple
                 onChange={handleFileInput}
                 className="hidden"
                 id="file-input"
@@ -301,7 +758,23 @@ export function ImageResizerApp({ onBack, session }) {
                 className="bg-gradient-to-r from-rose-500 to-pink-500 hover:from-rose-600 hover:to-pink-600 text-white border-0 px-10 py-4 text-lg font-semibold shadow-xl hover:shadow-2xl hover:shadow-rose-500/30 transition-all duration-300 transform hover:scale-105 group relative overflow-hidden"
               >
                 <div className="absolute inset-0 bg-gradient-to-r from-white/20 to-transparent transform -skew-x-12 -translate-x-full group-hover:translate-x-full transition-transform duration-700" />
-                Choose File
+                Choose Files
+              </Button>
+              {/* Hidden folder input; the files keep their paths within the folder for ZIP downloads */}
+              <input
+                type="file"
+                webkitdirectory=""
+                onChange={handleFileInput}
+                className="hidden"
+                id="folder-input"
+              />
+              <Button
+                onClick={() => document.getElementById("folder-input")?.click()}
+                size="lg"
+                variant="outline"
+                className="ml-4 px-8 py-4 text-lg font-semibold border-2 border-rose-200 text-rose-700 hover:bg-rose-50 transition-all duration-300"
+              >
+                Choose Folder
               </Button>
             </div>
           </CardContent>
@@ -334,7 +807,10 @@ export function ImageResizerApp({ onBack, session }) {
                     </Label>
                     <Select
                       value={resizeParams.method}
-                      onValueChange={(value) => setResizeParams((prev) => ({ ...prev, method: value }))}
+                      onValueChange={(value) =>
+                        // Seam carving only stretches to the box, so it resets the fit mode
+                        setResizeParams((prev) => ({ ...prev, method: value, fit: value === "seam" ? "fill" : prev.fit }))
+                      }
                     >
                       <SelectTrigger className="h-14 border-2 border-gray-200/80 focus:border-violet-400 rounded-xl bg-white/50 backdrop-blur-sm text-base transition-all duration-300 hover:border-gray-300">
                         <SelectValue />
@@ -343,20 +819,69 @@ export function ImageResizerApp({ onBack, session }) {
                         <SelectItem value="nearest" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
                           Nearest Neighbor
                         </SelectItem>
+                        <SelectItem value="area" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
+                          Area Average
+                        </SelectItem>
                         <SelectItem value="bilinear" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
                           Bilinear
                         </SelectItem>
                         <SelectItem value="bicubic" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
                           Bicubic
                         </SelectItem>
+                        <SelectItem value="lanczos3" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
+                          Lanczos-3
+                        </SelectItem>
+                        <SelectItem value="lanczos2" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
+                          Lanczos-2
+                        </SelectItem>
+                        <SelectItem value="lanczos" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
+                          Lanczos (Custom Lobes)
+                        </SelectItem>
+                        <SelectItem value="edi" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
+                          Edge-Directed (DCCI)
+                        </SelectItem>
+                        <SelectItem value="seam" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
+                          Seam Carving
+                        </SelectItem>
+                        <SelectItem value="epx" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
+                          Pixel Art: EPX / Scale2x
+                        </SelectItem>
+                        <SelectItem value="hqx" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
+                          Pixel Art: hqx
+                        </SelectItem>
+                        <SelectItem value="xbr" className="text-base py-3 hover:bg-violet-50 rounded-lg transition-colors">
+                          Pixel Art: xBR
+                        </SelectItem>
                       </SelectContent>
                     </Select>
                     {/* Description for selected resize method */}
                     <p className="text-sm text-gray-500">
                       {resizeParams.method === "nearest" && "Fastest, good for pixel art"}
+                      {resizeParams.method === "area" && "Exact pixel averaging, ideal for thumbnails"}
                       {resizeParams.method === "bilinear" && "Balanced quality and speed"}
                       {resizeParams.method === "bicubic" && "Highest quality, smoother edges"}
+                      {resizeParams.method === "lanczos3" && "Sharpest detail, best for downscaling photos"}
+                      {resizeParams.method === "lanczos2" && "Sharp with less ringing than Lanczos-3"}
+                      {resizeParams.method === "lanczos" && "More lobes keep finer detail but ring more around edges"}
+                      {resizeParams.method === "edi" && "Sharp edges when enlarging text and line art"}
+                      {resizeParams.method === "seam" && "Content-aware, keeps subjects undistorted; paint a mask on the preview"}
+                      {resizeParams.method === "epx" && "Crisp 2x/3x sprite scaling, no new colors"}
+                      {resizeParams.method === "hqx" && "Smooth 2x-4x sprite scaling with soft diagonals"}
+                      {resizeParams.method === "xbr" && "Smooth 2x-4x sprite scaling that follows curves"}
                     </p>
+                    {/* Display pixel-art factor validation message */}
+                    {pixelArtError && (
+                      <p className="text-red-500 text-sm flex items-center">
+                        <span className="w-1.5 h-1.5 bg-red-500 rounded-full mr-2"></span>
+                        {pixelArtError}
+                      </p>
+                    )}
+                    {/* SVGs are redrawn at the output size, which leaves the method only the free rotation to interpolate */}
+                    {isSvgInput && (
+                      <p className="text-sm text-gray-500">
+                        SVG images are drawn at the output size, so the method only applies to free rotation and seam carving.
+                      </p>
+                    )}
                   </div>
 
                   {/* Aspect Ratio Lock Toggle */}
@@ -387,12 +912,12 @@ export function ImageResizerApp({ onBack, session }) {
                       checked={lockAspectRatio}
                       onCheckedChange={(checked) => {
                         setLockAspectRatio(checked)
-                        // When locking aspect ratio, reset dimensions to original image dimensions
-                        if (originalDimensions) {
+                        // When locking aspect ratio, reset dimensions to the (transformed) image dimensions
+                        if (sourceDimensions) {
                           setResizeParams((prev) => ({
                             ...prev,
-                            width: originalDimensions.width,
-                            height: originalDimensions.height,
+                            width: sourceDimensions.width,
+                            height: sourceDimensions.height,
                           }))
                         }
                       }}
@@ -455,7 +980,7 @@ export function ImageResizerApp({ onBack, session }) {
                           setResizeParams((prev) => ({
                             ...prev,
                             width: newWidth,
-                            height: lockAspectRatio ? Math.round(newWidth / aspectRatio) : prev.height,
+                            height: lockAspectRatio ? Math.round(newWidth / sourceAspectRatio) : prev.height,
                           }));
                         }}
                         className={`h-14 border-2 rounded-xl text-base pl-12 transition-all duration-300 ${
@@ -527,7 +1052,7 @@ export function ImageResizerApp({ onBack, session }) {
                             setResizeParams((prev) => ({
                               ...prev,
                               height: newHeight,
-                              width: lockAspectRatio ? Math.round(newHeight * aspectRatio) : prev.width,
+                              width: lockAspectRatio ? Math.round(newHeight * sourceAspectRatio) : prev.width,
                             }));
                           }}
                           className={`h-14 border-2 rounded-xl text-base pl-12 transition-all duration-300 ${
@@ -555,7 +1080,7 @@ export function ImageResizerApp({ onBack, session }) {
                   <div className={`flex items-end ${lockAspectRatio ? "lg:col-span-1" : "lg:col-span-1"}`}>
                     <Button
                       onClick={handleResize}
-                      disabled={isProcessing || widthError !== "" || heightError !== "" || resizeParams.width === "" || resizeParams.height === ""}
+                      disabled={isProcessing || widthError !== "" || heightError !== "" || cubicError !== "" || pixelArtError !== "" || transformError !== "" || fileSizeError !== "" || resizeParams.width === "" || resizeParams.height === ""}
                       size="lg"
                       className="w-full h-14 bg-gradient-to-r from-rose-500 to-pink-500 hover:from-rose-600 hover:to-pink-600 text-white border-0 font-bold text-lg shadow-xl hover:shadow-2xl hover:shadow-rose-500/30 transition-all duration-300 transform hover:scale-105 rounded-xl disabled:opacity-50 disabled:transform-none disabled:hover:shadow-xl group relative overflow-hidden"
                     >
@@ -576,6 +1101,722 @@ export function ImageResizerApp({ onBack, session }) {
                   </div>
                 </div>
 
+                {/* Fit Row - Fit Mode, Gravity and Padding */}
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                  {/* Fit Mode Selection */}
+                  <div className="space-y-4">
+                    <Label htmlFor="fit-mode" className="text-base font-semibold text-gray-800 flex items-center">
+                      <Frame className="w-4 h-4 mr-2 text-orange-500" />
+                      Fit Mode
+                    </Label>
+                    <Select
+                      value={resizeParams.fit}
+                      onValueChange={(value) => setResizeParams((prev) => ({ ...prev, fit: value }))}
+                      disabled={resizeParams.method === "seam"}
+                    >
+                      <SelectTrigger id="fit-mode" className="h-14 border-2 border-gray-200/80 focus:border-orange-400 rounded-xl bg-white/50 backdrop-blur-sm text-base transition-all duration-300 hover:border-gray-300">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="rounded-xl border-0 shadow-2xl backdrop-blur-sm">
+                        <SelectItem value="fill" className="text-base py-3 hover:bg-orange-50 rounded-lg transition-colors">
+                          Fill (Stretch)
+                        </SelectItem>
+                        <SelectItem value="contain" className="text-base py-3 hover:bg-orange-50 rounded-lg transition-colors">
+                          Contain (Pad)
+                        </SelectItem>
+                        <SelectItem value="cover" className="text-base py-3 hover:bg-orange-50 rounded-lg transition-colors">
+                          Cover (Crop)
+                        </SelectItem>
+                        <SelectItem value="inside" className="text-base py-3 hover:bg-orange-50 rounded-lg transition-colors">
+                          Inside
+                        </SelectItem>
+                        <SelectItem value="outside" className="text-base py-3 hover:bg-orange-50 rounded-lg transition-colors">
+                          Outside
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {/* Description for selected fit mode, with the resulting output size */}
+                    <p className="text-sm text-gray-500">
+                      {resizeParams.method === "seam" && "Seam carving always fills the exact size"}
+                      {resizeParams.method !== "seam" && resizeParams.fit === "fill" && "Stretch to the exact size, ignoring the aspect ratio"}
+                      {resizeParams.fit === "contain" && "Fit within the size and pad the rest"}
+                      {resizeParams.fit === "cover" && "Fill the size and crop what overflows"}
+                      {resizeParams.fit === "inside" && "Largest size that fits within, keeping the aspect ratio"}
+                      {resizeParams.fit === "outside" && "Smallest size that covers, keeping the aspect ratio"}
+                      {outputDimensions && resizeParams.fit !== "fill" && ` (output ${outputDimensions.width} × ${outputDimensions.height})`}
+                    </p>
+                  </div>
+
+                  {/* Gravity Picker (used by contain and cover) */}
+                  <div className="space-y-4">
+                    <Label className="text-base font-semibold text-gray-800 flex items-center">
+                      <div className="w-2 h-2 bg-orange-500 rounded-full mr-2"></div>
+                      Gravity
+                    </Label>
+                    <div className="grid grid-cols-3 gap-1 w-fit">
+                      {Object.keys(GRAVITIES).map((gravity) => (
+                        <button
+                          key={gravity}
+                          type="button"
+                          title={gravity}
+                          disabled={resizeParams.fit !== "contain" && resizeParams.fit !== "cover"}
+                          onClick={() => {
+                            setFocalPoint(null)
+                            setResizeParams((prev) => ({ ...prev, gravity }))
+                          }}
+                          className={`w-8 h-8 rounded-md border-2 transition-all duration-300 disabled:opacity-40 ${
+                            resizeParams.gravity === gravity
+                              ? "bg-orange-500 border-orange-500"
+                              : "bg-white/50 border-gray-200/80 hover:border-orange-300"
+                          }`}
+                        />
+                      ))}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {resizeParams.fit !== "contain" && resizeParams.fit !== "cover"
+                        ? "Only used when padding or cropping"
+                        : focalPoint
+                          ? "Keep the point picked on the original image in view"
+                          : `Anchor the image to the ${resizeParams.gravity}, or click the original image to pick a focal point`}
+                    </p>
+                  </div>
+
+                  {/* Padding Color (used by contain) */}
+                  <div className="space-y-4">
+                    <Label htmlFor="pad-color" className="text-base font-semibold text-gray-800 flex items-center">
+                      <div className="w-2 h-2 bg-orange-500 rounded-full mr-2"></div>
+                      Padding Color
+                    </Label>
+                    <div className="flex items-center gap-4 h-14">
+                      <input
+                        id="pad-color"
+                        type="color"
+                        value={resizeParams.padColor}
+                        disabled={resizeParams.fit !== "contain" || resizeParams.padTransparent}
+                        onChange={(e) => setResizeParams((prev) => ({ ...prev, padColor: e.target.value }))}
+                        className="h-12 w-16 rounded-lg border-2 border-gray-200/80 bg-white/50 cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                      />
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="pad-transparent"
+                          checked={resizeParams.padTransparent}
+                          disabled={resizeParams.fit !== "contain"}
+                          onCheckedChange={(checked) => setResizeParams((prev) => ({ ...prev, padTransparent: checked }))}
+                          className="data-[state=checked]:bg-orange-500 h-6 w-11"
+                        />
+                        <Label htmlFor="pad-transparent" className="text-sm text-gray-600">
+                          Transparent
+                        </Label>
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {resizeParams.fit === "contain" ? "Fills the letterbox around the image" : "Only used when padding"}
+                    </p>
+                  </div>
+                </div>
+
+                {/* Transform Row - Crop, Rotate and Flip (applied before resizing) */}
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                  {/* Crop Controls */}
+                  <div className="space-y-4">
+                    <Label className="text-base font-semibold text-gray-800 flex items-center">
+                      <Crop className="w-4 h-4 mr-2 text-cyan-500" />
+                      Crop
+                    </Label>
+                    <div className="flex items-center gap-3 h-14">
+                      <Button
+                        variant={cropMode ? "default" : "outline"}
+                        onClick={() => setCropMode((active) => !active)}
+                        disabled={!originalDimensions}
+                        className={`rounded-lg transition-all duration-300 ${cropMode ? "bg-cyan-500 hover:bg-cyan-600 text-white" : ""}`}
+                      >
+                        {cropMode ? "Done" : "Draw Crop"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => setTransform((prev) => ({ ...prev, crop: null }))}
+                        disabled={!transform.crop}
+                        className="rounded-lg"
+                      >
+                        Reset
+                      </Button>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {transform.crop
+                        ? `${transform.crop.width} × ${transform.crop.height} at ${transform.crop.left}, ${transform.crop.top}`
+                        : cropMode
+                          ? "Drag over the original image below"
+                          : "Whole image"}
+                    </p>
+                  </div>
+
+                  {/* Quarter Turns and Flips */}
+                  <div className="space-y-4">
+                    <Label className="text-base font-semibold text-gray-800 flex items-center">
+                      <div className="w-2 h-2 bg-cyan-500 rounded-full mr-2"></div>
+                      Rotate &amp; Flip
+                    </Label>
+                    <div className="flex items-center gap-2 h-14">
+                      {[
+                        { label: "Rotate left", Icon: RotateCcw, update: (prev) => ({ rotate: (prev.rotate + 270) % 360 }) },
+                        { label: "Rotate right", Icon: RotateCw, update: (prev) => ({ rotate: (prev.rotate + 90) % 360 }) },
+                        { label: "Flip horizontally", Icon: FlipHorizontal2, update: (prev) => ({ flipX: !prev.flipX }), active: transform.flipX },
+                        { label: "Flip vertically", Icon: FlipVertical2, update: (prev) => ({ flipY: !prev.flipY }), active: transform.flipY },
+                      ].map(({ label, Icon, update, active }) => (
+                        <Button
+                          key={label}
+                          variant={active ? "default" : "outline"}
+                          size="icon"
+                          title={label}
+                          onClick={() => setTransform((prev) => ({ ...prev, ...update(prev) }))}
+                          className={`h-11 w-11 rounded-lg transition-all duration-300 ${active ? "bg-cyan-500 hover:bg-cyan-600 text-white" : ""}`}
+                        >
+                          <Icon className="h-5 w-5" />
+                        </Button>
+                      ))}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {transform.rotate ? `Turned ${transform.rotate}° clockwise` : "Not turned"}
+                      {transform.flipX && ", flipped horizontally"}
+                      {transform.flipY && ", flipped vertically"}
+                    </p>
+                  </div>
+
+                  {/* Free Rotation Angle */}
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-base font-semibold text-gray-800 flex items-center">
+                        <div className="w-2 h-2 bg-cyan-500 rounded-full mr-2"></div>
+                        Straighten
+                      </Label>
+                      <span className="text-sm text-gray-500">{transform.angle.toFixed(1)}°</span>
+                    </div>
+                    <div className="flex items-center h-14">
+                      <Slider
+                        value={[transform.angle]}
+                        min={-45}
+                        max={45}
+                        step={0.5}
+                        onValueChange={([angle]) => setTransform((prev) => ({ ...prev, angle }))}
+                      />
+                    </div>
+                    {transformError ? (
+                      <p className="text-red-500 text-sm flex items-center">
+                        <span className="w-1.5 h-1.5 bg-red-500 rounded-full mr-2"></span>
+                        {transformError}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-500">Rotated with the selected method, corners become transparent</p>
+                    )}
+                  </div>
+                </div>
+
+                {/* Third Row - Resampling Options */}
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                  {/* Linear Light Toggle */}
+                  <div className="flex items-center justify-between p-6 bg-gradient-to-r from-gray-50 to-gray-100/50 rounded-2xl border border-gray-200/50">
+                    <div className="flex items-center space-x-3">
+                      <div className={`w-10 h-10 rounded-lg flex items-center justify-center transition-all duration-300 ${
+                        resizeParams.linearLight
+                          ? "bg-amber-500/10 border border-amber-500/20"
+                          : "bg-gray-200/50 border border-gray-300/50"
+                      }`}>
+                        <Contrast className={`w-5 h-5 ${resizeParams.linearLight ? "text-amber-600" : "text-gray-600"}`} />
+                      </div>
+                      <div>
+                        <Label htmlFor="linear-light" className="text-base font-semibold text-gray-800 block">
+                          Linear Light
+                        </Label>
+                        <p className="text-sm text-gray-500">
+                          {resizeParams.linearLight ? "Gamma-correct blending, true brightness" : "Blend sRGB values directly (faster)"}
+                        </p>
+                      </div>
+                    </div>
+                    <Switch
+                      id="linear-light"
+                      checked={resizeParams.linearLight}
+                      onCheckedChange={(checked) => setResizeParams((prev) => ({ ...prev, linearLight: checked }))}
+                      className="data-[state=checked]:bg-amber-500 h-6 w-11"
+                    />
+                  </div>
+
+                  {/* Align Corners Toggle */}
+                  <div className="flex items-center justify-between p-6 bg-gradient-to-r from-gray-50 to-gray-100/50 rounded-2xl border border-gray-200/50">
+                    <div className="flex items-center space-x-3">
+                      <div className={`w-10 h-10 rounded-lg flex items-center justify-center transition-all duration-300 ${
+                        resizeParams.alignCorners
+                          ? "bg-sky-500/10 border border-sky-500/20"
+                          : "bg-gray-200/50 border border-gray-300/50"
+                      }`}>
+                        <Crosshair className={`w-5 h-5 ${resizeParams.alignCorners ? "text-sky-600" : "text-gray-600"}`} />
+                      </div>
+                      <div>
+                        <Label htmlFor="align-corners" className="text-base font-semibold text-gray-800 block">
+                          Align Corners
+                        </Label>
+                        <p className="text-sm text-gray-500">
+                          {resizeParams.alignCorners ? "Corner pixels map exactly onto each other" : "Pixels stay centered on the area they cover"}
+                        </p>
+                      </div>
+                    </div>
+                    <Switch
+                      id="align-corners"
+                      checked={resizeParams.alignCorners}
+                      onCheckedChange={(checked) => setResizeParams((prev) => ({ ...prev, alignCorners: checked }))}
+                      className="data-[state=checked]:bg-sky-500 h-6 w-11"
+                    />
+                  </div>
+
+                  {/* Edge Mode Selection */}
+                  <div className="space-y-4">
+                    <Label htmlFor="edge-mode" className="text-base font-semibold text-gray-800 flex items-center">
+                      <Grid3x3 className="w-4 h-4 mr-2 text-teal-500" />
+                      Edge Handling
+                    </Label>
+                    <Select
+                      value={resizeParams.edgeMode}
+                      onValueChange={(value) => setResizeParams((prev) => ({ ...prev, edgeMode: value }))}
+                    >
+                      <SelectTrigger id="edge-mode" className="h-14 border-2 border-gray-200/80 focus:border-teal-400 rounded-xl bg-white/50 backdrop-blur-sm text-base transition-all duration-300 hover:border-gray-300">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="rounded-xl border-0 shadow-2xl backdrop-blur-sm">
+                        <SelectItem value="clamp" className="text-base py-3 hover:bg-teal-50 rounded-lg transition-colors">
+                          Clamp
+                        </SelectItem>
+                        <SelectItem value="mirror" className="text-base py-3 hover:bg-teal-50 rounded-lg transition-colors">
+                          Mirror
+                        </SelectItem>
+                        <SelectItem value="wrap" className="text-base py-3 hover:bg-teal-50 rounded-lg transition-colors">
+                          Wrap
+                        </SelectItem>
+                        <SelectItem value="transparent" className="text-base py-3 hover:bg-teal-50 rounded-lg transition-colors">
+                          Transparent
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {/* Description for selected edge mode */}
+                    <p className="text-sm text-gray-500">
+                      {resizeParams.edgeMode === "clamp" && "Repeat the border pixels"}
+                      {resizeParams.edgeMode === "mirror" && "Reflect the image at its borders"}
+                      {resizeParams.edgeMode === "wrap" && "Tile the image, for seamless textures"}
+                      {resizeParams.edgeMode === "transparent" && "Fade the borders out to transparent"}
+                    </p>
+                  </div>
+                </div>
+
+                {/* Fourth Row - Cubic Kernel Parameters (visible for bicubic) */}
+                {resizeParams.method === "bicubic" && (
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                    {/* Cubic Preset Selection */}
+                    <div className="space-y-4">
+                      <Label htmlFor="cubic-preset" className="text-base font-semibold text-gray-800 flex items-center">
+                        <Spline className="w-4 h-4 mr-2 text-indigo-500" />
+                        Cubic Kernel
+                      </Label>
+                      <Select
+                        value={resizeParams.cubicPreset}
+                        onValueChange={(value) => {
+                          if (value === "custom") {
+                            setResizeParams((prev) => ({ ...prev, cubicPreset: value }))
+                            return
+                          }
+                          setCubicError("")
+                          setResizeParams((prev) => ({
+                            ...prev,
+                            cubicPreset: value,
+                            cubicB: formatCubicParam(CUBIC_PRESETS[value].b),
+                            cubicC: formatCubicParam(CUBIC_PRESETS[value].c),
+                          }))
+                        }}
+                      >
+                        <SelectTrigger id="cubic-preset" className="h-14 border-2 border-gray-200/80 focus:border-indigo-400 rounded-xl bg-white/50 backdrop-blur-sm text-base transition-all duration-300 hover:border-gray-300">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="rounded-xl border-0 shadow-2xl backdrop-blur-sm">
+                          {Object.entries(CUBIC_PRESETS).map(([key, preset]) => (
+                            <SelectItem key={key} value={key} className="text-base py-3 hover:bg-indigo-50 rounded-lg transition-colors">
+                              {preset.label}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value="custom" className="text-base py-3 hover:bg-indigo-50 rounded-lg transition-colors">
+                            Custom
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-sm text-gray-500">Higher B blurs more, higher C sharpens but rings more</p>
+                    </div>
+
+                    {/* B and C Inputs */}
+                    {[
+                      { name: "cubicB", label: "B (blur)" },
+                      { name: "cubicC", label: "C (sharpness)" },
+                    ].map(({ name, label }) => (
+                      <div key={name} className="space-y-4">
+                        <Label htmlFor={name} className="text-base font-semibold text-gray-800 flex items-center">
+                          <div className="w-2 h-2 bg-indigo-500 rounded-full mr-2"></div>
+                          {label}
+                        </Label>
+                        <Input
+                          id={name}
+                          type="text"
+                          inputMode="decimal"
+                          value={resizeParams[name]}
+                          onChange={(e) => handleCubicParamChange(name, e.target.value)}
+                          className={`h-14 border-2 rounded-xl text-base transition-all duration-300 ${
+                            cubicError
+                              ? "border-red-400 bg-red-50/50 focus:border-red-500"
+                              : "border-gray-200/80 bg-white/50 focus:border-indigo-400 hover:border-gray-300"
+                          }`}
+                        />
+                      </div>
+                    ))}
+                    {/* Display cubic parameter error message */}
+                    {cubicError && (
+                      <p className="text-red-500 text-sm flex items-center lg:col-span-3">
+                        <span className="w-1.5 h-1.5 bg-red-500 rounded-full mr-2"></span>
+                        {cubicError}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Fourth Row - Lanczos Lobes (visible for custom Lanczos) */}
+                {resizeParams.method === "lanczos" && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-base font-semibold text-gray-800 flex items-center">
+                        <Spline className="w-4 h-4 mr-2 text-indigo-500" />
+                        Lanczos Lobes
+                      </Label>
+                      <span className="text-sm text-gray-500">{resizeParams.lanczosLobes} on each side</span>
+                    </div>
+                    <Slider
+                      value={[resizeParams.lanczosLobes]}
+                      min={MIN_LANCZOS_LOBES}
+                      max={MAX_LANCZOS_LOBES}
+                      step={1}
+                      onValueChange={([value]) => setResizeParams((prev) => ({ ...prev, lanczosLobes: value }))}
+                    />
+                    <p className="text-sm text-gray-500">
+                      Each lobe widens the kernel by a pixel on each side, so more lobes are also slower
+                    </p>
+                  </div>
+                )}
+
+                {/* Fifth Row - Sharpening */}
+                <div className="p-6 bg-gradient-to-r from-gray-50 to-gray-100/50 rounded-2xl border border-gray-200/50 space-y-6">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <div className={`w-10 h-10 rounded-lg flex items-center justify-center transition-all duration-300 ${
+                        resizeParams.sharpen
+                          ? "bg-emerald-500/10 border border-emerald-500/20"
+                          : "bg-gray-200/50 border border-gray-300/50"
+                      }`}>
+                        <Focus className={`w-5 h-5 ${resizeParams.sharpen ? "text-emerald-600" : "text-gray-600"}`} />
+                      </div>
+                      <div>
+                        <Label htmlFor="sharpen" className="text-base font-semibold text-gray-800 block">
+                          Sharpen After Resizing
+                        </Label>
+                        <p className="text-sm text-gray-500">
+                          {resizeParams.sharpen ? "Unsharp mask restores crispness lost in resampling" : "Keep the resampled result as is"}
+                        </p>
+                      </div>
+                    </div>
+                    <Switch
+                      id="sharpen"
+                      checked={resizeParams.sharpen}
+                      onCheckedChange={(checked) => setResizeParams((prev) => ({ ...prev, sharpen: checked }))}
+                      className="data-[state=checked]:bg-emerald-500 h-6 w-11"
+                    />
+                  </div>
+
+                  {resizeParams.sharpen && (
+                    <>
+                      {/* Radius, Amount and Threshold Sliders */}
+                      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                        {[
+                          { name: "sharpenRadius", label: "Radius", min: 0.3, max: 5, step: 0.1, format: (value) => `${value.toFixed(1)} px` },
+                          { name: "sharpenAmount", label: "Amount", min: 0, max: 300, step: 5, format: (value) => `${value}%` },
+                          { name: "sharpenThreshold", label: "Threshold", min: 0, max: 64, step: 1, format: (value) => `${value} levels` },
+                        ].map(({ name, label, min, max, step, format }) => (
+                          <div key={name} className="space-y-3">
+                            <div className="flex items-center justify-between">
+                              <Label className="text-base font-semibold text-gray-800 flex items-center">
+                                <div className="w-2 h-2 bg-emerald-500 rounded-full mr-2"></div>
+                                {label}
+                              </Label>
+                              <span className="text-sm text-gray-500">{format(resizeParams[name])}</span>
+                            </div>
+                            <Slider
+                              value={[resizeParams[name]]}
+                              min={min}
+                              max={max}
+                              step={step}
+                              onValueChange={([value]) => setResizeParams((prev) => ({ ...prev, [name]: value }))}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        Radius sets the size of the detail that is sharpened, amount its strength; differences below the
+                        threshold are left alone so smooth areas and noise stay clean.
+                      </p>
+
+                      {/* Live before/after preview at the target size */}
+                      {selectedFile && fitLayout && (
+                        <SharpenPreview
+                          file={selectedFile}
+                          transform={transform}
+                          layout={fitLayout}
+                          settings={getSharpenSettings(resizeParams)}
+                        />
+                      )}
+                    </>
+                  )}
+                </div>
+
+                {/* Output Row - Format, Quality and Maximum File Size */}
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                  {/* Output Format Selection */}
+                  <div className="space-y-4">
+                    <Label htmlFor="output-type" className="text-base font-semibold text-gray-800 flex items-center">
+                      <FileImage className="w-4 h-4 mr-2 text-indigo-500" />
+                      Output Format
+                    </Label>
+                    <Select
+                      value={resizeParams.outputType}
+                      onValueChange={(value) => setResizeParams((prev) => ({ ...prev, outputType: value }))}
+                    >
+                      <SelectTrigger id="output-type" className="h-14 border-2 border-gray-200/80 focus:border-indigo-400 rounded-xl bg-white/50 backdrop-blur-sm text-base transition-all duration-300 hover:border-gray-300">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="rounded-xl border-0 shadow-2xl backdrop-blur-sm">
+                        {Object.entries(OUTPUT_FORMATS).map(([type, format]) => (
+                          <SelectItem
+                            key={type}
+                            value={type}
+                            disabled={!encodableTypes.includes(type)}
+                            className="text-base py-3 hover:bg-indigo-50 rounded-lg transition-colors"
+                          >
+                            {format.label}
+                            {!encodableTypes.includes(type) && " (not supported by this browser)"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-gray-500">
+                      {resizeParams.outputType === "image/png" && "Lossless, keeps transparency"}
+                      {resizeParams.outputType === "image/jpeg" && "Small photos; transparent areas become white"}
+                      {resizeParams.outputType === "image/webp" && "Smaller than JPEG, keeps transparency"}
+                      {resizeParams.outputType === "image/avif" && "Smallest files, keeps transparency"}
+                    </p>
+                  </div>
+
+                  {/* Quality (lossy formats) or Compression Level (PNG) */}
+                  {OUTPUT_FORMATS[resizeParams.outputType].lossy ? (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-base font-semibold text-gray-800 flex items-center">
+                          <div className="w-2 h-2 bg-indigo-500 rounded-full mr-2"></div>
+                          Quality
+                        </Label>
+                        <span className="text-sm text-gray-500">{resizeParams.outputQuality}%</span>
+                      </div>
+                      <div className="flex items-center h-14">
+                        <Slider
+                          value={[resizeParams.outputQuality]}
+                          min={1}
+                          max={100}
+                          step={1}
+                          onValueChange={([value]) => setResizeParams((prev) => ({ ...prev, outputQuality: value }))}
+                        />
+                      </div>
+                      <p className="text-sm text-gray-500">Lower quality gives a smaller file with more compression artifacts</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-base font-semibold text-gray-800 flex items-center">
+                          <div className="w-2 h-2 bg-indigo-500 rounded-full mr-2"></div>
+                          Compression Level
+                        </Label>
+                        <span className="text-sm text-gray-500">{resizeParams.pngCompression}</span>
+                      </div>
+                      <div className="flex items-center h-14">
+                        <Slider
+                          value={[resizeParams.pngCompression]}
+                          min={0}
+                          max={9}
+                          step={1}
+                          onValueChange={([value]) => setResizeParams((prev) => ({ ...prev, pngCompression: value }))}
+                        />
+                      </div>
+                      <p className="text-sm text-gray-500">Higher levels give a smaller file but take longer; the pixels are identical</p>
+                    </div>
+                  )}
+
+                  {/* Maximum File Size (lossy formats) */}
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="limit-file-size" className="text-base font-semibold text-gray-800 flex items-center">
+                        <div className="w-2 h-2 bg-indigo-500 rounded-full mr-2"></div>
+                        Max File Size
+                      </Label>
+                      <Switch
+                        id="limit-file-size"
+                        checked={hasFileSizeLimit(resizeParams)}
+                        disabled={!OUTPUT_FORMATS[resizeParams.outputType].lossy}
+                        onCheckedChange={(checked) => setResizeParams((prev) => ({ ...prev, limitFileSize: checked }))}
+                        className="data-[state=checked]:bg-indigo-500"
+                      />
+                    </div>
+                    <div className="relative">
+                      <Input
+                        type="number"
+                        min={1}
+                        value={resizeParams.maxFileSizeKb}
+                        disabled={!hasFileSizeLimit(resizeParams)}
+                        onChange={(e) => setResizeParams((prev) => ({ ...prev, maxFileSizeKb: e.target.value }))}
+                        className="h-14 pr-12 border-2 border-gray-200/80 focus:border-indigo-400 rounded-xl bg-white/50 backdrop-blur-sm text-base transition-all duration-300 hover:border-gray-300"
+                      />
+                      <span className="absolute right-4 top-1/2 -translate-y-1/2 text-sm text-gray-500">KB</span>
+                    </div>
+                    {fileSizeError ? (
+                      <p className="text-red-500 text-sm flex items-center">
+                        <span className="w-1.5 h-1.5 bg-red-500 rounded-full mr-2"></span>
+                        {fileSizeError}
+                      </p>
+                    ) : (
+                      <div className="flex items-center justify-between gap-3">
+                        <Label htmlFor="downscale-to-fit" className="text-sm text-gray-500">
+                          {OUTPUT_FORMATS[resizeParams.outputType].lossy
+                            ? "Shrink the dimensions if the lowest quality is still too large"
+                            : "Needs JPEG, WebP or AVIF"}
+                        </Label>
+                        <Switch
+                          id="downscale-to-fit"
+                          checked={resizeParams.downscaleToFit}
+                          disabled={!hasFileSizeLimit(resizeParams)}
+                          onCheckedChange={(checked) => setResizeParams((prev) => ({ ...prev, downscaleToFit: checked }))}
+                          className="data-[state=checked]:bg-indigo-500"
+                        />
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Metadata Row - EXIF/XMP fields carried into the output */}
+                <div className="space-y-4">
+                  <Label className="text-base font-semibold text-gray-800 flex items-center">
+                    <FileText className="w-4 h-4 mr-2 text-slate-500" />
+                    Keep Metadata
+                  </Label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    {[
+                      { field: "author", label: "Author" },
+                      { field: "copyright", label: "Copyright" },
+                      { field: "dateTaken", label: "Capture Date" },
+                      { field: "gps", label: "Location (GPS)" },
+                    ].map(({ field, label }) => {
+                      const value = imageMetadata?.[field]
+                      return (
+                        <div key={field} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-xl border border-gray-200/50">
+                          <div className="min-w-0">
+                            <Label htmlFor={`keep-${field}`} className="text-sm font-semibold text-gray-800 block">
+                              {label}
+                            </Label>
+                            <p className="text-xs text-gray-500 truncate">
+                              {!value ? "Not in this image" : field === "gps" ? "Present" : value}
+                            </p>
+                          </div>
+                          <Switch
+                            id={`keep-${field}`}
+                            checked={Boolean(value) && resizeParams.keepMetadata.includes(field)}
+                            disabled={!value}
+                            onCheckedChange={(checked) =>
+                              setResizeParams((prev) => ({
+                                ...prev,
+                                keepMetadata: checked
+                                  ? [...prev.keepMetadata, field]
+                                  : prev.keepMetadata.filter((kept) => kept !== field),
+                              }))
+                            }
+                            className="data-[state=checked]:bg-slate-600"
+                          />
+                        </div>
+                      )
+                    })}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    Kept fields are written into the resized file&apos;s EXIF. The location is removed unless you keep it.
+                  </p>
+                </div>
+
+                {/* File Name Row - Template of downloaded file names, saved to the user's account */}
+                <div className="space-y-4">
+                  <Label htmlFor="filename-template" className="text-base font-semibold text-gray-800 flex items-center">
+                    <FilePen className="w-4 h-4 mr-2 text-slate-500" />
+                    Download File Name
+                  </Label>
+                  <Input
+                    id="filename-template"
+                    value={fileNameTemplate}
+                    onChange={(e) => setFileNameTemplate(e.target.value)}
+                    placeholder={DEFAULT_FILENAME_TEMPLATE}
+                    className={`h-12 border-2 rounded-xl text-base transition-all duration-300 ${
+                      templateError
+                        ? "border-red-400 bg-red-50/50 focus:border-red-500"
+                        : "border-gray-200/80 bg-white/50 focus:border-rose-400 hover:border-gray-300"
+                    }`}
+                  />
+                  {templateError ? (
+                    <p className="text-red-500 text-sm flex items-center">
+                      <span className="w-1.5 h-1.5 bg-red-500 rounded-full mr-2"></span>
+                      {templateError}
+                    </p>
+                  ) : (
+                    selectedFile && outputDimensions && (
+                      <p className="text-sm text-gray-500">
+                        This image downloads as{" "}
+                        <span className="font-medium text-gray-700">
+                          {formatFileName(
+                            fileNameTemplate,
+                            getFileNameValues(selectedFile.name, { ...outputDimensions, method: resizeParams.method, type: resizeParams.outputType }),
+                          )}
+                        </span>
+                      </p>
+                    )
+                  )}
+                  <p className="text-sm text-gray-500">
+                    Placeholders: {FILENAME_PLACEHOLDERS.map((key) => `{${key}}`).join(", ")}. The extension is added unless
+                    the template places {"{ext}"}. Used for single downloads and ZIP archives, and saved to your account.
+                  </p>
+                </div>
+
+                {/* Resize Progress with Cancel button (visible while a resize is running) */}
+                {isProcessing && (
+                  <div className="flex items-center gap-4 p-4 bg-gradient-to-r from-rose-50 to-pink-50/50 rounded-2xl border border-rose-200/50">
+                    <div className="flex-1 space-y-2">
+                      <div className="flex items-center justify-between text-sm font-medium text-rose-700">
+                        <span>Resizing image...</span>
+                        <span>{resizeProgress}%</span>
+                      </div>
+                      <Progress value={resizeProgress} className="h-2 bg-rose-100" />
+                    </div>
+                    <Button
+                      onClick={cancelResize}
+                      variant="outline"
+                      size="sm"
+                      className="border-rose-200 text-rose-700 hover:bg-rose-100 hover:text-rose-800 rounded-lg transition-all duration-300"
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+
                 {/* Original Dimensions Display (visible if originalDimensions exist) */}
                 {originalDimensions && (
                   <div className="flex items-center justify-center p-4 bg-gradient-to-r from-blue-50 to-cyan-50/50 rounded-2xl border border-blue-200/50">
@@ -584,6 +1825,16 @@ export function ImageResizerApp({ onBack, session }) {
                       <p className="text-lg font-bold text-blue-800">
                         {originalDimensions.width} × {originalDimensions.height} pixels
                       </p>
+                      {originalDimensions.orientation > 1 && (
+                        <p className="text-sm text-blue-600 mt-1">
+                          Turned upright using its EXIF orientation ({originalDimensions.orientation})
+                        </p>
+                      )}
+                      {hasTransform && (
+                        <p className="text-sm text-blue-600 mt-1">
+                          {sourceDimensions.width} × {sourceDimensions.height} after crop and rotation
+                        </p>
+                      )}
                     </div>
                   </div>
                 )}
@@ -592,6 +1843,151 @@ export function ImageResizerApp({ onBack, session }) {
           </Card>
         )}
 
+        {/* Batch Queue Section (visible once several images have been added) */}
+        {batchJobs.length > 0 && (
+          <Card className="mb-12 overflow-hidden shadow-2xl border-0 bg-white/80 backdrop-blur-sm transition-all duration-500">
+            <CardContent className="p-8">
+              {/* Section Header with the batch actions */}
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-8 pb-6 border-b border-gray-200/60">
+                <div className="flex items-center">
+                  <div className="w-12 h-12 bg-gradient-to-r from-amber-500 to-orange-500 rounded-xl flex items-center justify-center mr-4 shadow-lg">
+                    <Layers className="w-6 h-6 text-white" />
+                  </div>
+                  <div>
+                    <h3 className="text-2xl font-bold text-gray-900">Batch Queue</h3>
+                    <p className="text-gray-600">
+                      {batchJobs.length} images · {batchCounts.done ?? 0} done
+                      {batchCounts.failed ? ` · ${batchCounts.failed} failed` : ""}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-3">
+                  <Button
+                    onClick={() => runBatch(startJobs)}
+                    disabled={!batchCounts.ready || widthError !== "" || heightError !== "" || cubicError !== "" || fileSizeError !== "" || resizeParams.width === "" || resizeParams.height === ""}
+                    className="bg-gradient-to-r from-rose-500 to-pink-500 hover:from-rose-600 hover:to-pink-600 text-white border-0 font-semibold rounded-xl disabled:opacity-50"
+                  >
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    Resize All ({batchCounts.ready ?? 0})
+                  </Button>
+                  {Boolean(batchCounts.failed || batchCounts.cancelled) && (
+                    <Button onClick={() => runBatch(retryJobs)} variant="outline" className="rounded-xl">
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Retry Failed
+                    </Button>
+                  )}
+                  {isBatchRunning ? (
+                    <Button onClick={cancelJobs} variant="outline" className="border-rose-200 text-rose-700 hover:bg-rose-100 hover:text-rose-800 rounded-xl">
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  ) : (
+                    <Button onClick={clearJobs} variant="outline" className="rounded-xl">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Clear
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-500 mb-4">
+                Every image is resized with the settings above, at most two at a time{session?.user ? ", and saved to your history." : "."}
+                {lockAspectRatio && " Each keeps its own aspect ratio at the target width."}
+                {(hasTransform || resizeParams.method === "seam") && " The crop, rotation and seam-carving mask only apply to the previewed image."}
+              </p>
+
+              {/* ZIP download of the finished images */}
+              {Boolean(batchCounts.done) && (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 items-center mb-6 p-4 bg-gradient-to-r from-amber-50 to-orange-50/50 rounded-2xl border border-amber-200/50">
+                  <div className="flex items-center justify-between gap-3 p-2">
+                    <Label htmlFor="zip-folders" className="text-sm text-gray-700">Keep the folders the images came from</Label>
+                    <Switch
+                      id="zip-folders"
+                      checked={zipKeepFolders}
+                      onCheckedChange={setZipKeepFolders}
+                      className="data-[state=checked]:bg-amber-500 h-6 w-11"
+                    />
+                  </div>
+                  <Button
+                    onClick={downloadBatchZip}
+                    disabled={isZipping || templateError !== ""}
+                    className="bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white border-0 font-semibold rounded-xl"
+                  >
+                    {isZipping ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                    Download ZIP ({batchCounts.done})
+                  </Button>
+                </div>
+              )}
+
+              {/* One row per image with its status, progress and result */}
+              <div className="space-y-3">
+                {batchJobs.map((job) => (
+                  <div key={job.id} className="flex items-center gap-4 p-3 bg-gray-50/80 rounded-xl border border-gray-200/60">
+                    <div className="w-12 h-12 flex-shrink-0 bg-white rounded-lg overflow-hidden flex items-center justify-center border border-gray-200/60">
+                      {job.result ? (
+                        <img src={job.result.url} alt={job.file.name} className="w-full h-full object-contain" />
+                      ) : (
+                        <ImageIcon className="h-5 w-5 text-gray-400" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center justify-between gap-4 text-sm">
+                        <span className="font-medium text-gray-800 truncate">{job.file.name}</span>
+                        <span
+                          className={`flex-shrink-0 font-medium ${
+                            job.status === "done" ? "text-emerald-600" : job.status === "failed" ? "text-red-500" : "text-gray-500"
+                          }`}
+                        >
+                          {{
+                            ready: "Ready",
+                            queued: "Waiting",
+                            processing: `${Math.round(job.progress * 100)}%`,
+                            done: "Done",
+                            failed: "Failed",
+                            cancelled: "Cancelled",
+                          }[job.status]}
+                        </span>
+                      </div>
+                      {job.status === "processing" && <Progress value={job.progress * 100} className="h-1.5 bg-rose-100" />}
+                      {job.status === "failed" && <p className="text-sm text-red-500">{job.error}</p>}
+                      {job.result && (
+                        <p className="text-sm text-gray-500">
+                          {job.result.width} × {job.result.height} · {formatFileSize(job.result.size)}
+                          {job.result.quality !== undefined && ` at ${Math.round(job.result.quality * 100)}% quality`}
+                          {!job.result.fits && " · over the size limit"}
+                        </p>
+                      )}
+                    </div>
+                    {job.result && (
+                      <Button
+                        onClick={() => handleImageDownload(job.result.url, fileNameTemplate, job.file.name, { ...job.result, method: job.settings.resizeParams.method })}
+                        disabled={templateError !== ""}
+                        size="sm"
+                        variant="outline"
+                        className="flex-shrink-0 rounded-lg"
+                        title="Download"
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {(job.status === "failed" || job.status === "cancelled") && (
+                      <Button
+                        onClick={() => retryJobs(batchSettings, job.id)}
+                        size="sm"
+                        variant="outline"
+                        className="flex-shrink-0 rounded-lg"
+                        title="Retry"
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Image Preview Section (visible if original image is loaded) */}
         {originalImage && (
           <div ref={resizedImageRef} className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -613,13 +2009,93 @@ export function ImageResizerApp({ onBack, session }) {
                     </div>
                   </div>
                 </div>
-                <div className="p-6">
+                <div className="p-6 space-y-4">
+                  {/* Seam-carving mask tools (visible for seam carving) */}
+                  {resizeParams.method === "seam" && originalDimensions && !cropMode && (
+                    <div className="flex flex-wrap items-center gap-3">
+                      {[
+                        { tool: "protect", label: "Protect", Icon: Shield, active: "bg-green-500 hover:bg-green-600" },
+                        { tool: "remove", label: "Remove", Icon: Scissors, active: "bg-red-500 hover:bg-red-600" },
+                        { tool: "erase", label: "Erase", Icon: Eraser, active: "bg-gray-700 hover:bg-gray-800" },
+                      ].map(({ tool, label, Icon, active }) => (
+                        <Button
+                          key={tool}
+                          size="sm"
+                          variant={maskTool === tool ? "default" : "outline"}
+                          onClick={() => setMaskTool(tool)}
+                          className={`rounded-lg transition-all duration-300 ${maskTool === tool ? `${active} text-white` : ""}`}
+                        >
+                          <Icon className="h-4 w-4 mr-1" />
+                          {label}
+                        </Button>
+                      ))}
+                      <div className="flex items-center gap-2 flex-1 min-w-[8rem]">
+                        <span className="text-sm text-gray-500">Brush</span>
+                        <Slider
+                          value={[brushSize]}
+                          min={4}
+                          max={80}
+                          step={2}
+                          onValueChange={([value]) => setBrushSize(value)}
+                          className="flex-1"
+                        />
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          seamMaskRef.current?.fill(0)
+                          setMaskVersion((version) => version + 1)
+                        }}
+                        className="rounded-lg"
+                      >
+                        Clear
+                      </Button>
+                      <p className="w-full text-sm text-gray-500">
+                        Paint green over areas to keep undistorted and red over areas to remove first.
+                      </p>
+                    </div>
+                  )}
                   <div className="relative bg-gradient-to-br from-gray-50 to-gray-100 rounded-2xl overflow-hidden group transition-all duration-500">
-                    <img
-                      src={originalImage || "/placeholder.svg"}
-                      alt="Original"
-                      className="w-full h-auto max-h-96 object-contain mx-auto transition-transform duration-500 group-hover:scale-105"
-                    />
+                    {cropMode && originalDimensions ? (
+                      <div className="flex justify-center">
+                        <CropEditor
+                          imageSrc={originalImage}
+                          width={originalDimensions.width}
+                          height={originalDimensions.height}
+                          crop={transform.crop}
+                          onCropChange={(crop) => setTransform((prev) => ({ ...prev, crop }))}
+                        />
+                      </div>
+                    ) : resizeParams.method === "seam" && originalDimensions ? (
+                      <div className="flex justify-center">
+                        <SeamMaskEditor
+                          imageSrc={originalImage}
+                          width={originalDimensions.width}
+                          height={originalDimensions.height}
+                          maskRef={seamMaskRef}
+                          maskVersion={maskVersion}
+                          tool={maskTool}
+                          brushSize={brushSize}
+                        />
+                      </div>
+                    ) : (resizeParams.fit === "contain" || resizeParams.fit === "cover") && originalDimensions ? (
+                      <div className="flex justify-center">
+                        <FocalPointPicker
+                          imageSrc={originalImage}
+                          width={originalDimensions.width}
+                          height={originalDimensions.height}
+                          focalPoint={focalPoint}
+                          onFocalPointChange={setFocalPoint}
+                        />
+                      </div>
+                    ) : (
+                      <img
+                        src={originalImage || "/placeholder.svg"}
+                        alt="Original"
+                        className="w-full h-auto max-h-96 object-contain mx-auto transition-transform duration-500 group-hover:scale-105"
+                      />
+                    )}
                     {/* Button to open fullscreen modal for original image */}
                     <button
                       onClick={() =>
@@ -648,16 +2124,19 @@ export function ImageResizerApp({ onBack, session }) {
                   <div className="flex items-center justify-between">
                     <div>
                       <h3 className="font-bold text-white text-lg">
-                        Resized Image {resizedImage && `(${resizeParams.width}×${resizeParams.height})`}
+                        Resized Image {resizedImage && resizedDimensions && `(${resizedDimensions.width}×${resizedDimensions.height})`}
                       </h3>
                       <p className="text-rose-100 text-sm">
                         {resizeParams.method} interpolation
+                        {resizedImage && resizedFileInfo && ` · ${formatFileSize(resizedFileInfo.size)}`}
+                        {resizedImage && resizedFileInfo?.quality !== undefined && ` at ${Math.round(resizedFileInfo.quality * 100)}% quality`}
                       </p>
                     </div>
                     {/* Download button for resized image */}
                     {resizedImage && (
                       <Button
                         onClick={downloadResizedImage}
+                        disabled={templateError !== ""}
                         size="sm"
                         className="bg-white/20 hover:bg-white/30 text-white border-0 backdrop-blur-sm transition-all duration-300 hover:scale-105"
                       >
@@ -681,7 +2160,7 @@ export function ImageResizerApp({ onBack, session }) {
                           openImageModal(
                             resizedImage,
                             "Resized Image",
-                            `${resizeParams.width} × ${resizeParams.height} pixels`,
+                            resizedDimensions && `${resizedDimensions.width} × ${resizedDimensions.height} pixels`,
                           )
                         }
                         className="absolute top-4 right-4 bg-black/70 hover:bg-black/90 text-white p-3 rounded-xl opacity-0 group-hover:opacity-100 transition-all duration-300 transform hover:scale-110 backdrop-blur-sm"
@@ -701,6 +2180,16 @@ export function ImageResizerApp({ onBack, session }) {
                       </div>
                     </div>
                   )}
+                  {/* Result of the maximum file size, if one was set */}
+                  {resizedImage && resizedFileInfo?.maxFileSizeKb && (
+                    <p className={`mt-4 text-sm flex items-center ${resizedFileInfo.fits ? "text-emerald-600" : "text-red-500"}`}>
+                      <span className={`w-1.5 h-1.5 rounded-full mr-2 ${resizedFileInfo.fits ? "bg-emerald-500" : "bg-red-500"}`}></span>
+                      {resizedFileInfo.fits
+                        ? `Fits the ${resizedFileInfo.maxFileSizeKb} KB limit`
+                        : `Could not get under ${resizedFileInfo.maxFileSizeKb} KB; this is the smallest file found`}
+                      {resizedFileInfo.downscaled && `, shrunk to ${resizedDimensions.width} × ${resizedDimensions.height}`}
+                    </p>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -715,7 +2204,7 @@ export function ImageResizerApp({ onBack, session }) {
           originalImage={originalImage}
           resizedImage={resizedImage}
           originalDimensions={originalDimensions}
-          resizeParams={resizeParams}
+          resizeParams={{ ...resizeParams, ...resizedDimensions }}
         />
       </div>
     </div>
@@ -0,0 +1,140 @@
+/**
+ * @file components/seam-mask-editor.jsx
+ * @author Harsh
+ * @description Image preview with a paintable overlay for marking areas that seam carving should protect or remove.
+ * @lastUpdated 2026-10-19
+ */
+"use client"
+
+import { useEffect, useRef } from "react"
+import { SEAM_MASK } from "../lib/image-resizers/seamCarving"
+
+// Overlay colors for each mask value, drawn semi-transparent over the image
+const MASK_COLORS = {
+  [SEAM_MASK.PROTECT]: [34, 197, 94],
+  [SEAM_MASK.REMOVE]: [239, 68, 68],
+}
+const OVERLAY_ALPHA = 110
+
+// Mask value written by each painting tool
+const TOOL_VALUES = {
+  protect: SEAM_MASK.PROTECT,
+  remove: SEAM_MASK.REMOVE,
+  erase: SEAM_MASK.NONE,
+}
+
+/**
+ * @overview SeamMaskEditor shows the original image with a canvas overlay at the image's natural resolution.
+ * Dragging over the image paints the selected tool into the mask held by `maskRef` (one `SEAM_MASK` value per
+ * pixel) and onto the overlay: green for areas seam carving must keep, red for areas it should remove first.
+ * The mask lives in a ref rather than state, so painting does not re-render the app on every pointer move.
+ *
+ * @param {object} props - The properties for the SeamMaskEditor component.
+ * @param {string} props.imageSrc - The source URL of the image to paint over.
+ * @param {number} props.width - The natural width of the image in pixels.
+ * @param {number} props.height - The natural height of the image in pixels.
+ * @param {{current: Int8Array | null}} props.maskRef - Ref holding the mask; it is painted in place.
+ * @param {number} props.maskVersion - Changing it redraws the overlay from `maskRef` (e.g. after clearing the mask).
+ * @param {('protect' | 'remove' | 'erase')} props.tool - The painting tool.
+ * @param {number} props.brushSize - The brush diameter in screen pixels.
+ *
+ * @returns {JSX.Element} The image with its paintable overlay.
+ */
+export function SeamMaskEditor({ imageSrc, width, height, maskRef, maskVersion, tool, brushSize }) {
+  const canvasRef = useRef(null)
+  const lastPointRef = useRef(null) // Last painted point while dragging, in image pixels
+
+  // Redraw the whole overlay from the mask whenever the image or the mask is replaced
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const mask = maskRef.current
+    if (!canvas || !mask) return
+
+    const ctx = canvas.getContext("2d")
+    const overlay = ctx.createImageData(width, height)
+    for (let i = 0; i < mask.length; i++) {
+      const color = MASK_COLORS[mask[i]]
+      if (!color) continue
+      overlay.data.set([...color, OVERLAY_ALPHA], i * 4)
+    }
+    ctx.putImageData(overlay, 0, 0)
+  }, [width, height, maskRef, maskVersion])
+
+  /**
+   * @overview Paints a round brush stamp at one point into both the mask and the overlay.
+   *
+   * @param {number} centerX - The stamp's center in image pixels.
+   * @param {number} centerY - The stamp's center in image pixels.
+   * @param {number} radius - The stamp's radius in image pixels.
+   *
+   * @returns {void}
+   */
+  const stamp = (centerX, centerY, radius) => {
+    const mask = maskRef.current
+    const ctx = canvasRef.current.getContext("2d")
+    const value = TOOL_VALUES[tool]
+
+    for (let y = Math.max(0, Math.floor(centerY - radius)); y <= Math.min(height - 1, Math.ceil(centerY + radius)); y++) {
+      for (let x = Math.max(0, Math.floor(centerX - radius)); x <= Math.min(width - 1, Math.ceil(centerX + radius)); x++) {
+        if ((x + 0.5 - centerX) ** 2 + (y + 0.5 - centerY) ** 2 <= radius * radius) {
+          mask[y * width + x] = value
+        }
+      }
+    }
+
+    ctx.globalCompositeOperation = "destination-out" // Replace rather than stack the overlay color
+    ctx.fillStyle = "#000"
+    ctx.beginPath()
+    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI)
+    ctx.fill()
+    if (value !== SEAM_MASK.NONE) {
+      ctx.globalCompositeOperation = "source-over"
+      ctx.fillStyle = `rgba(${MASK_COLORS[value].join(", ")}, ${OVERLAY_ALPHA / 255})`
+      ctx.fill()
+    }
+  }
+
+  /**
+   * @overview Paints from the previous pointer position to the current one, so fast strokes have no gaps.
+   *
+   * @param {React.PointerEvent<HTMLCanvasElement>} event - The pointer event.
+   *
+   * @returns {void}
+   */
+  const paint = (event) => {
+    const rect = canvasRef.current.getBoundingClientRect()
+    const scale = width / rect.width // Image pixels per screen pixel
+    const point = { x: (event.clientX - rect.left) * scale, y: (event.clientY - rect.top) * scale }
+    const radius = Math.max(0.5, (brushSize / 2) * scale)
+    const from = lastPointRef.current ?? point
+
+    const steps = Math.max(1, Math.ceil(Math.hypot(point.x - from.x, point.y - from.y) / (radius / 2)))
+    for (let step = 1; step <= steps; step++) {
+      stamp(from.x + ((point.x - from.x) * step) / steps, from.y + ((point.y - from.y) * step) / steps, radius)
+    }
+    lastPointRef.current = point
+  }
+
+  return (
+    <div className="relative inline-block max-w-full">
+      <img src={imageSrc} alt="Original" className="block max-w-full h-auto max-h-96 select-none" draggable={false} />
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId)
+          lastPointRef.current = null
+          paint(event)
+        }}
+        onPointerMove={(event) => {
+          if (event.currentTarget.hasPointerCapture(event.pointerId)) paint(event)
+        }}
+        onPointerUp={() => {
+          lastPointRef.current = null
+        }}
+      />
+    </div>
+  )
+}
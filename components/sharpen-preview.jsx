@@ -0,0 +1,196 @@
+/**
+ * @file components/sharpen-preview.jsx
+ * @author Harsh
+ * @description Live before/after preview of the unsharp-mask sharpening stage on a crop of the resized image.
+ * @lastUpdated 2026-10-19
+ */
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { unsharpMask } from "../lib/image-resizers/sharpen"
+import { decodeImageFile } from "../lib/image-resizers/imageCodec"
+import { isSvgFile } from "../lib/image-resizers/inputFormat"
+import { readSvgSize, rasterizeSvg } from "../lib/image-resizers/svgRaster"
+import { getTransformedSize, orientImage } from "../lib/image-resizers/transform"
+
+// Largest side of the previewed crop, in target pixels; small enough to re-sharpen on every slider move
+const PREVIEW_SIZE = 240
+
+/**
+ * @overview SharpenPreview shows the center of the visible part of the resized image twice, before and after
+ * sharpening, so the effect of the radius, amount and threshold can be judged at 1:1 pixels while the sliders move.
+ * The source goes through the same steps as the resize: it is decoded upright (see `decodeImageFile`), cropped,
+ * flipped and turned (see `orientImage`), rotated by the free angle and scaled to the fit layout, and the crop is
+ * centered on what the 'cover' gravity keeps. Resizing the full image on every change would be far too slow, so the
+ * scaling is done by the browser, which closely approximates the selected method; only the sharpening is exactly
+ * what the resize will apply.
+ *
+ * @param {object} props - The properties for the SharpenPreview component.
+ * @param {File} props.file - The original image file.
+ * @param {object} props.transform - The crop, flips and rotation applied before resizing (see `IDENTITY_TRANSFORM`).
+ * @param {{width: number, height: number, placement: object | null}} props.layout - The size the image is resampled
+ * to and its placement in the output (see `computeFitLayout`).
+ * @param {{radius: number, amount: number, threshold: number}} props.settings - The sharpening settings (see `unsharpMask`).
+ *
+ * @returns {JSX.Element} The side-by-side preview.
+ */
+export function SharpenPreview({ file, transform, layout, settings }) {
+  const beforeCanvasRef = useRef(null)
+  const afterCanvasRef = useRef(null)
+  const [decoded, setDecoded] = useState(null) // The upright source pixels as {data, width, height}
+  const [before, setBefore] = useState(null) // The unsharpened crop as {data, width, height}
+  const [sourceError, setSourceError] = useState("") // Why the source could not be decoded, cropped or drawn
+  const [sharpenError, setSharpenError] = useState("") // Why the crop could not be sharpened
+
+  // Decode the original image once per file
+  useEffect(() => {
+    let cancelled = false
+    setDecoded(null)
+    setSourceError("")
+    decodePreviewSource(file).then(
+      (image) => {
+        if (!cancelled) setDecoded(image)
+      },
+      (error) => {
+        if (!cancelled) setSourceError(error.message)
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [file])
+
+  // Crop, flip and turn the source as the resize will, staged on a canvas to draw from
+  const oriented = useMemo(() => {
+    if (!decoded) return null
+    try {
+      const image = orientImage(decoded, transform)
+      const canvas = document.createElement("canvas")
+      canvas.width = image.width
+      canvas.height = image.height
+      canvas.getContext("2d").putImageData(new ImageData(image.data, image.width, image.height), 0, 0)
+      return { canvas, size: getTransformedSize(decoded.width, decoded.height, transform) }
+    } catch (error) {
+      return { error: error.message }
+    }
+  }, [decoded, transform])
+
+  // Draw the crop of the resampled image whenever the source, the transform or the layout changes
+  const { width: layoutWidth, height: layoutHeight } = layout
+  const crop = getPreviewCrop(layout)
+  const angle = transform.angle ?? 0
+  useEffect(() => {
+    const canvas = beforeCanvasRef.current
+    if (!oriented || !canvas || !(layoutWidth >= 1) || !(layoutHeight >= 1)) return
+    if (oriented.error) {
+      setBefore(null)
+      setSourceError(oriented.error)
+      return
+    }
+
+    canvas.width = crop.width
+    canvas.height = crop.height
+    const ctx = canvas.getContext("2d")
+    ctx.imageSmoothingQuality = "high"
+    // Map the transformed image onto the resampled size, then rotate the oriented image about its center within it
+    ctx.translate(-crop.left, -crop.top)
+    ctx.scale(layoutWidth / oriented.size.width, layoutHeight / oriented.size.height)
+    ctx.translate(oriented.size.width / 2, oriented.size.height / 2)
+    ctx.rotate((angle * Math.PI) / 180)
+    ctx.drawImage(oriented.canvas, -oriented.canvas.width / 2, -oriented.canvas.height / 2)
+    const { data } = ctx.getImageData(0, 0, crop.width, crop.height)
+    setBefore({ data, width: crop.width, height: crop.height })
+    setSourceError("")
+  }, [oriented, angle, layoutWidth, layoutHeight, crop.left, crop.top, crop.width, crop.height])
+
+  // Re-sharpen the crop on every settings change
+  const { radius, amount, threshold } = settings
+  useEffect(() => {
+    const canvas = afterCanvasRef.current
+    if (!before || !canvas) return
+
+    let sharpened
+    try {
+      sharpened = unsharpMask(before, { radius, amount, threshold })
+    } catch (error) {
+      // Out-of-range settings (e.g. while a value is being typed) leave the preview blank instead of breaking the page
+      canvas.getContext("2d").clearRect(0, 0, canvas.width, canvas.height)
+      setSharpenError(error.message)
+      return
+    }
+    canvas.width = sharpened.width
+    canvas.height = sharpened.height
+    canvas.getContext("2d").putImageData(new ImageData(sharpened.data, sharpened.width, sharpened.height), 0, 0)
+    setSharpenError("")
+  }, [before, radius, amount, threshold])
+
+  const error = sourceError || sharpenError
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        {[
+          { label: "Before", ref: beforeCanvasRef },
+          { label: "After", ref: afterCanvasRef },
+        ].map(({ label, ref }) => (
+          <div key={label} className="space-y-2">
+            <p className="text-sm font-medium text-gray-600">{label}</p>
+            <canvas
+              ref={ref}
+              className="w-full h-auto rounded-xl border border-gray-200/80 bg-white"
+              style={{ imageRendering: "pixelated" }}
+            />
+          </div>
+        ))}
+      </div>
+      {error && (
+        <p className="text-red-500 text-sm flex items-center">
+          <span className="w-1.5 h-1.5 bg-red-500 rounded-full mr-2"></span>
+          Preview unavailable: {error}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * @overview Decodes the original image for the preview as the resize sees it: upright, and for an SVG drawn at its
+ * intrinsic size, the size its transform is measured in.
+ *
+ * @param {File} file - The original image file.
+ *
+ * @returns {Promise<{data: Uint8ClampedArray, width: number, height: number}>} A Promise that resolves with the pixels.
+ * @throws {Error} If the file cannot be decoded.
+ */
+async function decodePreviewSource(file) {
+  if (!isSvgFile(file)) return decodeImageFile(file)
+  const { width, height } = await readSvgSize(file)
+  return decodeImageFile(await rasterizeSvg(file, width, height))
+}
+
+/**
+ * @overview Picks the part of the resampled image to preview: at most `PREVIEW_SIZE` pixels a side, centered on the
+ * part that stays in the output, which for 'cover' is the part its gravity keeps.
+ *
+ * @param {{width: number, height: number, placement: {width: number, height: number, left: number, top: number} | null}} layout -
+ * The size the image is resampled to and its placement in the output (see `computeFitLayout`).
+ *
+ * @returns {{left: number, top: number, width: number, height: number}} The crop, in pixels of the resampled image.
+ */
+function getPreviewCrop({ width, height, placement }) {
+  const visible = placement
+    ? {
+        left: Math.max(0, -placement.left),
+        top: Math.max(0, -placement.top),
+        right: Math.min(width, placement.width - placement.left),
+        bottom: Math.min(height, placement.height - placement.top),
+      }
+    : { left: 0, top: 0, right: width, bottom: height }
+  const cropWidth = Math.max(1, Math.min(PREVIEW_SIZE, visible.right - visible.left))
+  const cropHeight = Math.max(1, Math.min(PREVIEW_SIZE, visible.bottom - visible.top))
+  return {
+    left: Math.floor((visible.left + visible.right - cropWidth) / 2),
+    top: Math.floor((visible.top + visible.bottom - cropHeight) / 2),
+    width: cropWidth,
+    height: cropHeight,
+  }
+}
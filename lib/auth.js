@@ -2,7 +2,7 @@
  * @file lib/auth.js
  * @author Anshi
  * @description Provides functions for user authentication, including sign-up, sign-in, sign-out, and password reset.
- * @lastUpdated 2025-10-14
+ * @lastUpdated 2026-10-19
  */
 import { supabase } from "./supabase";
 
@@ -73,6 +73,20 @@ export const getCurrentUser = async () => {
   return { user, error };
 };
 
+/**
+ * @overview Saves preferences in the current user's metadata, so they follow the user to any device.
+ * Keys that are not given are left as they are.
+ * 
+ * @param {object} preferences - The metadata keys to set, e.g. `{ filename_template: "{name}-{width}" }`.
+ * 
+ * @returns {Promise<{data: object | null, error: Error | null}>} An object containing the updated user data upon success
+ * or an error object if the update fails.
+ */
+export const updateUserPreferences = async (preferences) => {
+  const { data, error } = await supabase.auth.updateUser({ data: preferences });
+  return { data, error };
+};
+
 /**
  * @overview Initiates the password reset process for a given email address via Supabase.
  * A password reset link will be sent to the user's email.
@@ -0,0 +1,153 @@
+/**
+ * @file lib/image-actions/__tests__/batchQueue.test.js
+ * @author Harsh
+ * @description Tests of the batch queue: bounded concurrency in the order jobs were added, retrying failed jobs with
+ * new settings, and cancelling running and queued jobs. The queue is driven the way `useBatchQueue` drives it, with
+ * queued jobs started after every change to the jobs.
+ * @lastUpdated 2026-10-19
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getJobsToStart, queueMatchingJobs, canRetryJob, cancelQueuedJobs, runQueuedJob } from "../batchQueue";
+import { createAbortError } from "../../image-resizers/taskControl";
+
+/**
+ * @overview Builds a queue of jobs for the given file names, all added but not yet started, and a driver that applies
+ * job changes and starts queued jobs after each change, as the hook's state and effect do.
+ *
+ * @param {string[]} names - The file names of the jobs.
+ * @param {Function} processJob - Resizes one file (see `useBatchQueue`).
+ * @param {number} concurrency - The most jobs processed at once.
+ *
+ * @returns {{jobs: () => object[], update: (change: (jobs: object[]) => object[]) => void, running: Map<number, AbortController>}}
+ * The current jobs, a function that changes them, and the controllers of the running jobs.
+ */
+function createQueue(names, processJob, concurrency) {
+  let jobs = names.map((name, i) => ({ id: i + 1, file: { name }, status: "ready", settings: null, progress: 0, error: null, result: null }));
+  const running = new Map();
+
+  const startJobs = () => {
+    getJobsToStart(jobs, running, concurrency).forEach((job) => runQueuedJob(job, processJob, running, updateJob));
+  };
+  // Like a state update, the change is seen by the effect that starts jobs only after the current code has run
+  const update = (change) => {
+    jobs = change(jobs);
+    queueMicrotask(startJobs);
+  };
+  const updateJob = (id, changes) => update((prev) => prev.map((job) => (job.id === id ? { ...job, ...changes } : job)));
+
+  return { jobs: () => jobs, update, running };
+}
+
+/**
+ * @overview Builds a stand-in for `processJob` whose calls stay pending until they are settled by hand. A pending
+ * call rejects as cancelled when its signal is aborted.
+ *
+ * @returns {{processJob: Function, calls: Array<{name: string, settings: any, resolve: Function, reject: Function}>}}
+ * The function and its calls, in the order they were made.
+ */
+function createPendingProcessor() {
+  const calls = [];
+  const processJob = (file, settings, { signal }) => new Promise((resolve, reject) => {
+    calls.push({ name: file.name, settings, resolve, reject });
+    signal.addEventListener("abort", () => reject(createAbortError()));
+  });
+  return { processJob, calls };
+}
+
+/**
+ * @overview Lets pending promise callbacks and queued job starts run.
+ *
+ * @returns {Promise<void>} A promise that resolves once they have.
+ */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// The resized image each job resolves with
+const resized = () => ({ blob: new Blob(["resized"], { type: "image/png" }) });
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("batch queue", () => {
+  it("runs at most `concurrency` jobs at once, in the order they were added", async () => {
+    const { processJob, calls } = createPendingProcessor();
+    const queue = createQueue(["a.png", "b.png", "c.png", "d.png", "e.png"], processJob, 2);
+
+    queue.update((jobs) => queueMatchingJobs(jobs, (job) => job.status === "ready", { width: 100 }));
+    await settle();
+    expect(calls.map(({ name }) => name)).toEqual(["a.png", "b.png"]);
+    expect(queue.jobs().map(({ status }) => status)).toEqual(["processing", "processing", "queued", "queued", "queued"]);
+
+    // Each job that ends makes room for exactly one more
+    calls[1].resolve(resized());
+    await settle();
+    expect(calls.map(({ name }) => name)).toEqual(["a.png", "b.png", "c.png"]);
+    expect(queue.running.size).toBe(2);
+
+    for (const i of [0, 2, 3, 4]) {
+      calls[i].resolve(resized());
+      await settle();
+      expect(queue.running.size).toBeLessThanOrEqual(2);
+    }
+    expect(calls.map(({ name }) => name)).toEqual(["a.png", "b.png", "c.png", "d.png", "e.png"]);
+    expect(calls.every(({ settings }) => settings.width === 100)).toBe(true);
+    for (const job of queue.jobs()) {
+      expect(job).toMatchObject({ status: "done", progress: 1, error: null });
+      expect(job.result.url).toMatch(/^blob:/);
+    }
+  });
+
+  it("retries failed jobs with the settings they are retried with", async () => {
+    const { processJob, calls } = createPendingProcessor();
+    const queue = createQueue(["a.png", "b.png", "c.png"], processJob, 2);
+
+    queue.update((jobs) => queueMatchingJobs(jobs, (job) => job.status === "ready", { width: 4000 }));
+    await settle();
+    calls[0].reject(new Error("The image is too large."));
+    calls[1].resolve(resized());
+    await settle();
+    calls[2].reject(new Error(""));
+    await settle();
+    expect(queue.jobs().map(({ status, error }) => [status, error])).toEqual([
+      ["failed", "The image is too large."],
+      ["done", null],
+      ["failed", "The image could not be resized."],
+    ]);
+
+    // Only the job asked for, and only if it failed or was cancelled
+    expect(queue.jobs().map((job) => canRetryJob(job, 1))).toEqual([true, false, false]);
+    expect(queue.jobs().map((job) => canRetryJob(job))).toEqual([true, false, true]);
+    const doneUrl = queue.jobs()[1].result.url;
+
+    queue.update((jobs) => queueMatchingJobs(jobs, (job) => canRetryJob(job), { width: 1000 }));
+    await settle();
+    expect(calls.slice(3).map(({ name, settings }) => [name, settings.width])).toEqual([["a.png", 1000], ["c.png", 1000]]);
+    expect(queue.jobs()[0]).toMatchObject({ status: "processing", error: null, progress: 0 });
+    calls[3].resolve(resized());
+    calls[4].resolve(resized());
+    await settle();
+    expect(queue.jobs().map(({ status }) => status)).toEqual(["done", "done", "done"]);
+    expect(queue.jobs()[1].result.url).toBe(doneUrl);
+  });
+
+  it("cancels running jobs through their signal and queued jobs before they start", async () => {
+    const { processJob, calls } = createPendingProcessor();
+    const queue = createQueue(["a.png", "b.png", "c.png"], processJob, 2);
+
+    queue.update((jobs) => queueMatchingJobs(jobs, (job) => job.status === "ready", {}));
+    await settle();
+    queue.update(cancelQueuedJobs);
+    queue.running.forEach((controller) => controller.abort());
+    await settle();
+
+    expect(queue.jobs().map(({ status }) => status)).toEqual(["cancelled", "cancelled", "cancelled"]);
+    expect(calls).toHaveLength(2);
+    expect(queue.running.size).toBe(0);
+    // A cancellation is not a failure
+    expect(console.error).not.toHaveBeenCalled();
+
+    queue.update((jobs) => queueMatchingJobs(jobs, (job) => canRetryJob(job, 3), {}));
+    await settle();
+    expect(calls.map(({ name }) => name)).toEqual(["a.png", "b.png", "c.png"]);
+  });
+});
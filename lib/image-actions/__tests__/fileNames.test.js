@@ -0,0 +1,118 @@
+/**
+ * @file lib/image-actions/__tests__/fileNames.test.js
+ * @author Sameer
+ * @description Tests of filename templates and archive paths: checking templates, and keeping the names and folders
+ * they produce safe to save on Windows, macOS and Linux and inside the archive.
+ * @lastUpdated 2026-10-19
+ */
+import { describe, it, expect } from "vitest";
+import { getTemplateError, formatFileName, getArchivePath, getFileNameValues, DEFAULT_FILENAME_TEMPLATE } from "../fileNames";
+
+/**
+ * @overview Builds the placeholder values of a 640x480 PNG resized on 5 March 2026.
+ *
+ * @param {string} fileName - The name of the uploaded file.
+ *
+ * @returns {ReturnType<typeof getFileNameValues>} The values.
+ */
+function createValues(fileName) {
+  return getFileNameValues(fileName, { width: 640, height: 480, method: "lanczos3", type: "image/png", date: new Date(2026, 2, 5), index: 3 });
+}
+
+/**
+ * @overview Measures a name in UTF-8 bytes, the unit file systems limit names in.
+ *
+ * @param {string} name - The name.
+ *
+ * @returns {number} Its length in bytes.
+ */
+const byteLength = (name) => new TextEncoder().encode(name).length;
+
+describe("getTemplateError", () => {
+  it("accepts the known placeholders", () => {
+    expect(getTemplateError(DEFAULT_FILENAME_TEMPLATE)).toBe("");
+    expect(getTemplateError("{date}_{index}_{method}.{ext}")).toBe("");
+  });
+
+  it("names the first unknown placeholder", () => {
+    expect(getTemplateError("{name}-{size}-{quality}")).toBe("Unknown placeholder {size}.");
+    expect(getTemplateError("{name}{}")).toBe("Unknown placeholder {}.");
+    expect(getTemplateError("{Name}")).toBe("Unknown placeholder {Name}.");
+  });
+
+  it("asks for a template when it is blank", () => {
+    expect(getTemplateError("  ")).toBe("Enter a filename template.");
+  });
+});
+
+describe("formatFileName", () => {
+  it("fills in the placeholders and adds the extension", () => {
+    expect(formatFileName(DEFAULT_FILENAME_TEMPLATE, createValues("beach.jpg"))).toBe("beach-640x480.png");
+    expect(formatFileName("{date}_{index}_{method}.{ext}", createValues("beach.jpg"))).toBe("2026-03-05_3_lanczos3.png");
+  });
+
+  it.each([
+    ["con.jpg", "_con.png"],
+    ["NUL.jpg", "_NUL.png"],
+    ["lpt9.jpg", "_lpt9.png"],
+    ["aux .jpg", "_aux .png"],
+    ["console.jpg", "console.png"],
+    ["com0.jpg", "com0.png"],
+  ])("prefixes Windows device names: %s becomes %s", (fileName, expected) => {
+    expect(formatFileName("{name}", createValues(fileName))).toBe(expected);
+  });
+
+  it("removes leading and trailing dots and spaces", () => {
+    expect(formatFileName("{name}", createValues("..jpg"))).toBe("png");
+    expect(formatFileName("{name}.{ext}", { ...createValues("a.jpg"), name: ".." })).toBe("png");
+    expect(formatFileName("{name}", createValues(" .hidden. .jpg"))).toBe("hidden. .png");
+    expect(formatFileName("...{name}", createValues("beach.jpg"))).toBe("beach.png");
+  });
+
+  it("replaces control characters and those reserved by file systems", () => {
+    expect(formatFileName("{name}", createValues('a<b>c:d"e/f\\g|h?i*j.jpg'))).toBe("a_b_c_d_e_f_g_h_i_j.png");
+    expect(formatFileName("{name}", createValues("tab\there\nnew\u0000\u007f.jpg"))).toBe("tab_here_new__.png");
+  });
+
+  it.each([
+    ["one-byte", "a", 1],
+    ["two-byte", "é", 2],
+    ["three-byte", "漢", 3],
+    ["four-byte", "😀", 4],
+  ])("shortens names over 255 bytes of %s characters, keeping the extension", (_, character, size) => {
+    const name = formatFileName("{name}", createValues(character.repeat(300) + ".jpg"));
+
+    expect(name.endsWith(".png")).toBe(true);
+    expect(byteLength(name)).toBeLessThanOrEqual(255);
+    // As many whole characters as fit, none of them cut in half
+    expect(name).toBe(character.repeat(Math.floor(251 / size)) + ".png");
+  });
+
+  it("does not shorten a name of exactly 255 bytes", () => {
+    const name = formatFileName("{name}", createValues("a".repeat(251) + ".jpg"));
+    expect(byteLength(name)).toBe(255);
+  });
+});
+
+describe("getArchivePath", () => {
+  it("places the file below its folder", () => {
+    expect(getArchivePath("a.png")).toBe("a.png");
+    expect(getArchivePath("a.png", "holiday/day 1")).toBe("holiday/day 1/a.png");
+    expect(getArchivePath("a.png", "holiday\\day 1")).toBe("holiday/day 1/a.png");
+  });
+
+  it.each([
+    ["../../etc", "etc/a.png"],
+    ["photos/../../secret", "photos/secret/a.png"],
+    ["..\\..\\windows", "windows/a.png"],
+    ["/absolute/path/", "absolute/path/a.png"],
+    ["./.hidden/.", "hidden/a.png"],
+    ["..", "a.png"],
+  ])("keeps the folder %s inside the archive", (folder, expected) => {
+    expect(getArchivePath("a.png", folder)).toBe(expected);
+  });
+
+  it("makes each folder a safe name", () => {
+    expect(getArchivePath("a.png", "con/aux.d/c:d")).toBe("_con/_aux.d/c_d/a.png");
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * @file lib/image-actions/batchQueue.js
+ * @author Harsh
+ * @description Custom hook for resizing many images as a queue of jobs, a few at a time.
+ * @lastUpdated 2026-10-19
+ */
+import { useState, useEffect, useRef, useCallback } from "react";
+import { isAbortError } from "../image-resizers/taskControl";
+
+// Most jobs resized at once. Each running job holds its decoded image in memory, and every resize already spreads
+// over the worker pool, so two keep the workers busy between one job's decode and the next one's encode
+export const MAX_CONCURRENT_JOBS = 2;
+
+let nextJobId = 1;
+
+/**
+ * @overview Picks the queued jobs to start, in the order they were added, while fewer than `concurrency` are running.
+ *
+ * @param {object[]} jobs - The jobs of the queue.
+ * @param {Map<number, AbortController>} running - The controllers of the running jobs, by job id.
+ * @param {number} concurrency - The most jobs processed at once.
+ *
+ * @returns {object[]} The jobs to start now.
+ */
+export function getJobsToStart(jobs, running, concurrency) {
+  const toStart = [];
+  for (const job of jobs) {
+    if (running.size + toStart.length >= concurrency) break;
+    if (job.status === "queued" && !running.has(job.id)) toStart.push(job);
+  }
+  return toStart;
+}
+
+/**
+ * @overview Queues the jobs matching a condition with the given settings, clearing their previous outcome and
+ * releasing the URLs of their results.
+ *
+ * @param {object[]} jobs - The jobs of the queue.
+ * @param {(job: object) => boolean} matches - Selects the jobs to queue.
+ * @param {any} settings - The settings to process them with.
+ *
+ * @returns {object[]} The updated jobs.
+ */
+export function queueMatchingJobs(jobs, matches, settings) {
+  return jobs.map((job) => {
+    if (!matches(job)) return job;
+    if (job.result) URL.revokeObjectURL(job.result.url);
+    return { ...job, status: "queued", settings, progress: 0, error: null, result: null };
+  });
+}
+
+/**
+ * @overview Checks whether a job can be retried: it failed or was cancelled, and is the one asked for if any.
+ *
+ * @param {object} job - The job.
+ * @param {number} [id] - The job to retry; any job when omitted.
+ *
+ * @returns {boolean} Whether the job is retried.
+ */
+export function canRetryJob(job, id) {
+  return (id === undefined || job.id === id) && (job.status === "failed" || job.status === "cancelled");
+}
+
+/**
+ * @overview Marks the queued jobs as cancelled; running jobs are cancelled by aborting their controllers instead.
+ *
+ * @param {object[]} jobs - The jobs of the queue.
+ *
+ * @returns {object[]} The updated jobs.
+ */
+export function cancelQueuedJobs(jobs) {
+  return jobs.map((job) => (job.status === "queued" ? { ...job, status: "cancelled" } : job));
+}
+
+/**
+ * @overview Runs one job, recording it among the running jobs until it ends and reporting its progress and outcome.
+ *
+ * @param {object} job - The queued job.
+ * @param {Function} processJob - Resizes the job's file (see `useBatchQueue`).
+ * @param {Map<number, AbortController>} running - The controllers of the running jobs, by job id.
+ * @param {(id: number, changes: object) => void} updateJob - Applies changes to a job.
+ *
+ * @returns {Promise<void>} A promise that resolves once the job has finished, failed or been cancelled.
+ */
+export async function runQueuedJob(job, processJob, running, updateJob) {
+  const controller = new AbortController();
+  running.set(job.id, controller);
+  updateJob(job.id, { status: "processing" });
+  try {
+    const result = await processJob(job.file, job.settings, {
+      onProgress: (fraction) => updateJob(job.id, { progress: fraction }),
+      signal: controller.signal,
+    });
+    updateJob(job.id, { status: "done", progress: 1, result: { ...result, url: URL.createObjectURL(result.blob) } });
+  } catch (error) {
+    if (isAbortError(error)) {
+      updateJob(job.id, { status: "cancelled" });
+    } else {
+      console.error(`Error resizing ${job.file.name}:`, error);
+      updateJob(job.id, { status: "failed", error: error.message || "The image could not be resized." });
+    }
+  } finally {
+    running.delete(job.id);
+  }
+}
+
+/**
+ * @overview A custom React hook that holds a queue of files to resize with the same settings and runs them with
+ * bounded concurrency. Each job moves from 'ready' (added, not yet started) to 'queued', 'processing' and then
+ * 'done', 'failed' or 'cancelled'; failed and cancelled jobs can be retried. A job's settings are taken when it is
+ * queued, so changing the controls afterwards does not affect it.
+ *
+ * @param {(file: File, settings: any, control: {onProgress: (fraction: number) => void, signal: AbortSignal}) => Promise<{blob: Blob}>} processJob -
+ * Resizes one file with the settings it was queued with. It receives progress reporting and a signal that is aborted
+ * when the job is cancelled, and resolves with the resized image and anything else to keep with it.
+ * @param {number} [concurrency=MAX_CONCURRENT_JOBS] - The most jobs processed at once.
+ *
+ * @returns {{jobs: object[], addFiles: Function, startJobs: Function, retryJobs: Function, cancelJobs: Function, clearJobs: Function}}
+ * The jobs, each `{ id, file, status, progress, error, result }` with `result` holding what `processJob` resolved
+ * with plus a Blob `url` of the image, and the functions that manage them.
+ */
+export const useBatchQueue = (processJob, concurrency = MAX_CONCURRENT_JOBS) => {
+  const [jobs, setJobs] = useState([]);
+  const controllersRef = useRef(new Map()); // Job id -> AbortController of each running job
+  const processJobRef = useRef(processJob); // The latest processJob, which closes over the latest component state
+  processJobRef.current = processJob;
+
+  /**
+   * @overview Applies changes to one job.
+   *
+   * @param {number} id - The job's id.
+   * @param {object} changes - The properties to replace.
+   *
+   * @returns {void}
+   */
+  const updateJob = useCallback((id, changes) => {
+    setJobs((prev) => prev.map((job) => (job.id === id ? { ...job, ...changes } : job)));
+  }, []);
+
+  /**
+   * @overview Runs one job with the latest `processJob`.
+   *
+   * @param {object} job - The queued job.
+   *
+   * @returns {Promise<void>} A promise that resolves once the job has finished, failed or been cancelled.
+   */
+  const runJob = useCallback((job) => runQueuedJob(job, processJobRef.current, controllersRef.current, updateJob), [updateJob]);
+
+  // Start queued jobs, in the order they were added, while fewer than `concurrency` are running
+  useEffect(() => {
+    getJobsToStart(jobs, controllersRef.current, concurrency).forEach(runJob);
+  }, [jobs, concurrency, runJob]);
+
+  // Stop the running jobs when the component using the queue goes away
+  useEffect(() => {
+    const running = controllersRef.current;
+    return () => running.forEach((controller) => controller.abort());
+  }, []);
+
+  /**
+   * @overview Adds files to the queue as 'ready' jobs; they are not resized until `startJobs` is called.
+   *
+   * @param {File[]} files - The image files to add.
+   *
+   * @returns {void}
+   */
+  const addFiles = useCallback((files) => {
+    const added = files.map((file) => ({ id: nextJobId++, file, status: "ready", settings: null, progress: 0, error: null, result: null }));
+    setJobs((prev) => [...prev, ...added]);
+  }, []);
+
+  /**
+   * @overview Queues every 'ready' job with the given settings.
+   *
+   * @param {any} settings - The settings passed to `processJob` for each job.
+   *
+   * @returns {void}
+   */
+  const startJobs = useCallback((settings) => {
+    setJobs((prev) => queueMatchingJobs(prev, (job) => job.status === "ready", settings));
+  }, []);
+
+  /**
+   * @overview Queues failed and cancelled jobs again, with the given (possibly corrected) settings.
+   *
+   * @param {any} settings - The settings passed to `processJob` for each job.
+   * @param {number} [id] - The job to retry; all failed and cancelled jobs when omitted.
+   *
+   * @returns {void}
+   */
+  const retryJobs = useCallback((settings, id) => {
+    setJobs((prev) => queueMatchingJobs(prev, (job) => canRetryJob(job, id), settings));
+  }, []);
+
+  /**
+   * @overview Cancels the running jobs and marks the queued ones as cancelled.
+   *
+   * @returns {void}
+   */
+  const cancelJobs = useCallback(() => {
+    setJobs(cancelQueuedJobs);
+    controllersRef.current.forEach((controller) => controller.abort());
+  }, []);
+
+  /**
+   * @overview Removes every job that is not queued or running, releasing the URLs of their results.
+   *
+   * @returns {void}
+   */
+  const clearJobs = useCallback(() => {
+    setJobs((prev) => prev.filter((job) => {
+      const active = job.status === "queued" || job.status === "processing";
+      if (!active && job.result) URL.revokeObjectURL(job.result.url);
+      return active;
+    }));
+  }, []);
+
+  return { jobs, addFiles, startJobs, retryJobs, cancelJobs, clearJobs };
+};
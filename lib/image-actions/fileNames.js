@@ -0,0 +1,137 @@
+/**
+ * @file lib/image-actions/fileNames.js
+ * @author Sameer
+ * @description Filename templates for downloaded images and the paths of images inside a ZIP archive.
+ * @lastUpdated 2026-10-19
+ */
+import { getFileExtension } from "../image-resizers/outputFormat";
+
+// Placeholders a filename template can contain, each filled in per image
+export const FILENAME_PLACEHOLDERS = ["name", "width", "height", "method", "date", "index", "ext"];
+
+// Template used unless another is chosen: the uploaded name followed by the output size
+export const DEFAULT_FILENAME_TEMPLATE = "{name}-{width}x{height}";
+
+// Characters that are not allowed in file names on Windows, macOS or Linux, plus control characters
+const UNSAFE_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+
+// Names Windows reserves for devices, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i;
+
+// Longest file name most file systems accept, in UTF-8 bytes
+const MAX_FILENAME_BYTES = 255;
+
+/**
+ * @overview Returns a file name without its extension.
+ *
+ * @param {string} fileName - The file name, e.g. 'beach.jpg'.
+ *
+ * @returns {string} The name before the last dot, e.g. 'beach'; the whole name if it has no extension.
+ */
+export function getBaseName(fileName) {
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+/**
+ * @overview Collects the values of the filename placeholders for one image.
+ *
+ * @param {string} fileName - The name of the uploaded file.
+ * @param {object} image - The resized image.
+ * @param {number} image.width - Its width in pixels.
+ * @param {number} image.height - Its height in pixels.
+ * @param {string} image.method - The resize method it was made with.
+ * @param {string} image.type - Its MIME type.
+ * @param {Date} [image.date=new Date()] - When it was resized.
+ * @param {number} [image.index=1] - Its position, from 1, among the images downloaded together.
+ *
+ * @returns {{name: string, width: number, height: number, method: string, date: string, index: number, ext: string}}
+ * The values, with the date as YYYY-MM-DD in local time.
+ */
+export function getFileNameValues(fileName, { width, height, method, type, date = new Date(), index = 1 }) {
+  const pad = (value) => String(value).padStart(2, "0");
+  return {
+    name: getBaseName(fileName),
+    width,
+    height,
+    method,
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    index,
+    ext: getFileExtension(type),
+  };
+}
+
+/**
+ * @overview Checks a filename template.
+ *
+ * @param {string} template - The template, e.g. '{name}-{width}x{height}'.
+ *
+ * @returns {string} The validation message, or an empty string if the template is fine.
+ */
+export function getTemplateError(template) {
+  if (template.trim() === "") {
+    return "Enter a filename template.";
+  }
+  const unknown = [...template.matchAll(/\{(\w*)\}/g)].find(([, key]) => !FILENAME_PLACEHOLDERS.includes(key));
+  return unknown ? `Unknown placeholder ${unknown[0]}.` : "";
+}
+
+/**
+ * @overview Fills in a filename template with the values of one image (see `getFileNameValues`). The extension is
+ * added unless the template places it with `{ext}`. The result is made safe to save on Windows, macOS and Linux:
+ * unsafe characters become underscores, leading and trailing dots and spaces are removed, Windows device names
+ * are prefixed with an underscore and overlong names are shortened, keeping the extension.
+ *
+ * @param {string} template - A valid template (see `getTemplateError`).
+ * @param {{name: string, width: number, height: number, method: string, date: string, index: number, ext: string}} values -
+ * The values of the placeholders.
+ *
+ * @returns {string} The file name.
+ */
+export function formatFileName(template, values) {
+  const filled = template.replace(/\{(\w+)\}/g, (placeholder, key) => (key in values ? String(values[key]) : placeholder));
+  const name = template.includes("{ext}") ? filled : `${filled}.${values.ext}`;
+  return sanitizeSegment(name) || `image.${values.ext}`;
+}
+
+/**
+ * @overview Builds the path of an image inside a ZIP archive, optionally below the folder it was uploaded from.
+ * Each folder is made safe like a file name, so a path can never point outside the archive.
+ *
+ * @param {string} fileName - The image's file name.
+ * @param {string} [folder] - The folder the original was uploaded from, relative to the chosen or dropped folder.
+ *
+ * @returns {string} The path, with '/' between folders.
+ */
+export function getArchivePath(fileName, folder = "") {
+  const folders = folder.split(/[/\\]/).map(sanitizeSegment).filter((segment) => segment !== "");
+  return [...folders, fileName].join("/");
+}
+
+/**
+ * @overview Makes one file or folder name safe to save on any common file system. Removing leading and trailing
+ * dots also rules out the '.' and '..' folders and hidden files.
+ *
+ * @param {string} segment - The name.
+ *
+ * @returns {string} The safe name, possibly empty.
+ */
+function sanitizeSegment(segment) {
+  let name = segment.replace(UNSAFE_CHARACTERS, "_").replace(/^[.\s]+|[.\s]+$/g, "");
+  if (RESERVED_NAMES.test(name.split(".")[0].trimEnd())) {
+    name = "_" + name;
+  }
+
+  // Shorten the part before the extension, whole characters at a time, until the name fits
+  const encoder = new TextEncoder();
+  if (encoder.encode(name).length > MAX_FILENAME_BYTES) {
+    const dot = name.lastIndexOf(".");
+    const extension = dot > 0 && name.length - dot <= 16 ? name.slice(dot) : "";
+    const stem = Array.from(name.slice(0, name.length - extension.length));
+    while (stem.length > 0 && encoder.encode(stem.join("") + extension).length > MAX_FILENAME_BYTES) {
+      stem.pop();
+    }
+    name = stem.join("").replace(/[.\s]+$/, "") + extension;
+  }
+  return name;
+}
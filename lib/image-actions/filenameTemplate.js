@@ -0,0 +1,58 @@
+/**
+ * @file lib/image-actions/filenameTemplate.js
+ * @author Harsh
+ * @description Custom hook for editing the filename template of downloads and keeping it in the user's account.
+ * @lastUpdated 2026-10-19
+ */
+import { useState, useEffect, useRef } from "react";
+import { updateUserPreferences } from "../auth";
+import { DEFAULT_FILENAME_TEMPLATE, getTemplateError } from "./fileNames";
+
+// How long typing has to pause before the template is saved
+const SAVE_DELAY_MS = 800;
+
+/**
+ * @overview A custom React hook that holds the filename template used for downloads. It starts from the template
+ * saved in the user's metadata (or `DEFAULT_FILENAME_TEMPLATE`), and saves valid edits back once typing pauses,
+ * so the same template applies on every page and device the user signs in on.
+ *
+ * @param {object | null | undefined} user - The signed-in user, with the saved template in
+ * `user_metadata.filename_template`; edits are not saved without one.
+ *
+ * @returns {{template: string, setTemplate: Function, templateError: string}} The template as typed, its setter and
+ * the validation message (see `getTemplateError`), empty when the template is valid.
+ */
+export const useFilenameTemplate = (user) => {
+  const savedTemplate = user?.user_metadata?.filename_template || DEFAULT_FILENAME_TEMPLATE;
+  const userId = user?.id;
+  const [template, setTemplate] = useState(savedTemplate);
+  const lastSavedRef = useRef(savedTemplate); // Template the account holds, so it is not saved again unchanged
+  const userIdRef = useRef(userId); // User the template was loaded for
+
+  // The user is often only known after the first render, once the session has been read. Only a change of user
+  // reloads the template: a metadata refresh of the same user (such as after a save) must not undo newer typing
+  useEffect(() => {
+    if (userId === userIdRef.current) return;
+    userIdRef.current = userId;
+    lastSavedRef.current = savedTemplate;
+    setTemplate(savedTemplate);
+  }, [userId, savedTemplate]);
+
+  // Save a valid, changed template once typing has paused
+  const templateError = getTemplateError(template);
+  useEffect(() => {
+    if (!userId || templateError || template === lastSavedRef.current) return;
+
+    const timer = setTimeout(async () => {
+      const { error } = await updateUserPreferences({ filename_template: template });
+      if (error) {
+        console.error("Error saving filename template:", error);
+      } else {
+        lastSavedRef.current = template;
+      }
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [template, templateError, userId]);
+
+  return { template, setTemplate, templateError };
+};
@@ -2,40 +2,101 @@
  * @file lib/image-actions/handleFileUpload.js
  * @author Harsh
  * @description Custom hook for handling image file uploads, including drag-and-drop and file input.
- * @lastUpdated 2025-10-14
+ * @lastUpdated 2026-10-19
  */
 import { useCallback } from "react";
 import { ImageProcessor } from "@/components/image-processor";
+import { readFileMetadata } from "../image-resizers/metadata";
+import { isImageInput } from "../image-resizers/inputFormat";
+import { createDisplayableImage } from "../image-resizers/imageCodec";
+
+// Paths of files found in dropped folders, which the File objects of a drop do not carry themselves
+const droppedPaths = new WeakMap();
+
+/**
+ * @overview Returns the folder an uploaded file came from, relative to the folder that was chosen or dropped.
+ *
+ * @param {File} file - The uploaded file.
+ *
+ * @returns {string} The folder path with '/' separators, e.g. 'trip/day 1'; empty for a file chosen on its own.
+ */
+export function getSourceFolder(file) {
+  const path = droppedPaths.get(file) || file.webkitRelativePath || "";
+  return path.split("/").slice(0, -1).join("/");
+}
+
+/**
+ * @overview Collects the files of a dropped file or folder, descending into subfolders and recording each file's
+ * path for `getSourceFolder`.
+ *
+ * @param {FileSystemEntry} entry - The dropped entry.
+ *
+ * @returns {Promise<File[]>} A promise that resolves with the files, in folder order.
+ */
+async function readDroppedEntry(entry) {
+  if (entry.isFile) {
+    const file = await new Promise((resolve, reject) => entry.file(resolve, reject));
+    droppedPaths.set(file, entry.fullPath.replace(/^\//, ""));
+    return [file];
+  }
+
+  // A directory reader returns its children in batches until it returns an empty one
+  const reader = entry.createReader();
+  const children = [];
+  for (;;) {
+    const batch = await new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  const files = await Promise.all(children.map(readDroppedEntry));
+  return files.flat();
+}
 
 /**
  * @overview A custom React hook for managing image file uploads, supporting both file input and drag-and-drop interactions.
- * It handles file validation, extracts image dimensions, sets the original image for preview,
- * and resets the resized image state upon a new upload.
+ * It handles file validation, extracts image dimensions (upright, after the EXIF orientation) and metadata,
+ * sets the original image for preview, and resets the resized image state upon a new upload.
+ * Any image the browser can decode is accepted, plus TIFF, which is previewed through a PNG copy.
+ * When several files, or folders, are chosen or dropped at once, the first image is previewed and all of them are
+ * handed to `addBatchFiles` to be resized together.
  * 
  * @param {Function} setOriginalImage - State setter function for the original image's data URL.
  * @param {Function} setResizedImage - State setter function for the resized image's data URL.
  * @param {Function} setSelectedFile - State setter function for the currently selected File object.
- * @param {Function} setOriginalDimensions - State setter function for the original image's dimensions ({ width, height }).
+ * @param {Function} setOriginalDimensions - State setter function for the original image's dimensions ({ width, height, orientation }).
  * @param {Function} setAspectRatio - State setter function for the original image's aspect ratio.
  * @param {Function} setIsResized - State setter function to indicate if an image has been resized.
+ * @param {Function} [setImageMetadata] - State setter function for the EXIF/XMP metadata found in the image (see `readImageMetadata`).
+ * @param {(files: File[]) => void} [addBatchFiles] - Receives the valid files when more than one is chosen or dropped at once.
  * 
  * @returns {{handleFile: Function, handleFileInput: Function, handleDrag: Function, handleDrop: Function}} An object containing callback functions for file handling.
  */
-export const useImageUploader = (setOriginalImage, setResizedImage, setSelectedFile, setOriginalDimensions, setAspectRatio, setIsResized) => {
+export const useImageUploader = (setOriginalImage, setResizedImage, setSelectedFile, setOriginalDimensions, setAspectRatio, setIsResized, setImageMetadata, addBatchFiles) => {
   /**
    * @overview Processes a single image file after selection or drop.
    * It validates the file type, updates relevant states (selected file, dimensions, aspect ratio, original image data),
-   * and resets the resized image state to ensure a fresh processing cycle.
+   * and resets the resized image state to ensure a fresh processing cycle. A file whose dimensions cannot be read,
+   * such as a format this browser cannot decode, is rejected with a warning.
    * 
    * @param {File} file - The image file to be processed.
    * 
    * @returns {Promise<void>} A promise that resolves after the file is processed and states are updated.
    */
   const handleFile = async (file) => {
-    const validTypes = ["image/jpeg", "image/jpg", "image/png"];
-    // Validate file type to ensure it's a supported image format
-    if (!validTypes.includes(file.type)) {
-      alert("Please select a valid image file (.jpg, .jpeg, .png)");
+    // Validate file type to ensure it's an image
+    if (!isImageInput(file)) {
+      alert("Please select an image file.");
+      return;
+    }
+
+    // Get original image dimensions (upright, with the EXIF orientation they were turned by); failing to means the
+    // browser cannot decode the image, so it could not be resized either
+    let dimensions;
+    try {
+      dimensions = await ImageProcessor.getImageDimensions(file);
+    } catch (error) {
+      console.error("Error getting image dimensions:", error);
+      alert(`${file.name} could not be read. This browser may not support its format.`);
       return;
     }
 
@@ -44,14 +105,12 @@ export const useImageUploader = (setOriginalImage, setResizedImage, setSelectedF
     if (setIsResized) {
       setIsResized(false);
     }
+    setOriginalDimensions(dimensions);
+    setAspectRatio(dimensions.width / dimensions.height)
 
-    try {
-      // Get original image dimensions and calculate aspect ratio
-      const dimensions = await ImageProcessor.getImageDimensions(file);
-      setOriginalDimensions(dimensions);
-      setAspectRatio(dimensions.width / dimensions.height)
-    } catch (error) {
-      console.error("Error getting image dimensions:", error);
+    // Read the metadata that can be carried into the output (author, copyright, capture date, location)
+    if (setImageMetadata) {
+      setImageMetadata(await readFileMetadata(file));
     }
 
     const reader = new FileReader();
@@ -60,20 +119,51 @@ export const useImageUploader = (setOriginalImage, setResizedImage, setSelectedF
       setOriginalImage(e.target?.result);
       setResizedImage(null);
     };
-    reader.readAsDataURL(file); // Read the file as a data URL for display
+    // Read the file, or the PNG copy of a TIFF, as a data URL for display
+    try {
+      reader.readAsDataURL(await createDisplayableImage(file));
+    } catch (error) {
+      console.error("Error preparing image preview:", error);
+    }
+  };
+
+  /**
+   * @overview Processes the files chosen or dropped at once. Files that are not images are skipped with
+   * a warning. The first valid file is previewed through `handleFile`; if there are several valid files, they
+   * are all also passed to `addBatchFiles`.
+   * 
+   * @param {FileList | File[]} fileList - The chosen or dropped files.
+   * 
+   * @returns {void}
+   */
+  const handleFiles = (fileList) => {
+    const files = Array.from(fileList);
+    const validFiles = files.filter(isImageInput);
+    if (validFiles.length < files.length) {
+      const skipped = files.filter((file) => !validFiles.includes(file)).map((file) => file.name);
+      alert(`Skipped files that are not images: ${skipped.join(", ")}`);
+    }
+    if (validFiles.length === 0) return;
+
+    handleFile(validFiles[0]); // Preview the first file, on which the settings are tuned
+    if (validFiles.length > 1 && addBatchFiles) {
+      addBatchFiles(validFiles);
+    }
   };
 
   /**
    * @overview Handles the change event from a file input element.
-   * It extracts the selected file and passes it to the `handleFile` function for processing.
+   * It passes the selected files to `handleFiles` and clears the input, so choosing the same files again
+   * still triggers a change.
    * 
    * @param {React.ChangeEvent<HTMLInputElement>} e - The change event object from the file input.
    * 
    * @returns {void}
    */
   const handleFileInput = (e) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]); // Process the first selected file
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(e.target.files);
+      e.target.value = "";
     }
   };
 
@@ -95,22 +185,28 @@ export const useImageUploader = (setOriginalImage, setResizedImage, setSelectedF
 
   /**
    * @overview Handles the `drop` event when a file is dropped onto the designated area.
-   * It prevents default browser behavior, extracts the dropped file, and passes it to the `handleFile` function.
+   * It prevents default browser behavior and passes the dropped files, including those inside dropped folders,
+   * to `handleFiles`.
    * 
    * @param {React.DragEvent<HTMLDivElement>} e - The drag event object.
    * 
-   * @returns {void}
+   * @returns {Promise<void>} A promise that resolves once the dropped folders have been read.
    */
-  const handleDrop = useCallback((e) => {
+  const handleDrop = useCallback(async (e) => {
     e.preventDefault(); // Prevent default drop behavior
     e.stopPropagation(); // Stop event propagation
     // The `dragActive` state is intentionally not reset here; it's expected to be managed
     // by the component using this hook after the drop operation.
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]); // Process the first dropped file
+    // The entries have to be taken before the first await, after which the drop's data is no longer available
+    const entries = Array.from(e.dataTransfer.items ?? [], (item) => item.webkitGetAsEntry?.()).filter(Boolean);
+    if (entries.length > 0) {
+      const files = await Promise.all(entries.map(readDroppedEntry));
+      handleFiles(files.flat());
+    } else if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(e.dataTransfer.files);
     }
-  }, [handleFile]); // `handleFile` is a dependency as it's called within this function
+  }, [handleFiles]); // `handleFiles` is a dependency as it's called within this function
 
   return { handleFile, handleFileInput, handleDrag, handleDrop };
 };
@@ -1,58 +1,49 @@
 /**
  * @file lib/image-actions/handleImageDownload.js
  * @author Sameer
- * @description Provides functionality for downloading resized images.
- * @lastUpdated 2025-10-14
+ * @description Provides functionality for downloading resized images and other files made in the browser.
+ * @lastUpdated 2026-10-19
  */
+import { formatFileName, getFileNameValues } from "./fileNames";
 
 /**
- * @overview Handles the download of a resized image. It takes the data URL of the resized image
- * and its dimensions to create a downloadable PNG file with a descriptive filename.
+ * @overview Handles the download of a resized image. The image is saved exactly as it was encoded by the resize,
+ * without re-encoding, under a filename made from the template, whose extension matches its format.
  * 
  * @param {string | null} resizedImage - The data URL or Blob URL of the resized image to be downloaded.
- * @param {object} resizeParams - An object containing the parameters used for resizing.
- * @param {number} resizeParams.width - The width of the resized image.
- * @param {number} resizeParams.height - The height of the resized image.
+ * @param {string} template - The filename template (see `formatFileName`).
+ * @param {string} fileName - The name of the uploaded file the image was resized from.
+ * @param {{width: number, height: number, method: string, date?: Date, index?: number}} image - The resized image's
+ * dimensions, the resize method and, optionally, when it was resized and its position in a batch.
  * 
- * @returns {void}
+ * @returns {Promise<void>} A promise that resolves once the download has been started.
  */
-export const handleImageDownload = (resizedImage, resizeParams) => {
+export const handleImageDownload = async (resizedImage, template, fileName, image) => {
   // If no resized image is provided, exit the function.
   if (!resizedImage) return;
 
-  // Create a temporary canvas element to draw the image.
-  const canvas = document.createElement("canvas");
-  const ctx = canvas.getContext("2d");
-  const img = new Image();
-
-  // Set the onload event handler for the image.
-  img.onload = () => {
-    // Set canvas dimensions to match the image.
-    canvas.width = img.width;
-    canvas.height = img.height;
-    // Draw the image onto the canvas.
-    ctx?.drawImage(img, 0, 0);
+  // Fetch the encoded image back from its URL; its type gives the extension
+  const blob = await fetch(resizedImage).then((res) => res.blob());
 
-    // Convert the canvas content to a PNG Blob.
-    canvas.toBlob(
-      (blob) => {
-        if (blob) {
-          // Create a temporary anchor element to trigger the download.
-          const link = document.createElement("a");
-          link.href = URL.createObjectURL(blob); // Set the URL for the blob
-          // Set the download filename using the resized image dimensions.
-          link.download = `resized-${resizeParams.width}x${resizeParams.height}.png`;
-          document.body.appendChild(link); // Append link to body to make it clickable
-          link.click(); // Programmatically click the link to start download
-          document.body.removeChild(link); // Clean up the temporary link
-          URL.revokeObjectURL(link.href); // Release the object URL
-        }
-      },
-      "image/png", // Specify the output format as PNG
-      0.95, // Set the image quality for PNG compression
-    );
-  };
+  // Save it under the filename the template gives for this image and format.
+  saveBlob(blob, formatFileName(template, getFileNameValues(fileName, { ...image, type: blob.type })));
+};
 
-  // Set the image source to trigger loading.
-  img.src = resizedImage;
+/**
+ * @overview Saves a Blob to the user's downloads under the given filename.
+ * 
+ * @param {Blob} blob - The file contents.
+ * @param {string} fileName - The filename to save it under.
+ * 
+ * @returns {void}
+ */
+export const saveBlob = (blob, fileName) => {
+  // Create a temporary anchor element to trigger the download.
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob); // Set the URL for the blob
+  link.download = fileName;
+  document.body.appendChild(link); // Append link to body to make it clickable
+  link.click(); // Programmatically click the link to start download
+  document.body.removeChild(link); // Clean up the temporary link
+  URL.revokeObjectURL(link.href); // Release the object URL
 };
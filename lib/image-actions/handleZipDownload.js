@@ -0,0 +1,80 @@
+/**
+ * @file lib/image-actions/handleZipDownload.js
+ * @author Sameer
+ * @description Provides functionality for downloading many images together as one ZIP archive, built in the browser.
+ * @lastUpdated 2026-10-19
+ */
+import { Zip, ZipPassThrough } from "fflate";
+import { saveBlob } from "./handleImageDownload";
+
+/**
+ * @overview Downloads images as one ZIP archive, built entirely in the browser. Entries are read one at a time and
+ * streamed into the archive in chunks, so only the archive itself is held in memory, never all the images twice.
+ * The images are stored as they are, since they are already compressed. Paths that occur more than once get a
+ * number appended, so no image overwrites another when the archive is extracted.
+ *
+ * @param {Iterable<{path: string, blob: Blob}> | AsyncIterable<{path: string, blob: Blob}>} entries - The images and
+ * their paths inside the archive (see `getArchivePath`); an async iterable can fetch each image as it is needed.
+ * @param {string} archiveName - The file name of the archive, including '.zip'.
+ *
+ * @returns {Promise<number>} A promise that resolves with the number of images once the download has been started.
+ * @throws {Error} If an entry cannot be read or the archive cannot be built.
+ */
+export const handleZipDownload = async (entries, archiveName) => {
+  const parts = [];
+  const zip = new Zip();
+  const finished = new Promise((resolve, reject) => {
+    zip.ondata = (error, chunk, final) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      parts.push(chunk);
+      if (final) resolve();
+    };
+  });
+
+  const usedPaths = new Set();
+  let count = 0;
+  try {
+    for await (const { path, blob } of entries) {
+      const file = new ZipPassThrough(getUniquePath(path, usedPaths));
+      zip.add(file);
+      const reader = blob.stream().getReader();
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        file.push(chunk.value);
+      }
+      file.push(new Uint8Array(0), true);
+      count++;
+    }
+    zip.end();
+  } catch (error) {
+    zip.terminate();
+    throw error;
+  }
+  await finished;
+
+  saveBlob(new Blob(parts, { type: "application/zip" }), archiveName);
+  return count;
+};
+
+/**
+ * @overview Makes a path unique among those already used, ignoring case as most file systems do, by appending
+ * ' (2)', ' (3)' and so on before the extension.
+ *
+ * @param {string} path - The requested path.
+ * @param {Set<string>} usedPaths - The lowercased paths used so far; the returned path is added to it.
+ *
+ * @returns {string} The path, or a numbered variant of it.
+ */
+function getUniquePath(path, usedPaths) {
+  const dot = path.lastIndexOf(".");
+  const stem = dot > path.lastIndexOf("/") + 1 ? path.slice(0, dot) : path;
+  const extension = path.slice(stem.length);
+  let unique = path;
+  for (let n = 2; usedPaths.has(unique.toLowerCase()); n++) {
+    unique = `${stem} (${n})${extension}`;
+  }
+  usedPaths.add(unique.toLowerCase());
+  return unique;
+}
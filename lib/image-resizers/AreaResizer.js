@@ -0,0 +1,40 @@
+/**
+ * @file lib/image-resizers/AreaResizer.js
+ * @author Sameer
+ * @description Provides functions for resizing images by area averaging (box filtering).
+ * @lastUpdated 2026-10-19
+ */
+import { decodeImageFile, encodeImageData } from "./imageCodec";
+import { resample } from "./resample";
+import { applyPostProcessing } from "./postProcess";
+import { orientImage } from "./transform";
+import { throwIfAborted, isAbortError } from "./taskControl";
+
+/**
+ * @overview Resizes a source image file to desired dimensions by area averaging.
+ * Each output pixel is the average of the source pixels it covers, each weighted by the exact fraction of it
+ * that lies under the output pixel. Halving an image therefore averages every 2x2 block exactly, which makes this
+ * the standard choice for thumbnails and mipmap chains. When enlarging, pixels are repeated and only the source
+ * pixels straddling an output pixel's edges are blended, so the result stays crisp.
+ * Decoding and encoding happen here; the pixel work is done by the DOM-free `resample` core.
+ *
+ * @param {File} sourceFile - The input image file (Blob or File object) to be resized.
+ * @param {number} desiredWidth - The target width for the output image in pixels.
+ * @param {number} desiredHeight - The target height for the output image in pixels.
+ * @param {import("./imageCodec").ResizeFileOptions} [options] - Further options passed to `resample`, such as
+ * `linearLight` or `edgeMode`, plus the transform, post-processing and output options (see `ResizeFileOptions`).
+ *
+ * @returns {Promise<Blob>} A Promise that resolves with a Blob containing the resized image in the output format.
+ * @throws {Error} If the canvas rendering context cannot be obtained, or if image loading or blob creation fails.
+ */
+export async function performAreaResize(sourceFile, desiredWidth, desiredHeight, options = {}) {
+  try {
+    const source = orientImage(await decodeImageFile(sourceFile), options.transform);
+    throwIfAborted(options.signal);
+    const resized = resample(source, desiredWidth, desiredHeight, { ...options, method: "area" });
+    return await encodeImageData(applyPostProcessing(resized, options), options.output, options.onEncoded);
+  } catch (error) {
+    if (!isAbortError(error)) console.error("AreaResizer: Error during area-average resizing:", error);
+    throw error;
+  }
+}
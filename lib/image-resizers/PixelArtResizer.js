@@ -0,0 +1,41 @@
+/**
+ * @file lib/image-resizers/PixelArtResizer.js
+ * @author Harsh
+ * @description Provides functions for enlarging pixel art with edge-aware scalers (EPX, hqx and xBR).
+ * @lastUpdated 2026-10-19
+ */
+import { decodeImageFile, encodeImageData } from "./imageCodec";
+import { resample } from "./resample";
+import { applyPostProcessing } from "./postProcess";
+import { orientImage } from "./transform";
+import { throwIfAborted, isAbortError } from "./taskControl";
+
+/**
+ * @overview Enlarges a pixel-art image by an integer factor with an edge-aware scaler. Where nearest neighbor
+ * turns every diagonal into a staircase, these scalers detect edges from the surrounding pixels and smooth them
+ * while keeping flat areas and outlines crisp. The target size must be the source size times a factor the
+ * scaler supports (see `PIXEL_ART_FACTORS`).
+ * Decoding and encoding happen here; the pixel work is done by the DOM-free `resample` core.
+ *
+ * @param {File} sourceFile - The input image file (Blob or File object) to be enlarged.
+ * @param {number} desiredWidth - The target width for the output image in pixels.
+ * @param {number} desiredHeight - The target height for the output image in pixels.
+ * @param {('epx' | 'hqx' | 'xbr')} scaler - The pixel-art scaler to use.
+ * @param {import("./imageCodec").ResizeFileOptions} [options] - Further options passed to `resample`, such as
+ * `edgeMode`, plus the transform, post-processing and output options (see `ResizeFileOptions`).
+ *
+ * @returns {Promise<Blob>} A Promise that resolves with a Blob containing the enlarged image in the output format.
+ * @throws {Error} If the target size is not a supported integer multiple of the source size, or if image loading
+ * or blob creation fails.
+ */
+export async function performPixelArtResize(sourceFile, desiredWidth, desiredHeight, scaler, options = {}) {
+  try {
+    const source = orientImage(await decodeImageFile(sourceFile), options.transform);
+    throwIfAborted(options.signal);
+    const resized = resample(source, desiredWidth, desiredHeight, { ...options, method: scaler });
+    return await encodeImageData(applyPostProcessing(resized, options), options.output, options.onEncoded);
+  } catch (error) {
+    if (!isAbortError(error)) console.error("PixelArtResizer: Error during pixel-art scaling:", error);
+    throw error;
+  }
+}
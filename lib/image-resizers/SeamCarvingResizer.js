@@ -0,0 +1,40 @@
+/**
+ * @file lib/image-resizers/SeamCarvingResizer.js
+ * @author Sameer
+ * @description Provides functions for content-aware resizing of images by seam carving.
+ * @lastUpdated 2026-10-19
+ */
+import { decodeImageFile, encodeImageData } from "./imageCodec";
+import { resample } from "./resample";
+import { applyPostProcessing } from "./postProcess";
+import { orientImage } from "./transform";
+import { throwIfAborted, isAbortError } from "./taskControl";
+
+/**
+ * @overview Resizes a source image file to desired dimensions by seam carving. Rather than scaling the whole image,
+ * it removes (or duplicates) the connected paths of pixels with the least detail, so faces and objects keep their
+ * proportions when the aspect ratio changes. An optional mask protects areas from being carved or marks areas to
+ * carve away first.
+ * Decoding and encoding happen here; the pixel work is done by the DOM-free `resample` core.
+ *
+ * @param {File} sourceFile - The input image file (Blob or File object) to be resized.
+ * @param {number} desiredWidth - The target width for the output image in pixels.
+ * @param {number} desiredHeight - The target height for the output image in pixels.
+ * @param {import("./imageCodec").ResizeFileOptions} [options] - Further options passed to `resample`, plus the
+ * transform, post-processing and output options (see `ResizeFileOptions`).
+ * @param {Int8Array} [options.mask] - One `SEAM_MASK` value per source pixel marking areas to protect or remove.
+ *
+ * @returns {Promise<Blob>} A Promise that resolves with a Blob containing the resized image in the output format.
+ * @throws {Error} If the mask does not match the image size, or if image loading or blob creation fails.
+ */
+export async function performSeamCarvingResize(sourceFile, desiredWidth, desiredHeight, options = {}) {
+  try {
+    const source = orientImage(await decodeImageFile(sourceFile), options.transform);
+    throwIfAborted(options.signal);
+    const resized = resample(source, desiredWidth, desiredHeight, { ...options, method: "seam" });
+    return await encodeImageData(applyPostProcessing(resized, options), options.output, options.onEncoded);
+  } catch (error) {
+    if (!isAbortError(error)) console.error("SeamCarvingResizer: Error during seam carving:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * @file lib/image-resizers/SeparableResampler.js
+ * @author Sameer
+ * @description Shared two-pass (horizontal, then vertical) resampling engine used by every interpolating resizer.
+ * @lastUpdated 2026-10-19
+ */
+import { throwIfAborted, createProgressTracker } from "./taskControl";
+import { SRGB_TO_LINEAR, linearToSrgb } from "./colorSpace";
+
+/**
+ * @overview How samples that fall outside the image are filled in:
+ * - `clamp` repeats the edge pixel,
+ * - `mirror` reflects the image about its edge (the edge pixel is repeated once, then the interior is mirrored),
+ * - `wrap` tiles the image, so the right edge blends with the left one (for seamless textures),
+ * - `transparent` treats everything outside the image as fully transparent.
+ * @constant {string[]}
+ */
+export const EDGE_MODES = ["clamp", "mirror", "wrap", "transparent"];
+
+// Identity lookup table, used in place of SRGB_TO_LINEAR when resampling the encoded values directly
+const BYTE_VALUES = Float32Array.from({ length: 256 }, (_, value) => value);
+
+/**
+ * @overview Precomputes, for every target pixel along one axis, which source pixels contribute to it and with
+ * what weight. The table is built once per axis, so the per-pixel work in the passes is a plain weighted sum.
+ * When downscaling (scale > 1) the kernel is stretched by the scale factor, so every source pixel under the
+ * output pixel's footprint contributes (area-weighted filtering), which prevents aliasing. When upscaling the
+ * kernel keeps its natural width.
+ *
+ * @param {number} sourceSize - The number of source pixels along this axis.
+ * @param {number} targetSize - The number of target pixels along this axis.
+ * @param {(t: number, scale: number) => number} kernel - The kernel function, evaluated at a signed distance in pixels.
+ * It also receives the scale, for kernels such as the box filter that depend on the size of the target pixel.
+ * @param {number} radius - The kernel radius in pixels at a scale of 1 (1 for bilinear, 2 for bicubic, ...).
+ * @param {boolean} alignCorners - Whether the centers of the first and last pixels of both images are aligned
+ * (`x * (sourceSize - 1) / (targetSize - 1)`) rather than the outer edges of the images (`(x + 0.5) * scale - 0.5`).
+ * Aligning the edges keeps every pixel centered on the area it covers; aligning corners keeps the corner pixels exact.
+ * @param {string} [edgeMode='clamp'] - How samples outside the image are filled in (see `EDGE_MODES`).
+ * @param {number} [shift=0] - A shift of every sample position, in source pixels, for sources whose pixels are not
+ * centered on the area they cover (see `upscaleEdgeDirected`).
+ *
+ * @returns {{taps: number, indices: Int32Array, weights: Float32Array}} A table of `taps` entries per target pixel:
+ * source pixel indices (always inside the image) and weights normalized to sum to 1. Unused entries have a weight of 0.
+ * In `transparent` mode the weights of samples outside the image are dropped after normalizing, so they sum to less than 1.
+ * @throws {Error} If the edge mode is unknown.
+ */
+export function buildContributions(sourceSize, targetSize, kernel, radius, alignCorners, edgeMode = "clamp", shift = 0) {
+  if (!EDGE_MODES.includes(edgeMode)) {
+    throw new Error("Unknown edge mode: " + edgeMode);
+  }
+
+  const scale = sourceSize / targetSize;
+  // Distance between neighbouring target pixel centers, measured in source pixels
+  const step = alignCorners ? (sourceSize - 1) / Math.max(1, targetSize - 1) : scale;
+  // Stretch the kernel only when reducing; enlargement interpolates with the kernel's natural width
+  const filterScale = Math.max(1, scale);
+  const support = radius * filterScale;
+  // Only pixels strictly inside the support can carry a non-zero weight
+  const taps = Math.max(1, Math.ceil(support * 2));
+
+  const indices = new Int32Array(targetSize * taps);
+  const weights = new Float32Array(targetSize * taps);
+
+  for (let target = 0; target < targetSize; target++) {
+    const center = shift + (alignCorners
+      ? (targetSize === 1 ? (sourceSize - 1) / 2 : target * step)
+      : (target + 0.5) * step - 0.5);
+    const start = Math.floor(center - support) + 1;
+    const offset = target * taps;
+
+    let totalWeight = 0;
+    for (let i = 0; i < taps; i++) {
+      const weight = kernel((start + i - center) / filterScale, scale);
+      indices[offset + i] = resolveEdgeIndex(start + i, sourceSize, edgeMode);
+      weights[offset + i] = weight;
+      totalWeight += weight;
+    }
+
+    // Normalize so flat regions keep their brightness regardless of how many taps were used
+    if (totalWeight !== 0) {
+      for (let i = 0; i < taps; i++) {
+        weights[offset + i] /= totalWeight;
+      }
+    }
+
+    // Transparent samples add nothing to the premultiplied sums, so their share of the weight simply fades the result
+    if (edgeMode === "transparent") {
+      for (let i = 0; i < taps; i++) {
+        if (start + i < 0 || start + i >= sourceSize) {
+          weights[offset + i] = 0;
+        }
+      }
+    }
+  }
+
+  return { taps, indices, weights };
+}
+
+/**
+ * @overview Determines which source rows a band of target rows reads from, so that callers splitting the work
+ * into row bands (e.g. across Web Workers) only need to hand each band the slice of source rows it uses.
+ *
+ * @param {number} sourceHeight - The height of the source image.
+ * @param {number} targetHeight - The height of the target image.
+ * @param {object} filter - The kernel description (see `resampleSeparable`).
+ * @param {number} rowStart - The first target row of the band.
+ * @param {number} rowEnd - The target row after the last row of the band.
+ *
+ * @returns {{start: number, end: number}} The first source row read and the row after the last one read.
+ */
+export function getContributingRows(sourceHeight, targetHeight, filter, rowStart, rowEnd) {
+  const { kernel, radius, alignCorners = false, edgeMode = "clamp", shift = 0 } = filter;
+  const rows = buildContributions(sourceHeight, targetHeight, kernel, radius, alignCorners, edgeMode, shift);
+  return getIndexRange(rows, rowStart, rowEnd);
+}
+
+/**
+ * @overview Resamples RGBA pixel data with a separable kernel in two passes. The horizontal pass resamples every
+ * needed source row to the target width into a floating-point buffer; the vertical pass then resamples those rows
+ * to the target height. This costs O(2k) multiply-adds per pixel and channel instead of O(k²) for a direct 2D kernel.
+ * A band of target rows can be produced on its own, which lets large images be split across workers.
+ * Color is interpolated premultiplied by alpha and un-premultiplied at the end, so the color of fully or partly
+ * transparent pixels (often stored as black) does not bleed dark fringes into the edges of opaque regions.
+ *
+ * @param {Uint8ClampedArray} sourceData - The RGBA pixel data of the source image (or of a slice of its rows).
+ * @param {number} sourceWidth - The width of the source image.
+ * @param {number} sourceHeight - The full height of the source image.
+ * @param {Uint8ClampedArray} targetData - The RGBA pixel data to write the band of resampled rows into.
+ * @param {number} targetWidth - The width of the target image.
+ * @param {number} targetHeight - The full height of the target image.
+ * @param {object} filter - The kernel description.
+ * @param {(t: number, scale: number) => number} filter.kernel - The kernel function (see `buildContributions`).
+ * @param {number} filter.radius - The kernel radius in pixels at a scale of 1.
+ * @param {boolean} [filter.alignCorners=false] - Whether to align the corner pixels rather than the image edges
+ * (see `buildContributions`).
+ * @param {string} [filter.edgeMode='clamp'] - How samples outside the image are filled in (see `EDGE_MODES`).
+ * @param {boolean} [filter.linearLight=false] - Whether to convert color channels to linear light before
+ * interpolating and back to sRGB afterwards, so averaging does not darken fine detail or shift colors.
+ * @param {number} [filter.shift=0] - A shift of every sample position, in source pixels, on both axes (see
+ * `buildContributions`).
+ * @param {object} [band] - The part of the target image to produce.
+ * @param {number} [band.rowStart=0] - The first target row to produce; it is written to the start of `targetData`.
+ * @param {number} [band.rowEnd=targetHeight] - The target row after the last row to produce.
+ * @param {number} [band.sourceRowOffset=0] - The source row stored at the start of `sourceData`, when only a slice is passed.
+ * @param {object} [control] - Progress reporting and cancellation.
+ * @param {(fraction: number) => void} [control.onProgress] - Receives the completed fraction of both passes (0 to 1).
+ * @param {AbortSignal} [control.signal] - Aborting it stops the resize at the next row.
+ *
+ * @returns {void}
+ * @throws {DOMException} An `AbortError` if `control.signal` is aborted.
+ */
+export function resampleSeparable(sourceData, sourceWidth, sourceHeight, targetData, targetWidth, targetHeight, filter, band = {}, control = {}) {
+  const { kernel, radius, alignCorners = false, edgeMode = "clamp", linearLight = false, shift = 0 } = filter;
+  const { rowStart = 0, rowEnd = targetHeight, sourceRowOffset = 0 } = band;
+  const { onProgress, signal } = control;
+  const columns = buildContributions(sourceWidth, targetWidth, kernel, radius, alignCorners, edgeMode, shift);
+  const rows = buildContributions(sourceHeight, targetHeight, kernel, radius, alignCorners, edgeMode, shift);
+
+  // Only the source rows this band reads need the horizontal pass
+  const needed = getIndexRange(rows, rowStart, rowEnd);
+  // Both passes cost roughly one target-width row each, so rows of either pass count as one unit of work
+  const advanceProgress = createProgressTracker((needed.end - needed.start) + (rowEnd - rowStart), onProgress);
+
+  // Color channels are read through a lookup table: either to linear light or unchanged. Alpha is always linear.
+  const toWorkingSpace = linearLight ? SRGB_TO_LINEAR : BYTE_VALUES;
+
+  // Horizontal pass: source rows -> target width. Kept in floating point so the second pass does not
+  // compound rounding errors and negative lobes are only clamped once at the end. Color is stored premultiplied.
+  const intermediate = new Float32Array(targetWidth * (needed.end - needed.start) * 4);
+  for (let y = needed.start; y < needed.end; y++) {
+    throwIfAborted(signal);
+    const sourceRow = (y - sourceRowOffset) * sourceWidth;
+    const intermediateRow = (y - needed.start) * targetWidth;
+
+    for (let x = 0; x < targetWidth; x++) {
+      const offset = x * columns.taps;
+      let red = 0;
+      let green = 0;
+      let blue = 0;
+      let alpha = 0;
+
+      for (let i = 0; i < columns.taps; i++) {
+        const weight = columns.weights[offset + i];
+        if (weight === 0) continue;
+        const pixelIndex = (sourceRow + columns.indices[offset + i]) * 4;
+        const pixelAlpha = sourceData[pixelIndex + 3];
+        // Premultiply: a pixel's color counts only as much as it is opaque
+        const colorWeight = weight * (pixelAlpha / 255);
+        red += toWorkingSpace[sourceData[pixelIndex]] * colorWeight;
+        green += toWorkingSpace[sourceData[pixelIndex + 1]] * colorWeight;
+        blue += toWorkingSpace[sourceData[pixelIndex + 2]] * colorWeight;
+        alpha += pixelAlpha * weight;
+      }
+
+      const intermediateIndex = (intermediateRow + x) * 4;
+      intermediate[intermediateIndex] = red;
+      intermediate[intermediateIndex + 1] = green;
+      intermediate[intermediateIndex + 2] = blue;
+      intermediate[intermediateIndex + 3] = alpha;
+    }
+    advanceProgress();
+  }
+
+  // Vertical pass: intermediate rows -> target height, written straight into the clamped output array
+  for (let y = rowStart; y < rowEnd; y++) {
+    throwIfAborted(signal);
+    const offset = y * rows.taps;
+    const targetRow = (y - rowStart) * targetWidth;
+
+    for (let x = 0; x < targetWidth; x++) {
+      let red = 0;
+      let green = 0;
+      let blue = 0;
+      let alpha = 0;
+
+      for (let j = 0; j < rows.taps; j++) {
+        const weight = rows.weights[offset + j];
+        if (weight === 0) continue;
+        const intermediateIndex = ((rows.indices[offset + j] - needed.start) * targetWidth + x) * 4;
+        red += intermediate[intermediateIndex] * weight;
+        green += intermediate[intermediateIndex + 1] * weight;
+        blue += intermediate[intermediateIndex + 2] * weight;
+        alpha += intermediate[intermediateIndex + 3] * weight;
+      }
+
+      // Un-premultiply; a fully transparent result has no meaningful color, so it is stored as transparent black
+      const unpremultiply = alpha > 0 ? 255 / alpha : 0;
+      red *= unpremultiply;
+      green *= unpremultiply;
+      blue *= unpremultiply;
+
+      // Uint8ClampedArray rounds and clamps to [0, 255], absorbing overshoot from negative lobes
+      const targetIndex = (targetRow + x) * 4;
+      if (linearLight) {
+        targetData[targetIndex] = linearToSrgb(red);
+        targetData[targetIndex + 1] = linearToSrgb(green);
+        targetData[targetIndex + 2] = linearToSrgb(blue);
+      } else {
+        targetData[targetIndex] = red;
+        targetData[targetIndex + 1] = green;
+        targetData[targetIndex + 2] = blue;
+      }
+      targetData[targetIndex + 3] = alpha;
+    }
+    advanceProgress();
+  }
+}
+
+/**
+ * @overview Maps a sample position along one axis onto the source pixel that supplies it, following the edge mode.
+ *
+ * @param {number} index - The sample position, possibly outside the image.
+ * @param {number} size - The number of source pixels along this axis.
+ * @param {string} edgeMode - How samples outside the image are filled in (see `EDGE_MODES`).
+ *
+ * @returns {number} A source pixel index inside the image. In `transparent` mode positions outside the image are
+ * clamped too; the caller is responsible for treating them as transparent.
+ */
+export function resolveEdgeIndex(index, size, edgeMode) {
+  if (index >= 0 && index < size) return index;
+
+  switch (edgeMode) {
+    case "mirror": {
+      // The reflected image repeats every 2 * size pixels: size pixels forwards, then size pixels backwards
+      const period = 2 * size;
+      const position = ((index % period) + period) % period;
+      return position < size ? position : period - 1 - position;
+    }
+    case "wrap":
+      return ((index % size) + size) % size;
+    default:
+      return Math.max(0, Math.min(size - 1, index));
+  }
+}
+
+/**
+ * @overview Finds the smallest and largest source index referenced by a range of target entries of a contribution table.
+ *
+ * @param {{taps: number, indices: Int32Array}} contributions - A table built by `buildContributions`.
+ * @param {number} targetStart - The first target entry.
+ * @param {number} targetEnd - The target entry after the last one.
+ *
+ * @returns {{start: number, end: number}} The first source index referenced and the index after the last one.
+ */
+function getIndexRange(contributions, targetStart, targetEnd) {
+  let start = Infinity;
+  let end = -Infinity;
+  for (let i = targetStart * contributions.taps; i < targetEnd * contributions.taps; i++) {
+    start = Math.min(start, contributions.indices[i]);
+    end = Math.max(end, contributions.indices[i] + 1);
+  }
+  return { start, end };
+}
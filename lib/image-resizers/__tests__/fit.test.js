@@ -0,0 +1,109 @@
+/**
+ * @file lib/image-resizers/__tests__/fit.test.js
+ * @author Anshi
+ * @description Tests of the fit modes and gravity: the sizes and placements `computeFitLayout` works out, and
+ * padding and cropping with `placeImage`.
+ * @lastUpdated 2026-10-19
+ */
+import { describe, it, expect } from "vitest";
+import { computeFitLayout, placeImage } from "../fit";
+
+/**
+ * @overview Builds an image whose pixels are numbered from 1, row by row, in the red channel.
+ *
+ * @param {number} width - The width in pixels.
+ * @param {number} height - The height in pixels.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The image.
+ */
+function createNumberedImage(width, height) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set([i + 1, 0, 0, 255], i * 4);
+  return { data, width, height };
+}
+
+describe("computeFitLayout", () => {
+  it("stretches to the box with 'fill'", () => {
+    expect(computeFitLayout(200, 100, 120, 90)).toEqual({ width: 120, height: 90, placement: null });
+  });
+
+  it("scales within the box with 'inside' and over it with 'outside'", () => {
+    expect(computeFitLayout(200, 100, 100, 100, "inside")).toEqual({ width: 100, height: 50, placement: null });
+    expect(computeFitLayout(200, 100, 100, 100, "outside")).toEqual({ width: 200, height: 100, placement: null });
+  });
+
+  it("keeps the limiting side exact and rounds the other without crossing the box", () => {
+    expect(computeFitLayout(3, 2, 100, 100, "inside")).toMatchObject({ width: 100, height: 67 });
+    expect(computeFitLayout(2, 3, 100, 100, "outside")).toMatchObject({ width: 100, height: 150 });
+    expect(computeFitLayout(1000, 1, 10, 10, "contain")).toMatchObject({ width: 10, height: 1 });
+  });
+
+  it.each([
+    ["north", 0],
+    ["center", 25],
+    ["south", 50],
+  ])("pads to the box with 'contain' toward the %s", (gravity, top) => {
+    expect(computeFitLayout(200, 100, 100, 100, "contain", gravity)).toEqual({
+      width: 100,
+      height: 50,
+      placement: { width: 100, height: 100, left: 0, top },
+    });
+  });
+
+  it.each([
+    ["west", 0],
+    ["center", -50],
+    ["east", -100],
+  ])("crops to the box with 'cover' toward the %s", (gravity, left) => {
+    expect(computeFitLayout(200, 100, 100, 100, "cover", gravity)).toEqual({
+      width: 200,
+      height: 100,
+      placement: { width: 100, height: 100, left, top: 0 },
+    });
+  });
+
+  it("centers a focal point in the box as far as the image allows", () => {
+    // At 200x100 the point at 40% across lies 80 pixels in, so shifting by 30 puts it on the box center
+    expect(computeFitLayout(200, 100, 100, 100, "cover", { x: 0.4, y: 0.5 }).placement).toMatchObject({ left: -30, top: 0 });
+    // Points near the edges stop where the image would no longer cover the box
+    expect(computeFitLayout(200, 100, 100, 100, "cover", { x: 0.1, y: 0.5 }).placement).toMatchObject({ left: 0 });
+    expect(computeFitLayout(200, 100, 100, 100, "cover", { x: 0.95, y: 0.5 }).placement).toMatchObject({ left: -100 });
+    // When padding, the image moves as far as the box allows
+    expect(computeFitLayout(200, 100, 100, 100, "contain", { x: 0.5, y: 0 }).placement).toMatchObject({ top: 50 });
+  });
+
+  it("rejects an unknown fit mode or gravity and a focal point outside the image", () => {
+    expect(() => computeFitLayout(200, 100, 100, 100, "stretch")).toThrow("Unknown fit mode: stretch");
+    expect(() => computeFitLayout(200, 100, 100, 100, "cover", "middle")).toThrow("Unknown gravity: middle");
+    expect(() => computeFitLayout(200, 100, 100, 100, "cover", { x: 1.5, y: 0.5 })).toThrow("Invalid focal point: 1.5, 0.5");
+  });
+});
+
+describe("placeImage", () => {
+  const image = createNumberedImage(3, 2);
+  const red = ({ data }) => Array.from({ length: data.length / 4 }, (_, i) => data[i * 4]);
+
+  it("pads the image with the background color", () => {
+    const result = placeImage(image, { width: 5, height: 4, left: 1, top: 1 }, [9, 0, 0, 128]);
+
+    expect(result.width).toBe(5);
+    expect(result.height).toBe(4);
+    expect(red(result)).toEqual([
+      9, 9, 9, 9, 9,
+      9, 1, 2, 3, 9,
+      9, 4, 5, 6, 9,
+      9, 9, 9, 9, 9,
+    ]);
+    expect(Array.from(result.data.subarray(0, 4))).toEqual([9, 0, 0, 128]);
+    expect(Array.from(result.data.subarray(6 * 4, 7 * 4))).toEqual([1, 0, 0, 255]);
+  });
+
+  it("crops the image at a negative position", () => {
+    expect(red(placeImage(image, { width: 2, height: 1, left: -1, top: -1 }))).toEqual([5, 6]);
+  });
+
+  it("leaves only the transparent background when the image falls outside", () => {
+    const result = placeImage(image, { width: 2, height: 2, left: 4, top: 0 });
+    expect(Array.from(result.data)).toEqual(new Array(2 * 2 * 4).fill(0));
+  });
+});
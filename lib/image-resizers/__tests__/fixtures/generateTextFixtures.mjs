@@ -0,0 +1,94 @@
+/**
+ * @file lib/image-resizers/__tests__/fixtures/generateTextFixtures.mjs
+ * @author Sameer
+ * @description Renders the text fixtures of the edge-directed upscaling benchmark: the same line-art text at 1x,
+ * 2x and 4x, so upscales of the 1x image can be compared with a true rendering at their size.
+ * Run with `node lib/image-resizers/__tests__/fixtures/generateTextFixtures.mjs`.
+ * @lastUpdated 2026-10-19
+ */
+import { writeFileSync } from "node:fs";
+import { PNG } from "pngjs";
+
+// Strokes of each glyph as line segments [x1, y1, x2, y2] in a 4x6 box, chosen for their diagonal and curved-ish edges
+const GLYPHS = {
+  A: [[0, 6, 2, 0], [2, 0, 4, 6], [1, 4, 3, 4]],
+  V: [[0, 0, 2, 6], [2, 6, 4, 0]],
+  W: [[0, 0, 1, 6], [1, 6, 2, 2], [2, 2, 3, 6], [3, 6, 4, 0]],
+  X: [[0, 0, 4, 6], [4, 0, 0, 6]],
+  Z: [[0, 0, 4, 0], [4, 0, 0, 6], [0, 6, 4, 6]],
+  K: [[0, 0, 0, 6], [4, 0, 0, 4], [1, 3, 4, 6]],
+  N: [[0, 6, 0, 0], [0, 0, 4, 6], [4, 6, 4, 0]],
+  M: [[0, 6, 0, 0], [0, 0, 2, 3], [2, 3, 4, 0], [4, 0, 4, 6]],
+  Y: [[0, 0, 2, 3], [4, 0, 2, 3], [2, 3, 2, 6]],
+  "/": [[0, 6, 4, 0]],
+};
+const LINES = ["AVWXZ", "KNMY/"];
+
+// Layout of the 1x rendering, in pixels: glyph box, stroke width, margins and spacing
+const GLYPH_WIDTH = 8;
+const GLYPH_HEIGHT = 14.4;
+const STROKE = 1.6;
+const MARGIN = 3;
+const ADVANCE = 11;
+const LINE_HEIGHT = 17;
+// Samples per pixel along each axis, for the coverage-based antialiasing
+const SUPERSAMPLING = 8;
+
+/**
+ * @overview Measures the distance from a point to a line segment.
+ *
+ * @param {number} x - The point's x coordinate.
+ * @param {number} y - The point's y coordinate.
+ * @param {number[]} segment - The segment as [x1, y1, x2, y2].
+ *
+ * @returns {number} The distance.
+ */
+function distanceToSegment(x, y, [x1, y1, x2, y2]) {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const t = Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / (dx * dx + dy * dy)));
+  return Math.hypot(x - x1 - t * dx, y - y1 - t * dy);
+}
+
+/**
+ * @overview Renders the text at a multiple of the 1x size, black on white, antialiased by pixel coverage.
+ *
+ * @param {number} scale - The multiple of the 1x size.
+ *
+ * @returns {PNG} The rendering.
+ */
+function renderText(scale) {
+  const segments = [];
+  LINES.forEach((line, row) => {
+    [...line].forEach((character, column) => {
+      const left = MARGIN + column * ADVANCE;
+      const top = MARGIN + row * LINE_HEIGHT;
+      for (const [x1, y1, x2, y2] of GLYPHS[character]) {
+        segments.push([left + (x1 * GLYPH_WIDTH) / 4, top + (y1 * GLYPH_HEIGHT) / 6, left + (x2 * GLYPH_WIDTH) / 4, top + (y2 * GLYPH_HEIGHT) / 6]);
+      }
+    });
+  });
+
+  const width = (2 * MARGIN + Math.max(...LINES.map((line) => line.length)) * ADVANCE) * scale;
+  const height = (2 * MARGIN + LINES.length * LINE_HEIGHT) * scale;
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let covered = 0;
+      for (let sy = 0; sy < SUPERSAMPLING; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLING; sx++) {
+          const px = (x + (sx + 0.5) / SUPERSAMPLING) / scale;
+          const py = (y + (sy + 0.5) / SUPERSAMPLING) / scale;
+          if (segments.some((segment) => distanceToSegment(px, py, segment) <= STROKE / 2)) covered++;
+        }
+      }
+      const value = Math.round(255 * (1 - covered / SUPERSAMPLING ** 2));
+      png.data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return png;
+}
+
+for (const scale of [1, 2, 4]) {
+  writeFileSync(new URL(`./text-${scale}x.png`, import.meta.url), PNG.sync.write(renderText(scale)));
+}
@@ -0,0 +1,20 @@
+/**
+ * @file lib/image-resizers/__tests__/loadFixture.js
+ * @author Sameer
+ * @description Loads the PNG fixtures of the resizer tests as raw RGBA buffers.
+ * @lastUpdated 2026-10-19
+ */
+import { readFileSync } from "node:fs";
+import { PNG } from "pngjs";
+
+/**
+ * @overview Decodes a PNG from the fixtures folder, as the browser would hand it to the resizers: RGBA, not premultiplied.
+ *
+ * @param {string} name - The file name inside `__tests__/fixtures`.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The pixel data and its dimensions.
+ */
+export function loadFixture(name) {
+  const { data, width, height } = PNG.sync.read(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+  return { data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), width, height };
+}
@@ -0,0 +1,219 @@
+/**
+ * @file lib/image-resizers/__tests__/metadata.test.js
+ * @author Anshi
+ * @description Tests of the metadata carried into the output: reading EXIF in either byte order, writing it into
+ * JPEG, WebP and PNG files and reading it back, and the limits on what is written.
+ * @lastUpdated 2026-10-19
+ */
+import { describe, it, expect } from "vitest";
+import { PNG } from "pngjs";
+import { readImageMetadata, pickMetadata, embedMetadata, getMetadataSize, DEFAULT_KEPT_METADATA, METADATA_FIELDS } from "../metadata";
+import { encodePng } from "../pngEncoder";
+
+// Tags of the GPS entries in the source EXIF
+const GPS_LATITUDE_REF = 0x0001;
+const GPS_LATITUDE = 0x0002;
+
+// The latitude in the source EXIF, 52° 30' 12.34", as numerator and denominator pairs
+const LATITUDE = [[52, 1], [30, 1], [1234, 100]];
+
+/**
+ * @overview Builds little-endian EXIF (TIFF) data, as Intel-based cameras write it: the orientation and author in the
+ * first IFD, and a GPS IFD with the latitude as three rationals, which are stored outside their entry.
+ *
+ * @returns {Uint8Array} The EXIF data.
+ */
+function createLittleEndianExif() {
+  const bytes = new Uint8Array(114);
+  const view = new DataView(bytes.buffer);
+  const entry = (position, tag, type, count, value) => {
+    view.setUint16(position, tag, true);
+    view.setUint16(position + 2, type, true);
+    view.setUint32(position + 4, count, true);
+    view.setUint32(position + 8, value, true);
+  };
+
+  bytes.set([0x49, 0x49, 42, 0, 8, 0, 0, 0]); // "II", 42, first IFD at offset 8
+  view.setUint16(8, 3, true);
+  entry(10, 0x0112, 3, 1, 6); // Orientation: turned a quarter clockwise
+  entry(22, 0x013b, 2, 9, 50); // Artist, at offset 50
+  entry(34, 0x8825, 4, 1, 60); // GPS IFD, at offset 60
+  bytes.set(new TextEncoder().encode("Jane Doe\0"), 50);
+
+  view.setUint16(60, 2, true);
+  entry(62, GPS_LATITUDE_REF, 2, 2, 0);
+  bytes.set(new TextEncoder().encode("N\0"), 70);
+  entry(74, GPS_LATITUDE, 5, 3, 90); // Three rationals, at offset 90
+  LATITUDE.forEach(([numerator, denominator], i) => {
+    view.setUint32(90 + i * 8, numerator, true);
+    view.setUint32(94 + i * 8, denominator, true);
+  });
+  return bytes;
+}
+
+/**
+ * @overview Builds the skeleton of a JPEG file: a JFIF segment, optionally EXIF data in an APP1 segment, and an empty scan.
+ *
+ * @param {Uint8Array} [exif] - The EXIF data, if any.
+ *
+ * @returns {Uint8Array} The file.
+ */
+function createJpeg(exif) {
+  const jfif = [0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0];
+  const app1 = exif ? [0xff, 0xe1, (exif.length + 8) >> 8, (exif.length + 8) & 0xff, ...new TextEncoder().encode("Exif\0\0"), ...exif] : [];
+  return Uint8Array.from([0xff, 0xd8, ...jfif, ...app1, 0xff, 0xda, 0, 2, 0xff, 0xd9]);
+}
+
+/**
+ * @overview Builds a simple lossless WebP file of the given size, with just the header of its bitstream.
+ *
+ * @param {number} width - The width in pixels.
+ * @param {number} height - The height in pixels.
+ *
+ * @returns {Uint8Array} The file.
+ */
+function createLosslessWebp(width, height) {
+  const bytes = new Uint8Array(12 + 8 + 6);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode("RIFFxxxxWEBPVP8L"));
+  view.setUint32(4, bytes.length - 8, true);
+  view.setUint32(16, 5, true);
+  bytes[20] = 0x2f; // Signature
+  view.setUint32(21, (width - 1) | ((height - 1) << 14), true);
+  return bytes;
+}
+
+/**
+ * @overview Lists the chunks of a RIFF or PNG file.
+ *
+ * @param {Uint8Array} bytes - The file.
+ * @param {number} start - The offset of the first chunk.
+ * @param {boolean} isPng - Whether the chunks are PNG chunks (big-endian length before the type, CRC after the
+ * data) rather than RIFF chunks (type before the little-endian length, padded to an even size).
+ *
+ * @returns {Array<{type: string, data: Uint8Array}>} The chunks in file order.
+ */
+function readChunks(bytes, start, isPng) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks = [];
+  for (let offset = start; offset < bytes.length;) {
+    const length = isPng ? view.getUint32(offset) : view.getUint32(offset + 4, true);
+    const type = String.fromCharCode(...bytes.subarray(isPng ? offset + 4 : offset, isPng ? offset + 8 : offset + 4));
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += isPng ? 12 + length : 8 + length + (length % 2);
+  }
+  return chunks;
+}
+
+/**
+ * @overview Reads the rationals of a GPS entry, whose bytes are kept in big-endian order.
+ *
+ * @param {{bytes: Uint8Array}} entry - The GPS entry.
+ *
+ * @returns {number[][]} The numerator and denominator pairs.
+ */
+function readRationals({ bytes }) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Array.from({ length: bytes.length / 8 }, (_, i) => [view.getUint32(i * 8), view.getUint32(i * 8 + 4)]);
+}
+
+describe("readImageMetadata", () => {
+  it("reads little-endian EXIF with GPS rationals", () => {
+    const metadata = readImageMetadata(createJpeg(createLittleEndianExif()));
+
+    expect(metadata).toMatchObject({ orientation: 6, littleEndian: true, author: "Jane Doe", copyright: null });
+    const latitude = metadata.gps.find((entry) => entry.tag === GPS_LATITUDE);
+    expect(latitude).toMatchObject({ type: 5, count: 3 });
+    expect(readRationals(latitude)).toEqual(LATITUDE);
+    expect(new TextDecoder().decode(metadata.gps.find((entry) => entry.tag === GPS_LATITUDE_REF).bytes)).toBe("N\0");
+  });
+
+  it("yields an upright image without fields for other formats", () => {
+    expect(readImageMetadata(createLosslessWebp(3, 2))).toMatchObject({ orientation: 1, author: null, gps: null });
+  });
+});
+
+describe("embedMetadata", () => {
+  const source = readImageMetadata(createJpeg(createLittleEndianExif()));
+  const kept = pickMetadata({ ...source, copyright: "© 2026 Jane Doe", dateTaken: "2026:05:01 12:34:56" }, METADATA_FIELDS);
+
+  /**
+   * @overview Checks that EXIF data read back from an output holds every kept field and no orientation.
+   *
+   * @param {ReturnType<typeof readImageMetadata>} metadata - The metadata read back.
+   *
+   * @returns {void}
+   */
+  const expectKeptFields = (metadata) => {
+    expect(metadata).toMatchObject({
+      orientation: 1,
+      orientationOffset: -1,
+      author: "Jane Doe",
+      copyright: "© 2026 Jane Doe",
+      dateTaken: "2026:05:01 12:34:56",
+    });
+    expect(readRationals(metadata.gps.find((entry) => entry.tag === GPS_LATITUDE))).toEqual(LATITUDE);
+  };
+
+  it("round-trips the kept fields through a JPEG APP1 segment", async () => {
+    const output = await embedMetadata(new Blob([createJpeg()], { type: "image/jpeg" }), kept);
+    const bytes = new Uint8Array(await output.arrayBuffer());
+
+    // The segment follows the JFIF segment
+    expect(Array.from(bytes.subarray(20, 22))).toEqual([0xff, 0xe1]);
+    expectKeptFields(readImageMetadata(bytes));
+  });
+
+  it("round-trips the kept fields through a WebP 'EXIF' chunk, adding the 'VP8X' header", async () => {
+    const output = await embedMetadata(new Blob([createLosslessWebp(300, 200)], { type: "image/webp" }), kept);
+    const bytes = new Uint8Array(await output.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const chunks = readChunks(bytes, 12, false);
+
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(chunks.map(({ type }) => type)).toEqual(["VP8X", "VP8L", "EXIF"]);
+    const [vp8x] = chunks;
+    expect(vp8x.data[0] & 0x08).toBe(0x08); // The EXIF flag
+    expect(vp8x.data[4] | (vp8x.data[5] << 8) | (vp8x.data[6] << 16)).toBe(300 - 1);
+    expect(vp8x.data[7] | (vp8x.data[8] << 8) | (vp8x.data[9] << 16)).toBe(200 - 1);
+    // The chunk holds bare EXIF data, laid out like a TIFF file
+    expectKeptFields(readImageMetadata(chunks[2].data));
+  });
+
+  it("round-trips the kept fields through a PNG 'eXIf' chunk", async () => {
+    const image = { data: new Uint8ClampedArray(2 * 2 * 4).fill(200), width: 2, height: 2 };
+    const output = await embedMetadata(new Blob([encodePng(image, 6)], { type: "image/png" }), kept);
+    const bytes = new Uint8Array(await output.arrayBuffer());
+    const chunks = readChunks(bytes, 8, true);
+
+    expect(chunks.map(({ type }) => type)).toEqual(["IHDR", "eXIf", "IDAT", "IEND"]);
+    expectKeptFields(readImageMetadata(chunks[1].data));
+    // The file stays valid, chunk checksums included
+    expect(PNG.sync.read(Buffer.from(bytes)).width).toBe(2);
+  });
+
+  it("strips the location unless it is asked for", async () => {
+    const metadata = pickMetadata(source, DEFAULT_KEPT_METADATA);
+    expect(metadata).toEqual({ author: "Jane Doe" });
+
+    const output = await embedMetadata(new Blob([createJpeg()], { type: "image/jpeg" }), metadata);
+    expect(readImageMetadata(new Uint8Array(await output.arrayBuffer())).gps).toBeNull();
+  });
+
+  it("shortens metadata too large for a JPEG APP1 segment", async () => {
+    const metadata = { author: "€".repeat(30000), copyright: "Jane Doe" };
+    const output = await embedMetadata(new Blob([createJpeg()], { type: "image/jpeg" }), metadata);
+    const bytes = new Uint8Array(await output.arrayBuffer());
+    const segmentLength = (bytes[22] << 8) | bytes[23];
+
+    // The 16-bit length covers itself and the "Exif\0\0" header as well
+    expect(segmentLength).toBeLessThanOrEqual(0xffff);
+    expect(bytes.length).toBe(createJpeg().length + 2 + segmentLength);
+    const { author, copyright } = readImageMetadata(bytes);
+    expect(copyright).toBe("Jane Doe");
+    expect(author.length).toBeGreaterThan(20000);
+    expect("€".repeat(30000).startsWith(author)).toBe(true);
+    // The room reserved for metadata under a size limit still covers what was added
+    expect(getMetadataSize(metadata)).toBeGreaterThanOrEqual(bytes.length - createJpeg().length);
+  });
+});
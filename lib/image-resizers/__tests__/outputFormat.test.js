@@ -0,0 +1,68 @@
+/**
+ * @file lib/image-resizers/__tests__/outputFormat.test.js
+ * @author Sameer
+ * @description Tests of the search for the highest quality that meets a maximum file size, with a stand-in encoder
+ * whose file size grows with the quality.
+ * @lastUpdated 2026-10-19
+ */
+import { describe, it, expect } from "vitest";
+import { encodeWithinSize } from "../outputFormat";
+
+/**
+ * @overview Builds a stand-in encoder that makes files of a size given by the quality and records each quality asked for.
+ *
+ * @param {(quality: number) => number} sizeAt - The file size in bytes at a quality between 0 and 1.
+ *
+ * @returns {{encode: (quality: number) => Promise<Blob>, qualities: number[]}} The encoder and the qualities it was called with.
+ */
+function createEncoder(sizeAt) {
+  const qualities = [];
+  const encode = async (quality) => {
+    qualities.push(quality);
+    return new Blob([new Uint8Array(sizeAt(quality))]);
+  };
+  return { encode, qualities };
+}
+
+// A file size that grows faster at high qualities, as with real lossy encoders
+const curvedSize = (quality) => Math.round(200 + 100 * quality + 700 * quality * quality);
+
+describe("encodeWithinSize", () => {
+  it("encodes once without a maximum file size", async () => {
+    const { encode, qualities } = createEncoder(curvedSize);
+    const result = await encodeWithinSize(encode, { quality: 0.9 });
+
+    expect(qualities).toEqual([0.9]);
+    expect(result).toMatchObject({ quality: 0.9, fits: true });
+    expect(result.blob.size).toBe(curvedSize(0.9));
+  });
+
+  it("encodes once when the requested quality already fits", async () => {
+    const { encode, qualities } = createEncoder(curvedSize);
+    const result = await encodeWithinSize(encode, { quality: 0.9, maxFileSize: 1000 });
+
+    expect(qualities).toEqual([0.9]);
+    expect(result).toMatchObject({ quality: 0.9, fits: true });
+  });
+
+  it.each([250, 437, 600, 847])("finds the highest whole percent that fits in %i bytes", async (maxFileSize) => {
+    const { encode, qualities } = createEncoder(curvedSize);
+    const result = await encodeWithinSize(encode, { quality: 0.9, maxFileSize });
+
+    // Every percent up to the requested quality, tried one by one
+    const expected = Array.from({ length: 90 }, (_, i) => (i + 1) / 100).filter((q) => curvedSize(q) <= maxFileSize).pop();
+    expect(result).toMatchObject({ quality: expected, fits: true });
+    expect(result.blob.size).toBe(curvedSize(expected));
+    expect(curvedSize(expected + 0.01)).toBeGreaterThan(maxFileSize);
+    // A binary search over 89 percents takes at most seven encodes after the first
+    expect(qualities.length).toBeLessThanOrEqual(8);
+  });
+
+  it("returns the smallest file, marked as not fitting, when even the lowest quality is too large", async () => {
+    const { encode, qualities } = createEncoder(curvedSize);
+    const result = await encodeWithinSize(encode, { quality: 0.9, maxFileSize: 100 });
+
+    expect(result).toMatchObject({ quality: 0.01, fits: false });
+    expect(result.blob.size).toBe(Math.min(...qualities.map(curvedSize)));
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * @file lib/image-resizers/__tests__/pixelArt.test.js
+ * @author Harsh
+ * @description Tests of the pixel-art scalers: known Scale2x, hq2x and 2xBR output for a diagonal staircase, flat
+ * areas left untouched at every factor, rules that hold for all four corners alike, and the factor validation.
+ * @lastUpdated 2026-10-19
+ */
+import { describe, it, expect } from "vitest";
+import { resample } from "../resample";
+import { PIXEL_ART_FACTORS } from "../pixelArt";
+
+// Every supported pixel-art method with each of its scale factors
+const METHOD_FACTORS = Object.entries(PIXEL_ART_FACTORS).flatMap(([method, factors]) => factors.map((factor) => [method, factor]));
+
+/**
+ * @overview Builds an opaque image from rows of palette keys, one character per pixel.
+ *
+ * @param {string[]} rows - The rows of the image, all of the same length.
+ * @param {Object<string, number[]>} palette - The RGB color of each character.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The image.
+ */
+function createImage(rows, palette) {
+  const width = rows[0].length;
+  const data = new Uint8ClampedArray(width * rows.length * 4);
+  rows.join("").split("").forEach((key, i) => data.set([...palette[key], 255], i * 4));
+  return { data, width, height: rows.length };
+}
+
+/**
+ * @overview Builds an opaque image of random colors from a small palette, so that edges of every shape occur.
+ *
+ * @param {number} width - The width in pixels.
+ * @param {number} height - The height in pixels.
+ * @param {number} seed - The seed of the pseudo-random sequence, which makes the image reproducible.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The image.
+ */
+function createRandomImage(width, height, seed) {
+  const colors = [[0, 0, 0], [255, 255, 255], [200, 40, 40], [40, 200, 40], [130, 125, 118]];
+  let state = seed;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    data.set([...colors[state % colors.length], 255], i * 4);
+  }
+  return { data, width, height };
+}
+
+/**
+ * @overview Turns an image a quarter turn clockwise.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The image.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The turned image.
+ */
+function turnClockwise({ data, width, height }) {
+  const turned = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      turned.set(data.subarray((y * width + x) * 4, (y * width + x + 1) * 4), (x * height + (height - 1 - y)) * 4);
+    }
+  }
+  return { data: turned, width: height, height: width };
+}
+
+/**
+ * @overview Reads the red channel of every pixel, which holds the gray level of a black-and-white image.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The image.
+ *
+ * @returns {number[]} The red channel, row by row.
+ */
+function readGray({ data }) {
+  return Array.from({ length: data.length / 4 }, (_, i) => data[i * 4]);
+}
+
+describe("pixel-art scaling of a diagonal", () => {
+  // A 45° staircase between white and black
+  const staircase = createImage(["#...", "##..", "###.", "####"], { "#": [255, 255, 255], ".": [0, 0, 0] });
+
+  it("matches the known Scale2x output", () => {
+    const result = resample(staircase, 8, 8, { method: "epx" });
+
+    // Each step gains a white pixel below and left of the diagonal; Scale2x never mixes colors
+    expect(readGray(result)).toEqual([
+      255, 255, 0, 0, 0, 0, 0, 0,
+      255, 255, 255, 0, 0, 0, 0, 0,
+      255, 255, 255, 0, 0, 0, 0, 0,
+      255, 255, 255, 255, 255, 0, 0, 0,
+      255, 255, 255, 255, 255, 0, 0, 0,
+      255, 255, 255, 255, 255, 255, 255, 0,
+      255, 255, 255, 255, 255, 255, 255, 255,
+      255, 255, 255, 255, 255, 255, 255, 255,
+    ]);
+  });
+
+  // Produced by ffmpeg's hqx filter and by the xBR reference; both truncate the blends that are rounded here
+  it.each(["hqx", "xbr"])("matches the reference 2x output with '%s'", (method) => {
+    const result = resample(staircase, 8, 8, { method });
+    const reference = [
+      255, 255, 63, 0, 0, 0, 0, 0,
+      255, 255, 191, 0, 0, 0, 0, 0,
+      255, 255, 255, 127, 0, 0, 0, 0,
+      255, 255, 255, 255, 127, 0, 0, 0,
+      255, 255, 255, 255, 255, 127, 0, 0,
+      255, 255, 255, 255, 255, 255, 191, 63,
+      255, 255, 255, 255, 255, 255, 255, 255,
+      255, 255, 255, 255, 255, 255, 255, 255,
+    ];
+
+    readGray(result).forEach((value, i) => expect(Math.abs(value - reference[i])).toBeLessThanOrEqual(1));
+  });
+});
+
+describe("pixel-art scaling of flat areas", () => {
+  it.each(METHOD_FACTORS)("keeps a single-color image unchanged with '%s' at %ix", (method, factor) => {
+    const flat = createImage(["aaaa", "aaaa", "aaaa"], { a: [90, 160, 30] });
+    const result = resample(flat, 4 * factor, 3 * factor, { method });
+
+    for (let i = 0; i < result.data.length; i += 4) {
+      expect(Array.from(result.data.subarray(i, i + 4))).toEqual([90, 160, 30, 255]);
+    }
+  });
+
+  it.each(METHOD_FACTORS)("leaves pixels away from an edge untouched with '%s' at %ix", (method, factor) => {
+    // Two flat areas meeting at a straight edge; the scalers look at most two pixels out
+    const halves = createImage(Array(6).fill("aaaaabbbbb"), { a: [230, 60, 40], b: [30, 60, 220] });
+    const result = resample(halves, 10 * factor, 6 * factor, { method });
+
+    for (let y = 0; y < result.height; y++) {
+      for (let x = 0; x < result.width; x++) {
+        const sourceX = Math.floor(x / factor);
+        if (sourceX >= 3 && sourceX <= 6) continue;
+        const expected = sourceX < 5 ? [230, 60, 40, 255] : [30, 60, 220, 255];
+        expect(Array.from(result.data.subarray((y * result.width + x) * 4, (y * result.width + x + 1) * 4))).toEqual(expected);
+      }
+    }
+  });
+});
+
+describe("pixel-art scaling of all four corners", () => {
+  // Scale2x and hqx fill each output pixel once, by rules that are the same for every corner. xBR is left out, since
+  // its corners blend into each other's pixels one after the other.
+  const symmetricMethodFactors = METHOD_FACTORS.filter(([method]) => method !== "xbr");
+
+  it.each(symmetricMethodFactors)("gives the same result for a turned image with '%s' at %ix", (method, factor) => {
+    const image = createRandomImage(9, 7, 42);
+    const turned = turnClockwise(image);
+
+    const scaledThenTurned = turnClockwise(resample(image, 9 * factor, 7 * factor, { method }));
+    const turnedThenScaled = resample(turned, 7 * factor, 9 * factor, { method });
+    expect(turnedThenScaled.data).toEqual(scaledThenTurned.data);
+  });
+});
+
+describe("pixel-art scale factor validation", () => {
+  const image = createRandomImage(6, 5, 7);
+
+  it.each(Object.keys(PIXEL_ART_FACTORS))("rejects a non-integer factor with '%s'", (method) => {
+    expect(() => resample(image, 13, 10, { method })).toThrow(/needs a target size of exactly/);
+    expect(() => resample(image, 9, 7, { method })).toThrow(/needs a target size of exactly/);
+  });
+
+  it("rejects different factors for the width and the height", () => {
+    expect(() => resample(image, 12, 15, { method: "hqx" })).toThrow(/needs a target size of exactly/);
+  });
+
+  it("rejects a factor the method does not support", () => {
+    expect(() => resample(image, 24, 20, { method: "epx" })).toThrow(/needs a target size of exactly 2x, 3x/);
+  });
+});
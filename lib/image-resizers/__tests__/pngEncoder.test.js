@@ -0,0 +1,95 @@
+/**
+ * @file lib/image-resizers/__tests__/pngEncoder.test.js
+ * @author Sameer
+ * @description Tests of the PNG encoder: files decoded by an independent decoder give back the exact pixels, with the
+ * alpha channel stripped from opaque images, and chunk checksums match the CRC-32 of the PNG specification.
+ * @lastUpdated 2026-10-19
+ */
+import { describe, it, expect } from "vitest";
+import { PNG } from "pngjs";
+import { encodePng, createPngChunk, MIN_PNG_COMPRESSION, MAX_PNG_COMPRESSION } from "../pngEncoder";
+
+// Color types of the PNG header
+const COLOR_TYPE_RGB = 2;
+const COLOR_TYPE_RGBA = 6;
+
+/**
+ * @overview Builds an image of smooth gradients with a noisy patch, so that rows are best served by different filters.
+ *
+ * @param {number} width - The width in pixels.
+ * @param {number} height - The height in pixels.
+ * @param {boolean} transparent - Whether to vary the alpha channel as well.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The image.
+ */
+function createImage(width, height, transparent) {
+  let state = 17;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      state = (state * 1103515245 + 12345) & 0x7fffffff;
+      const noise = x > width / 2 && y > height / 2 ? state % 64 : 0;
+      const alpha = transparent ? (x * 37 + y * 11) % 256 : 255;
+      data.set([x * 8 + noise, y * 8, (x + y) * 4, alpha], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+describe("encodePng", () => {
+  it.each([MIN_PNG_COMPRESSION, 6, MAX_PNG_COMPRESSION])("stores an opaque image as RGB at level %i", (level) => {
+    const image = createImage(31, 17, false);
+    const bytes = encodePng(image, level);
+    const decoded = PNG.sync.read(Buffer.from(bytes));
+
+    expect(bytes[25]).toBe(COLOR_TYPE_RGB); // The color type in the header
+    expect(decoded.width).toBe(31);
+    expect(decoded.height).toBe(17);
+    expect(new Uint8ClampedArray(decoded.data)).toEqual(image.data);
+  });
+
+  it.each([MIN_PNG_COMPRESSION, 6, MAX_PNG_COMPRESSION])("keeps the alpha channel of a transparent image at level %i", (level) => {
+    const image = createImage(31, 17, true);
+    const bytes = encodePng(image, level);
+    const decoded = PNG.sync.read(Buffer.from(bytes));
+
+    expect(bytes[25]).toBe(COLOR_TYPE_RGBA);
+    expect(new Uint8ClampedArray(decoded.data)).toEqual(image.data);
+  });
+
+  it("compresses harder at higher levels", () => {
+    const image = createImage(64, 64, false);
+    expect(encodePng(image, MAX_PNG_COMPRESSION).length).toBeLessThan(encodePng(image, MIN_PNG_COMPRESSION).length);
+  });
+
+  it.each([-1, 10, 2.5])("rejects compression level %s", (level) => {
+    expect(() => encodePng(createImage(2, 2, false), level)).toThrow(`Invalid PNG compression level: ${level}`);
+  });
+});
+
+describe("createPngChunk", () => {
+  it("ends a chunk with the CRC-32 of its type and data", () => {
+    // The empty IEND chunk closes every PNG file, so its checksum is well known
+    expect(Array.from(createPngChunk("IEND", new Uint8Array(0)))).toEqual([0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82]);
+    // The reference gives the standard check value, that of the ASCII digits 1 to 9
+    expect(crc32Reference(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+    const chunk = createPngChunk("tEXt", new TextEncoder().encode("Comment\0Resized"));
+    expect(new DataView(chunk.buffer).getUint32(chunk.length - 4)).toBe(crc32Reference(chunk.subarray(4, chunk.length - 4)));
+  });
+});
+
+/**
+ * @overview Computes CRC-32 bit by bit, as a reference for the table-driven implementation.
+ *
+ * @param {Uint8Array} bytes - The bytes to checksum.
+ *
+ * @returns {number} The checksum.
+ */
+function crc32Reference(bytes) {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
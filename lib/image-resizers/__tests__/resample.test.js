@@ -0,0 +1,177 @@
+/**
+ * @file lib/image-resizers/__tests__/resample.test.js
+ * @author Sameer
+ * @description Tests of the DOM-free resample core: antialiased downscaling, premultiplied-alpha interpolation,
+ * pixel-center alignment and the validation of the Lanczos lobe count.
+ * @lastUpdated 2026-10-19
+ */
+import { describe, it, expect } from "vitest";
+import { resample } from "../resample";
+import { MAX_LANCZOS_LOBES } from "../kernels";
+import { loadFixture } from "./loadFixture";
+
+// Methods that filter with a kernel, as opposed to picking or copying pixels
+const INTERPOLATING_METHODS = ["area", "bilinear", "bicubic", "lanczos2", "lanczos3"];
+
+/**
+ * @overview Builds an opaque black image with a soft white dot, whose position can be measured to a fraction of a pixel.
+ *
+ * @param {number} width - The width in pixels.
+ * @param {number} height - The height in pixels.
+ * @param {number} centerX - The horizontal position of the dot's center, in pixels from the left edge of the image.
+ * @param {number} centerY - The vertical position of the dot's center, in pixels from the top edge of the image.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The image.
+ */
+function createDot(width, height, centerX, centerY) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const distance = Math.hypot(x + 0.5 - centerX, y + 0.5 - centerY);
+      const value = 255 * Math.exp(-(distance * distance) / 2);
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+/**
+ * @overview Measures the brightness-weighted center of an image.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The image.
+ *
+ * @returns {{x: number, y: number}} The center, in pixels from the top left corner of the image.
+ */
+function measureCentroid({ data, width, height }) {
+  let total = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = data[(y * width + x) * 4];
+      total += value;
+      sumX += value * (x + 0.5);
+      sumY += value * (y + 0.5);
+    }
+  }
+  return { x: sumX / total, y: sumY / total };
+}
+
+/**
+ * @overview Builds an opaque one-pixel black-and-white checkerboard, the highest frequency an image can hold.
+ *
+ * @param {number} width - The width in pixels.
+ * @param {number} height - The height in pixels.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The image.
+ */
+function createCheckerboard(width, height) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = (x + y) % 2 === 0 ? 255 : 0;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+describe("resample downscaling", () => {
+  // Integer and fractional reductions, so the widened kernel is checked off the pixel grid as well. The board
+  // wraps, so the pixels at its edges are averaged over the same pattern as the rest.
+  const sizes = [[16, 16], [23, 17], [7, 5]];
+
+  for (const method of INTERPOLATING_METHODS) {
+    it.each(sizes)(`averages a checkerboard to mid-grey with '${method}' at %ix%i`, (targetWidth, targetHeight) => {
+      const result = resample(createCheckerboard(64, 64), targetWidth, targetHeight, { method, edgeMode: "wrap" });
+      for (let i = 0; i < result.data.length; i += 4) {
+        expect(Math.abs(result.data[i] - 127.5)).toBeLessThanOrEqual(4);
+        expect(result.data[i + 3]).toBe(255);
+      }
+    });
+  }
+
+  it("aliases without a widened kernel, which is what the test guards against", () => {
+    // Nearest neighbour only ever picks one source pixel, so a checkerboard collapses to black or white
+    const result = resample(createCheckerboard(64, 64), 16, 16, { method: "nearest" });
+    const values = new Set(Array.from({ length: 16 * 16 }, (_, i) => result.data[i * 4]));
+    expect([...values].every((value) => value === 0 || value === 255)).toBe(true);
+  });
+});
+
+describe("resample on transparent images", () => {
+  // An orange disk with soft edges on fully transparent black, as logos are often saved
+  const logo = loadFixture("logo-on-transparent-black.png");
+  const LOGO_COLOR = [255, 140, 0];
+
+  for (const method of ["bilinear", "bicubic", "lanczos2", "lanczos3", "area"]) {
+    it.each([[17, 17], [93, 93]])(`keeps the edge color instead of darkening toward black with '${method}' at %ix%i`, (targetWidth, targetHeight) => {
+      const result = resample(logo, targetWidth, targetHeight, { method });
+      let edgePixels = 0;
+      for (let i = 0; i < result.data.length; i += 4) {
+        const alpha = result.data[i + 3];
+        if (alpha === 0) continue;
+        if (alpha < 255) edgePixels++;
+        for (let channel = 0; channel < 3; channel++) {
+          expect(Math.abs(result.data[i + channel] - LOGO_COLOR[channel])).toBeLessThanOrEqual(1);
+        }
+      }
+      // The check is only meaningful if the resize produced partly transparent edge pixels
+      expect(edgePixels).toBeGreaterThan(0);
+    });
+  }
+});
+
+describe("resample pixel alignment", () => {
+  // The dot sits off-center, away from the edges, so a shift toward any side shows up in its centroid
+  const dot = createDot(21, 15, 8.5, 6.5);
+  const original = measureCentroid(dot);
+
+  for (const alignCorners of [false, true]) {
+    const mode = alignCorners ? "align-corners" : "pixel-center";
+    it.each(["nearest", "area", "bilinear", "bicubic", "lanczos2", "lanczos3"])(`keeps a 2x round trip with '%s' centered in ${mode} mode`, (method) => {
+      const enlarged = resample(dot, dot.width * 2, dot.height * 2, { method, alignCorners });
+      const restored = resample(enlarged, dot.width, dot.height, { method, alignCorners });
+      const enlargedCenter = measureCentroid(enlarged);
+      const restoredCenter = measureCentroid(restored);
+
+      // Pixel-center mode scales positions about the image edges, align-corners mode about the corner pixel centers
+      const expectedX = alignCorners ? (original.x - 0.5) * (2 * dot.width - 1) / (dot.width - 1) + 0.5 : original.x * 2;
+      const expectedY = alignCorners ? (original.y - 0.5) * (2 * dot.height - 1) / (dot.height - 1) + 0.5 : original.y * 2;
+      // Nearest neighbour can only repeat whole pixels, so its enlargement is centered to within half a pixel
+      const precision = method === "nearest" ? 0 : 1;
+      expect(enlargedCenter.x).toBeCloseTo(expectedX, precision);
+      expect(enlargedCenter.y).toBeCloseTo(expectedY, precision);
+      expect(restoredCenter.x).toBeCloseTo(original.x, 1);
+      expect(restoredCenter.y).toBeCloseTo(original.y, 1);
+    });
+  }
+
+  // Edge-directed upscaling only enlarges and always aligns the image edges; the doublings alone would leave the dot
+  // a quarter of an original pixel up and left
+  it.each([2, 4])("keeps a %ix enlargement with 'edi' centered", (scale) => {
+    const enlarged = resample(dot, dot.width * scale, dot.height * scale, { method: "edi" });
+    const center = measureCentroid(enlarged);
+
+    expect(center.x / scale).toBeCloseTo(original.x, 1);
+    expect(center.y / scale).toBeCloseTo(original.y, 1);
+  });
+});
+
+describe("resample with a custom number of Lanczos lobes", () => {
+  const board = createCheckerboard(16, 16);
+
+  it.each([0, -1, NaN, 2.5, MAX_LANCZOS_LOBES + 1])("rejects %s lobes", (lobes) => {
+    expect(() => resample(board, 8, 8, { method: "lanczos", lobes })).toThrow(/Invalid number of Lanczos lobes/);
+  });
+
+  it("matches the named method with the same number of lobes", () => {
+    const custom = resample(board, 11, 9, { method: "lanczos", lobes: 2 });
+    expect(custom.data).toEqual(resample(board, 11, 9, { method: "lanczos2" }).data);
+  });
+
+  it.each([1, MAX_LANCZOS_LOBES])("produces an opaque image with %i lobes", (lobes) => {
+    const result = resample(board, 8, 8, { method: "lanczos", lobes });
+    for (let i = 3; i < result.data.length; i += 4) expect(result.data[i]).toBe(255);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @file lib/image-resizers/__tests__/seamCarving.test.js
+ * @author Sameer
+ * @description Tests of seam carving: removal and protection masks, enlargement past half the width and the
+ * validation of the mask size.
+ * @lastUpdated 2026-10-19
+ */
+import { describe, it, expect } from "vitest";
+import { carveSeams, SEAM_MASK } from "../seamCarving";
+
+/**
+ * @overview Builds an opaque image of random gray levels, busy enough that no seam is much cheaper than another.
+ *
+ * @param {number} width - The width in pixels.
+ * @param {number} height - The height in pixels.
+ * @param {number} seed - The seed of the pseudo-random sequence, which makes the image reproducible.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The image.
+ */
+function createNoise(width, height, seed) {
+  let state = seed;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    const value = state % 256;
+    data.set([value, value, value, 255], i * 4);
+  }
+  return { data, width, height };
+}
+
+/**
+ * @overview Reads one row of an image as packed RGBA values, so that whole pixels can be compared.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The image.
+ * @param {number} y - The row.
+ *
+ * @returns {number[]} The pixels of the row.
+ */
+function readRow({ data, width }, y) {
+  return Array.from(new Uint32Array(data.slice(y * width * 4, (y + 1) * width * 4).buffer));
+}
+
+describe("carveSeams", () => {
+  it("removes a column marked for removal first", () => {
+    const image = createNoise(8, 6, 3);
+    const mask = new Int8Array(8 * 6);
+    for (let y = 0; y < 6; y++) {
+      image.data.set([255, 0, 0, 255], (y * 8 + 5) * 4);
+      mask[y * 8 + 5] = SEAM_MASK.REMOVE;
+    }
+
+    const result = carveSeams(image, 7, 6, { mask });
+
+    for (let y = 0; y < 6; y++) {
+      const row = readRow(image, y);
+      row.splice(5, 1);
+      expect(readRow(result, y)).toEqual(row);
+    }
+  });
+
+  it("keeps a protected region intact while narrowing", () => {
+    const image = createNoise(16, 8, 11);
+    const mask = new Int8Array(16 * 8);
+    for (let y = 2; y <= 4; y++) mask.fill(SEAM_MASK.PROTECT, y * 16 + 6, y * 16 + 9);
+
+    const result = carveSeams(image, 8, 8, { mask });
+
+    // A seam cannot pass the region on one side in one row and on the other in the next, so its rows stay aligned
+    const block = [2, 3, 4].map((y) => readRow(image, y).slice(6, 9));
+    const offsets = [2, 3, 4].map((y, i) => {
+      const row = readRow(result, y);
+      return row.findIndex((_, x) => block[i].every((pixel, dx) => row[x + dx] === pixel));
+    });
+    expect(offsets[0]).toBeGreaterThanOrEqual(0);
+    expect(offsets).toEqual([offsets[0], offsets[0], offsets[0]]);
+  });
+
+  it("reaches the target size when enlarging by more than half the width", () => {
+    const image = createNoise(10, 6, 5);
+    const result = carveSeams(image, 25, 6);
+
+    expect(result.width).toBe(25);
+    expect(result.height).toBe(6);
+    expect(result.data.length).toBe(25 * 6 * 4);
+
+    // Inserting seams never drops a pixel, so each original row is still there in order
+    for (let y = 0; y < 6; y++) {
+      const row = readRow(result, y);
+      let x = 0;
+      for (const pixel of readRow(image, y)) {
+        x = row.indexOf(pixel, x) + 1;
+        expect(x).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it("rejects a mask of the wrong length", () => {
+    const image = createNoise(8, 6, 1);
+    expect(() => carveSeams(image, 6, 6, { mask: new Int8Array(8 * 6 - 1) })).toThrow(/The seam mask has 47 entries, expected 48/);
+  });
+});
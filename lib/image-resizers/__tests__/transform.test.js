@@ -0,0 +1,152 @@
+/**
+ * @file lib/image-resizers/__tests__/transform.test.js
+ * @author Sameer
+ * @description Tests of the transform applied before resizing: the lossless crop, flips and quarter turns, the free
+ * rotation folded into resampling, the source rows a rotated band reads, and mapping points of the image as uploaded
+ * into the transformed image.
+ * @lastUpdated 2026-10-19
+ */
+import { describe, it, expect } from "vitest";
+import { orientPixels, resampleRotated, getRotatedRowRange, transformPoint } from "../transform";
+import { resample } from "../resample";
+import { triangleWeight, lanczosWeight } from "../kernels";
+
+/**
+ * @overview Builds an opaque image of random colors, whose every pixel differs from its neighbours.
+ *
+ * @param {number} width - The width in pixels.
+ * @param {number} height - The height in pixels.
+ * @param {number} seed - The seed of the pseudo-random sequence, which makes the image reproducible.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The image.
+ */
+function createNoise(width, height, seed) {
+  let state = seed;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    data[i] = i % 4 === 3 ? 255 : state % 256;
+  }
+  return { data, width, height };
+}
+
+describe("orientPixels", () => {
+  // A 3x2 image whose pixels are numbered row by row:
+  // 1 2 3
+  // 4 5 6
+  const pixels = Uint32Array.from([1, 2, 3, 4, 5, 6]);
+  const orient = (transform) => {
+    const result = orientPixels(pixels, 3, 2, transform);
+    return { pixels: Array.from(result.pixels), width: result.width, height: result.height };
+  };
+
+  it.each([
+    [{ rotate: 90 }, [4, 1, 5, 2, 6, 3], 2, 3],
+    [{ rotate: 180 }, [6, 5, 4, 3, 2, 1], 3, 2],
+    [{ rotate: 270 }, [3, 6, 2, 5, 1, 4], 2, 3],
+    [{ flipX: true }, [3, 2, 1, 6, 5, 4], 3, 2],
+    [{ flipY: true }, [4, 5, 6, 1, 2, 3], 3, 2],
+    // Flips come before the turn
+    [{ flipX: true, rotate: 90 }, [6, 3, 5, 2, 4, 1], 2, 3],
+    [{ crop: { left: 1, top: 0, width: 2, height: 2 }, rotate: 90 }, [5, 2, 6, 3], 2, 2],
+  ])("moves the pixels for %o", (transform, expected, width, height) => {
+    expect(orient(transform)).toEqual({ pixels: expected, width, height });
+  });
+
+  it("returns the pixels themselves when nothing moves", () => {
+    expect(orientPixels(pixels, 3, 2, { rotate: 0, angle: 30 }).pixels).toBe(pixels);
+  });
+
+  it("keeps the array type, so masks are transformed alike", () => {
+    const mask = Int8Array.from([1, 0, 0, 0, 0, -1]);
+    const result = orientPixels(mask, 3, 2, { rotate: 90 });
+    expect(result.pixels).toBeInstanceOf(Int8Array);
+    expect(Array.from(result.pixels)).toEqual([0, 1, 0, 0, -1, 0]);
+  });
+
+  it("rejects an invalid quarter turn or a crop outside the image", () => {
+    expect(() => orientPixels(pixels, 3, 2, { rotate: 45 })).toThrow("Invalid rotation: 45");
+    expect(() => orientPixels(pixels, 3, 2, { crop: { left: 2, top: 0, width: 2, height: 2 } })).toThrow(/Invalid crop rectangle/);
+  });
+});
+
+describe("resampleRotated", () => {
+  const image = createNoise(12, 8, 5);
+
+  it.each([
+    ["bilinear", { kernel: triangleWeight, radius: 1 }, 18, 12],
+    ["bilinear", { kernel: triangleWeight, radius: 1 }, 6, 4],
+    ["lanczos3", { kernel: (t) => lanczosWeight(t, 3), radius: 3 }, 18, 12],
+    ["lanczos3", { kernel: (t) => lanczosWeight(t, 3), radius: 3 }, 6, 4],
+  ])("matches the plain '%s' resample at 0° to %ix%i", (method, filter, targetWidth, targetHeight) => {
+    const rotated = new Uint8ClampedArray(targetWidth * targetHeight * 4);
+    resampleRotated(image, rotated, targetWidth, targetHeight, 0, filter, { rowStart: 0, rowEnd: targetHeight }, {});
+    // The rotation treats everything outside the image as transparent
+    const plain = resample(image, targetWidth, targetHeight, { method, edgeMode: "transparent" });
+
+    rotated.forEach((value, i) => expect(Math.abs(value - plain.data[i])).toBeLessThanOrEqual(1));
+  });
+});
+
+describe("getRotatedRowRange", () => {
+  const image = createNoise(20, 14, 9);
+
+  // Each band is resampled from only the rows the range names, stored from its start as the workers do; a row
+  // missing from the range would read outside the copy and change the result
+  it.each([
+    ["nearest", 30, 26, 22],
+    ["bilinear", 30, 26, 22],
+    ["lanczos3", 12, 26, 22],
+    ["bicubic", -75, 13, 11],
+    ["lanczos3", 160, 40, 36],
+  ])("covers every row a band reads with '%s' at %i°", (method, angle, targetWidth, targetHeight) => {
+    const options = { method, transform: { angle } };
+    const full = resample(image, targetWidth, targetHeight, options);
+    const radius = { nearest: 0, bilinear: 1, bicubic: 2, lanczos3: 3 }[method];
+
+    for (let rowStart = 0; rowStart < targetHeight; rowStart += 5) {
+      const rowEnd = Math.min(targetHeight, rowStart + 5);
+      const { start, end } = getRotatedRowRange(image, { width: targetWidth, height: targetHeight }, angle, radius, rowStart, rowEnd);
+      const rows = { data: image.data.slice(start * 20 * 4, end * 20 * 4), width: 20, height: 14, rowOffset: start };
+      const band = resample(rows, targetWidth, targetHeight, { ...options, rowStart, rowEnd });
+
+      expect(band.data).toEqual(full.data.subarray(rowStart * targetWidth * 4, rowEnd * targetWidth * 4));
+    }
+  });
+});
+
+describe("transformPoint", () => {
+  // A point one pixel in from the left and two down, in a 10x6 image
+  const point = [1, 2, 10, 6];
+
+  it.each([
+    [{ rotate: 0 }, { x: 1, y: 2 }],
+    [{ rotate: 90 }, { x: 4, y: 1 }],
+    [{ rotate: 180 }, { x: 9, y: 4 }],
+    [{ rotate: 270 }, { x: 2, y: 9 }],
+    [{ flipX: true }, { x: 9, y: 2 }],
+    [{ flipY: true }, { x: 1, y: 4 }],
+    [{ flipX: true, rotate: 90 }, { x: 4, y: 9 }],
+  ])("follows %o", (transform, expected) => {
+    expect(transformPoint(...point, transform)).toEqual(expected);
+  });
+
+  it("measures from the crop and lets cropped-away points fall outside", () => {
+    const crop = { left: 2, top: 1, width: 5, height: 4 };
+    expect(transformPoint(4, 3, 10, 6, { crop })).toEqual({ x: 2, y: 2 });
+    expect(transformPoint(1, 2, 10, 6, { crop })).toEqual({ x: -1, y: 1 });
+  });
+
+  it("turns points about the center for a free angle", () => {
+    // A 10x10 square turned by 90° has the same bounding box, and the top-left corner goes to the top-right
+    const corner = transformPoint(0, 0, 10, 10, { angle: 90 });
+    expect(corner.x).toBeCloseTo(10);
+    expect(corner.y).toBeCloseTo(0);
+
+    // At 45° the top-left corner of a square becomes the leftmost point of its bounding box, halfway down
+    const bounds = 10 * Math.SQRT2;
+    const diagonal = transformPoint(0, 10, 10, 10, { angle: 45 });
+    expect(diagonal.x).toBeCloseTo(0, 0);
+    expect(diagonal.y).toBeCloseTo(bounds / 2, 0);
+  });
+});
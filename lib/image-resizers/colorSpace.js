@@ -0,0 +1,49 @@
+/**
+ * @file lib/image-resizers/colorSpace.js
+ * @author Sameer
+ * @description Lookup tables for converting 8-bit sRGB channel values to and from linear light.
+ * @lastUpdated 2026-10-19
+ */
+
+// Resolution of the linear -> sRGB table; 16 bits keeps the darkest sRGB steps distinguishable
+const LINEAR_TABLE_SIZE = 65536;
+
+/**
+ * @overview Maps an 8-bit sRGB-encoded channel value to linear light, scaled to [0, 255] so that
+ * linear values can flow through the same resampling code as raw bytes.
+ * @constant {Float32Array}
+ */
+export const SRGB_TO_LINEAR = new Float32Array(256);
+
+/**
+ * @overview Maps a linear-light value quantized to `LINEAR_TABLE_SIZE` steps back to an 8-bit sRGB channel value.
+ * @constant {Uint8Array}
+ */
+const LINEAR_TO_SRGB = new Uint8Array(LINEAR_TABLE_SIZE);
+
+for (let value = 0; value < 256; value++) {
+  const encoded = value / 255;
+  // Inverse of the piecewise sRGB transfer function (IEC 61966-2-1)
+  const linear = encoded <= 0.04045 ? encoded / 12.92 : Math.pow((encoded + 0.055) / 1.055, 2.4);
+  SRGB_TO_LINEAR[value] = linear * 255;
+}
+
+for (let step = 0; step < LINEAR_TABLE_SIZE; step++) {
+  const linear = step / (LINEAR_TABLE_SIZE - 1);
+  const encoded = linear <= 0.0031308 ? linear * 12.92 : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+  LINEAR_TO_SRGB[step] = Math.round(encoded * 255);
+}
+
+/**
+ * @overview Converts a linear-light value (scaled to [0, 255], as produced via `SRGB_TO_LINEAR`) back to an
+ * 8-bit sRGB channel value. Values outside the range, e.g. from negative kernel lobes, are clamped.
+ *
+ * @param {number} linear - The linear-light value in the range [0, 255].
+ *
+ * @returns {number} The sRGB-encoded channel value in the range [0, 255].
+ */
+export function linearToSrgb(linear) {
+  if (linear <= 0) return 0;
+  if (linear >= 255) return 255;
+  return LINEAR_TO_SRGB[Math.round((linear / 255) * (LINEAR_TABLE_SIZE - 1))];
+}
@@ -0,0 +1,231 @@
+/**
+ * @file lib/image-resizers/edgeDirected.js
+ * @author Sameer
+ * @description Edge-directed upscaling (Directional Cubic Convolution Interpolation) over raw RGBA buffers.
+ * @lastUpdated 2026-10-19
+ */
+import { resampleSeparable } from "./SeparableResampler";
+import { cubicWeight, CUBIC_PRESETS } from "./kernels";
+import { throwIfAborted, createProgressTracker } from "./taskControl";
+
+// Ratio of the two directional gradients above which the weaker direction is treated as an edge
+const EDGE_THRESHOLD = 1.15;
+// Exponent turning the gradients into blending weights in smooth areas
+const SMOOTH_EXPONENT = 5;
+// Cubic convolution weights for a sample halfway between the middle two of four evenly spaced pixels, from the same
+// kernel as the final resize
+const HALFWAY_WEIGHTS = [-1 / 8, 5 / 8, 5 / 8, -1 / 8];
+// Cubic of the final resize: the classic a = -1 kernel that the bicubic method uses by default, so the two differ only
+// in following the edges
+const FINAL_CUBIC = CUBIC_PRESETS.classic;
+// Pixel pairs, as [dx1, dy1, dx2, dy2] offsets, whose luminance differences measure the gradient along each
+// direction: the 4x4 source pixels around a diagonal gap, and the known pixels around a horizontal/vertical gap
+const UP_RIGHT_PAIRS = [];
+const DOWN_RIGHT_PAIRS = [];
+for (let top = -3; top <= 1; top += 2) {
+  for (let left = -3; left <= 1; left += 2) {
+    UP_RIGHT_PAIRS.push([left + 2, top, left, top + 2]);
+    DOWN_RIGHT_PAIRS.push([left, top, left + 2, top + 2]);
+  }
+}
+const HORIZONTAL_PAIRS = [
+  [-3, 0, -1, 0], [-1, 0, 1, 0], [1, 0, 3, 0],
+  [-2, -1, 0, -1], [0, -1, 2, -1],
+  [-2, 1, 0, 1], [0, 1, 2, 1],
+];
+const VERTICAL_PAIRS = HORIZONTAL_PAIRS.map(([dx1, dy1, dx2, dy2]) => [dy1, dx1, dy2, dx2]);
+
+// Share of the progress bar taken by the doublings when a final resize to the exact size follows
+const DOUBLING_PROGRESS_SHARE = 0.9;
+
+/**
+ * @overview Enlarges an image with Directional Cubic Convolution Interpolation (DCCI; Zhou, Shen and Li, 2012),
+ * an edge-directed method in the NEDI/EDI family. Each doubling keeps the source pixels on the even output
+ * pixels and fills the gaps in two passes: first the diagonal gaps, then the horizontal and vertical ones. Every
+ * gap measures the luminance gradients along its two candidate directions; where one is clearly stronger an edge
+ * crosses it and the pixel is interpolated along the edge only, otherwise both directions are blended. Text and line
+ * art therefore keep sharp, continuous diagonal edges instead of the blurry staircases of bicubic.
+ *
+ * The image is doubled as often as needed to reach the target size, then resized to the exact size with the
+ * classic a = -1 cubic, which also weights the gap pixels. As in the reference algorithm, each doubling puts the source pixels on the top-left pixel of
+ * its 2x2 blocks, which moves the content up and left of center by half a pixel of each doubling's output. The
+ * final resize samples that much further up and left, so the result is centered like every other method's, and it
+ * therefore runs even when the doublings already reach the target size.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} source - The source pixel data and dimensions.
+ * @param {number} targetWidth - The width of the output image in pixels.
+ * @param {number} targetHeight - The height of the output image in pixels.
+ * @param {object} [options] - Upscaling options.
+ * @param {string} [options.edgeMode='clamp'] - How samples outside the image are filled in by the final resize.
+ * @param {boolean} [options.linearLight=false] - Whether the final resize interpolates in linear light.
+ * @param {(fraction: number) => void} [options.onProgress] - Receives the completed fraction (0 to 1).
+ * @param {AbortSignal} [options.signal] - Aborting it stops the upscale at the next row.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} A new RGBA buffer with the enlarged image.
+ * @throws {DOMException} An `AbortError` if `options.signal` is aborted.
+ */
+export function upscaleEdgeDirected(source, targetWidth, targetHeight, options = {}) {
+  const { edgeMode = "clamp", linearLight = false, onProgress, signal } = options;
+  const ratio = Math.max(targetWidth / source.width, targetHeight / source.height);
+  const doublings = Math.max(0, Math.ceil(Math.log2(ratio)));
+
+  const needsFinalResize = doublings > 0 || source.width !== targetWidth || source.height !== targetHeight;
+  const doublingShare = needsFinalResize ? DOUBLING_PROGRESS_SHARE : 1;
+  // Each doubling processes its output rows one and a half times: half of them in the diagonal pass, all in the second
+  let totalRows = 0;
+  for (let i = 1; i <= doublings; i++) totalRows += 1.5 * source.height * 2 ** i;
+  const advanceProgress = createProgressTracker(totalRows, (fraction) => onProgress?.(fraction * doublingShare));
+
+  let image = source;
+  for (let i = 0; i < doublings; i++) {
+    image = doubleImage(image, advanceProgress, signal);
+  }
+  if (!needsFinalResize) return image;
+
+  const data = new Uint8ClampedArray(targetWidth * targetHeight * 4);
+  const { b, c } = FINAL_CUBIC;
+  // The doublings put source pixel i at doubled pixel i * 2^k rather than at the center of its 2^k pixels, so every
+  // sample position moves by (2^k - 1) / 2 doubled pixels to land where the centered layout has it
+  const shift = -(2 ** doublings - 1) / 2;
+  const filter = { kernel: (t) => cubicWeight(t, b, c), radius: 2, edgeMode, linearLight, shift };
+  const control = {
+    signal,
+    onProgress: (fraction) => onProgress?.(doublingShare + (1 - doublingShare) * fraction),
+  };
+  resampleSeparable(image.data, image.width, image.height, data, targetWidth, targetHeight, filter, {}, control);
+  return { data, width: targetWidth, height: targetHeight };
+}
+
+/**
+ * @overview Doubles the width and height of an image with one round of DCCI.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The image to enlarge.
+ * @param {(units?: number) => void} advanceProgress - Called once per processed output row.
+ * @param {AbortSignal} [signal] - Aborting it stops the doubling at the next row.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The image at twice the size.
+ * @throws {DOMException} An `AbortError` if `signal` is aborted.
+ */
+function doubleImage(image, advanceProgress, signal) {
+  const width = image.width * 2;
+  const height = image.height * 2;
+  const data = new Uint8ClampedArray(width * height * 4);
+  // Luminance (premultiplied by alpha) of every pixel filled so far, used for the gradients
+  const luma = new Float32Array(width * height);
+
+  // Clamps into the image in steps of two, so a coordinate keeps its parity and lands on an already filled pixel
+  const at = (x, y) => {
+    while (x < 0) x += 2;
+    while (x > width - 1) x -= 2;
+    while (y < 0) y += 2;
+    while (y > height - 1) y -= 2;
+    return y * width + x;
+  };
+  const gradient = (x, y, pairs) => {
+    let sum = 0;
+    for (const [dx1, dy1, dx2, dy2] of pairs) {
+      sum += Math.abs(luma[at(x + dx1, y + dy1)] - luma[at(x + dx2, y + dy2)]);
+    }
+    return sum;
+  };
+
+  // Source pixels go to the even positions
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const sourceIndex = (y * image.width + x) * 4;
+      const index = 2 * y * width + 2 * x;
+      data.set(image.data.subarray(sourceIndex, sourceIndex + 4), index * 4);
+      luma[index] = getLuma(data, index);
+    }
+  }
+
+  // First pass: pixels between four source pixels, interpolated along one of the two diagonals
+  for (let y = 1; y < height; y += 2) {
+    throwIfAborted(signal);
+    for (let x = 1; x < width; x += 2) {
+      const upRight = [at(x - 3, y + 3), at(x - 1, y + 1), at(x + 1, y - 1), at(x + 3, y - 3)];
+      const downRight = [at(x - 3, y - 3), at(x - 1, y - 1), at(x + 1, y + 1), at(x + 3, y + 3)];
+      interpolateDirectional(data, luma, y * width + x, upRight, gradient(x, y, UP_RIGHT_PAIRS), downRight, gradient(x, y, DOWN_RIGHT_PAIRS));
+    }
+    advanceProgress();
+  }
+
+  // Second pass: the remaining pixels, whose horizontal and vertical neighbours are now all known
+  for (let y = 0; y < height; y++) {
+    throwIfAborted(signal);
+    for (let x = y % 2 === 0 ? 1 : 0; x < width; x += 2) {
+      const horizontal = [at(x - 3, y), at(x - 1, y), at(x + 1, y), at(x + 3, y)];
+      const vertical = [at(x, y - 3), at(x, y - 1), at(x, y + 1), at(x, y + 3)];
+      interpolateDirectional(data, luma, y * width + x, horizontal, gradient(x, y, HORIZONTAL_PAIRS), vertical, gradient(x, y, VERTICAL_PAIRS));
+    }
+    advanceProgress();
+  }
+
+  return { data, width, height };
+}
+
+/**
+ * @overview Fills one pixel from two candidate lines of four known pixels. If the gradient along one line is
+ * clearly stronger, an edge runs along the other line and only that one is used; otherwise both are blended,
+ * favouring the smoother direction.
+ *
+ * @param {Uint8ClampedArray} data - The RGBA buffer being filled.
+ * @param {Float32Array} luma - The luminance of the filled pixels; updated for the new pixel.
+ * @param {number} index - The pixel to fill.
+ * @param {number[]} lineA - The four pixels of the first direction, in order.
+ * @param {number} gradientA - The summed luminance differences along the first direction.
+ * @param {number[]} lineB - The four pixels of the second direction, in order.
+ * @param {number} gradientB - The summed luminance differences along the second direction.
+ *
+ * @returns {void}
+ */
+function interpolateDirectional(data, luma, index, lineA, gradientA, lineB, gradientB) {
+  let weightA;
+  if ((1 + gradientA) / (1 + gradientB) > EDGE_THRESHOLD) {
+    weightA = 0;
+  } else if ((1 + gradientB) / (1 + gradientA) > EDGE_THRESHOLD) {
+    weightA = 1;
+  } else {
+    const smoothnessA = 1 / (1 + gradientA ** SMOOTH_EXPONENT);
+    const smoothnessB = 1 / (1 + gradientB ** SMOOTH_EXPONENT);
+    weightA = smoothnessA / (smoothnessA + smoothnessB);
+  }
+
+  // Interpolate premultiplied by alpha, so transparent neighbours do not darken the color
+  let red = 0;
+  let green = 0;
+  let blue = 0;
+  let alpha = 0;
+  for (const [line, lineWeight] of [[lineA, weightA], [lineB, 1 - weightA]]) {
+    if (lineWeight === 0) continue;
+    for (let i = 0; i < 4; i++) {
+      const pixel = line[i] * 4;
+      const weight = HALFWAY_WEIGHTS[i] * lineWeight;
+      const weightedAlpha = data[pixel + 3] * weight;
+      red += data[pixel] * weightedAlpha;
+      green += data[pixel + 1] * weightedAlpha;
+      blue += data[pixel + 2] * weightedAlpha;
+      alpha += weightedAlpha;
+    }
+  }
+
+  const target = index * 4;
+  data[target] = alpha > 0 ? red / alpha : 0;
+  data[target + 1] = alpha > 0 ? green / alpha : 0;
+  data[target + 2] = alpha > 0 ? blue / alpha : 0;
+  data[target + 3] = alpha;
+  luma[index] = getLuma(data, index);
+}
+
+/**
+ * @overview Computes the luminance of a pixel premultiplied by its alpha, so transparent pixels count as dark.
+ *
+ * @param {Uint8ClampedArray} data - The RGBA buffer.
+ * @param {number} index - The pixel index.
+ *
+ * @returns {number} The luminance in the range [0, 255].
+ */
+function getLuma(data, index) {
+  const offset = index * 4;
+  return (0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]) * (data[offset + 3] / 255);
+}
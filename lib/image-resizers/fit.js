@@ -0,0 +1,142 @@
+/**
+ * @file lib/image-resizers/fit.js
+ * @author Anshi
+ * @description Fit modes and gravity: how an image is scaled into a target box, and padding or cropping it to the box.
+ * @lastUpdated 2026-10-19
+ */
+
+// How the image is fitted into the requested width and height
+export const FIT_MODES = ["fill", "contain", "cover", "inside", "outside"];
+
+// Anchor of each named gravity as fractions of the free (contain) or overflowing (cover) space, from the top-left
+export const GRAVITIES = {
+  northwest: { x: 0, y: 0 },
+  north: { x: 0.5, y: 0 },
+  northeast: { x: 1, y: 0 },
+  west: { x: 0, y: 0.5 },
+  center: { x: 0.5, y: 0.5 },
+  east: { x: 1, y: 0.5 },
+  southwest: { x: 0, y: 1 },
+  south: { x: 0.5, y: 1 },
+  southeast: { x: 1, y: 1 },
+};
+
+/**
+ * @overview Works out how to fit an image into a target box:
+ * - 'fill' stretches the image to exactly the box, ignoring its aspect ratio.
+ * - 'inside' scales it, keeping the aspect ratio, to the largest size that fits within the box.
+ * - 'outside' scales it, keeping the aspect ratio, to the smallest size that covers the box.
+ * - 'contain' scales it like 'inside', then pads it to exactly the box.
+ * - 'cover' scales it like 'outside', then crops it to exactly the box.
+ * The gravity decides where the padding goes or which part survives the crop.
+ *
+ * @param {number} sourceWidth - The width of the source image.
+ * @param {number} sourceHeight - The height of the source image.
+ * @param {number} boxWidth - The requested width.
+ * @param {number} boxHeight - The requested height.
+ * @param {('fill' | 'contain' | 'cover' | 'inside' | 'outside')} [fit='fill'] - The fit mode.
+ * @param {string | {x: number, y: number}} [gravity='center'] - A key of `GRAVITIES`, or a focal point given as
+ * fractions (0 to 1) of the image's width and height that is kept as close to the box's center as possible.
+ *
+ * @returns {{width: number, height: number, placement: {width: number, height: number, left: number, top: number} | null}}
+ * The size to resample the image to, and, for 'contain' and 'cover', the output size and the position of the
+ * resampled image within it (negative when cropped); `placement` is null when the resampled image is the output.
+ * @throws {Error} If the fit mode or gravity is unknown.
+ */
+export function computeFitLayout(sourceWidth, sourceHeight, boxWidth, boxHeight, fit = "fill", gravity = "center") {
+  if (!FIT_MODES.includes(fit)) {
+    throw new Error("Unknown fit mode: " + fit);
+  }
+  if (fit === "fill") {
+    return { width: boxWidth, height: boxHeight, placement: null };
+  }
+
+  const scaleX = boxWidth / sourceWidth;
+  const scaleY = boxHeight / sourceHeight;
+  const shrinkToBox = fit === "inside" || fit === "contain";
+  const scale = shrinkToBox ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+
+  // The limiting side matches the box exactly; the other is rounded without crossing the box
+  const roundToBox = (size, box) => Math.max(1, shrinkToBox ? Math.min(box, Math.round(size)) : Math.max(box, Math.round(size)));
+  const width = scale === scaleX ? boxWidth : roundToBox(sourceWidth * scale, boxWidth);
+  const height = scale === scaleY ? boxHeight : roundToBox(sourceHeight * scale, boxHeight);
+
+  if (fit === "inside" || fit === "outside") {
+    return { width, height, placement: null };
+  }
+
+  const anchor = resolveGravity(gravity, width, height, boxWidth, boxHeight);
+  // A crop anchored at 0 would otherwise come out as -0
+  const offset = (space, fraction) => Math.round(space * fraction) || 0;
+  return {
+    width,
+    height,
+    placement: {
+      width: boxWidth,
+      height: boxHeight,
+      left: offset(boxWidth - width, anchor.x),
+      top: offset(boxHeight - height, anchor.y),
+    },
+  };
+}
+
+/**
+ * @overview Copies an image onto a canvas of another size at the given position, filling the uncovered area with
+ * a background color. Used to pad ('contain') or crop ('cover') the resampled image to the requested box.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The resampled image.
+ * @param {{width: number, height: number, left: number, top: number}} placement - The output size and the position
+ * of the image's top-left corner within it (see `computeFitLayout`).
+ * @param {number[]} [background=[0, 0, 0, 0]] - The RGBA padding color (transparent by default).
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} A new RGBA buffer with the placed image.
+ */
+export function placeImage(image, placement, background = [0, 0, 0, 0]) {
+  const { width, height, left, top } = placement;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const fill = new Uint32Array(data.buffer);
+  fill.fill(new Uint32Array(new Uint8ClampedArray(background).buffer)[0]);
+
+  // Copy the part of each image row that falls inside the output
+  const startX = Math.max(0, left);
+  const endX = Math.min(width, left + image.width);
+  if (endX <= startX) return { data, width, height };
+  for (let y = Math.max(0, top); y < Math.min(height, top + image.height); y++) {
+    const sourceRow = (y - top) * image.width;
+    data.set(
+      image.data.subarray((sourceRow + startX - left) * 4, (sourceRow + endX - left) * 4),
+      (y * width + startX) * 4,
+    );
+  }
+  return { data, width, height };
+}
+
+/**
+ * @overview Resolves a gravity to the anchor used by `computeFitLayout`. A named gravity is used as is; a focal
+ * point is converted to the anchor that centers it in the box, as far as the image allows.
+ *
+ * @param {string | {x: number, y: number}} gravity - A key of `GRAVITIES` or a focal point.
+ * @param {number} width - The width of the resampled image.
+ * @param {number} height - The height of the resampled image.
+ * @param {number} boxWidth - The output width.
+ * @param {number} boxHeight - The output height.
+ *
+ * @returns {{x: number, y: number}} The anchor as fractions (0 to 1) of the free or overflowing space.
+ * @throws {Error} If the gravity is unknown or the focal point lies outside the image.
+ */
+function resolveGravity(gravity, width, height, boxWidth, boxHeight) {
+  if (typeof gravity === "string") {
+    if (!Object.keys(GRAVITIES).includes(gravity)) {
+      throw new Error("Unknown gravity: " + gravity);
+    }
+    return GRAVITIES[gravity];
+  }
+
+  const { x, y } = gravity;
+  if (!(x >= 0 && x <= 1 && y >= 0 && y <= 1)) {
+    throw new Error(`Invalid focal point: ${x}, ${y}`);
+  }
+  // Anchor that puts the focal point on the box center, clamped so the image still covers (or stays inside) the box
+  const anchorFor = (focus, size, box) => (size === box ? 0.5 : Math.min(1, Math.max(0, (box / 2 - focus * size) / (box - size))));
+  return { x: anchorFor(x, width, boxWidth), y: anchorFor(y, height, boxHeight) };
+}
@@ -0,0 +1,393 @@
+/**
+ * @file lib/image-resizers/hqxTables.js
+ * @author Harsh
+ * @description The hq2x, hq3x and hq4x lookup tables, giving the blend each output pixel is made of for every
+ * pattern of similar and different neighbours.
+ * @lastUpdated 2026-10-19
+ */
+
+// Pairs of orthogonal neighbours (positions in the 3x3 neighbourhood, read row by row) whose difference decides
+// some entries, named after the corner they meet at
+const TOP_LEFT = [1, 3];
+const TOP_RIGHT = [1, 5];
+const BOTTOM_LEFT = [3, 7];
+
+/**
+ * @overview The hqx lookup tables for each scale factor. hqx enlarges each source pixel into a `factor` x `factor`
+ * block and fills its four quarters by the same rules, turned to face each corner, so only the top-left quarter is
+ * tabulated: one table per output pixel in it, listed row by row (for 3x, the corner and the edge pixel
+ * next to it; the center pixel is always the source pixel's own color).
+ *
+ * A table is indexed by the pattern of neighbours that differ from the center pixel, with bits 0 to 7 standing for
+ * the top-left, top, top-right, left, right, bottom-left, bottom and bottom-right neighbours. Each entry is a blend,
+ * written as the hexadecimal weights of the center, top, left and top-left pixels: "2110" is twice the center plus
+ * the top and the left neighbour, divided by the sum of the weights (4). Some entries depend on whether two neighbours differ from each
+ * other as well: `[pair, blendIfDifferent, blendIfSimilar]`.
+ * @constant {Object<number, Array<Array<string | [number[], string, string]>>>}
+ */
+export const HQX_TABLES = {
+  2: [
+    // Pixel (0, 0)
+    [
+      /* 00 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* 08 */ "2101", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2110"],
+      /* 0c */ "2101", "3100", [TOP_LEFT, "3001", "2330"], [TOP_LEFT, "1000", "2330"],
+      /* 10 */ "2110", "2110", "2011", [TOP_RIGHT, "3010", "5210"],
+      /* 14 */ "2110", "2110", "2011", [TOP_RIGHT, "3010", "5210"],
+      /* 18 */ "2101", "3100", [TOP_LEFT, "1000", "2110"], [TOP_LEFT, "1000", "2110"],
+      /* 1c */ "2101", "3100", "3001", [TOP_LEFT, "1000", "2110"],
+      /* 20 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* 28 */ "2101", "3100", [TOP_LEFT, "3001", "2330"], [TOP_LEFT, "1000", "2330"],
+      /* 2c */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "e110"],
+      /* 30 */ "2110", "2110", "2011", [TOP_RIGHT, "3010", "5210"],
+      /* 34 */ "2110", "2110", "2011", [TOP_RIGHT, "3010", "5210"],
+      /* 38 */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2110"],
+      /* 3c */ "2101", "3100", "3001", [TOP_LEFT, "1000", "e110"],
+      /* 40 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* 48 */ "2101", [BOTTOM_LEFT, "3100", "5120"], [TOP_LEFT, "1000", "2110"], [TOP_LEFT, "1000", "2110"],
+      /* 4c */ "2101", [BOTTOM_LEFT, "3100", "5120"], [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2110"],
+      /* 50 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* 58 */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2110"],
+      /* 5c */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2110"],
+      /* 60 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* 68 */ "2101", [BOTTOM_LEFT, "3100", "5120"], "3001", [TOP_LEFT, "1000", "2110"],
+      /* 6c */ "2101", [BOTTOM_LEFT, "3100", "5120"], "3001", [TOP_LEFT, "1000", "e110"],
+      /* 70 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", [TOP_RIGHT, "3010", "5210"],
+      /* 78 */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2110"],
+      /* 7c */ "2101", [BOTTOM_LEFT, "3100", "5120"], "3001", [TOP_LEFT, "1000", "e110"],
+      /* 80 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* 88 */ "2101", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2110"],
+      /* 8c */ "2101", "3100", [TOP_LEFT, "3001", "2330"], [TOP_LEFT, "1000", "2330"],
+      /* 90 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* 98 */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2110"],
+      /* 9c */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2110"],
+      /* a0 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* a8 */ "2101", "3100", [TOP_LEFT, "3001", "2330"], [TOP_LEFT, "1000", "2330"],
+      /* ac */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "e110"],
+      /* b0 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* b8 */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2330"],
+      /* bc */ "2101", "3100", "3001", [TOP_LEFT, "1000", "e110"],
+      /* c0 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* c8 */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2110"],
+      /* cc */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2330"],
+      /* d0 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* d8 */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2110"],
+      /* dc */ "2101", "3100", "3001", [TOP_LEFT, "1000", "2110"],
+      /* e0 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* e8 */ "2101", "3100", [TOP_LEFT, "3001", "6110"], [TOP_LEFT, "1000", "2110"],
+      /* ec */ "2101", "3100", "3001", [TOP_LEFT, "1000", "e110"],
+      /* f0 */ "2110", "2110", "2011", "3010", "2110", "2110", "2011", "3010",
+      /* f8 */ "2101", "3100", "3001", [TOP_LEFT, "1000", "2110"],
+      /* fc */ "2101", "3100", "3001", [TOP_LEFT, "1000", "e110"],
+    ],
+  ],
+  3: [
+    // Pixel (0, 0)
+    [
+      /* 00 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* 08 */ "3001", "3100", [TOP_LEFT, "3001", "2770"], [TOP_LEFT, "1000", "2770"],
+      /* 0c */ "3001", "3100", [TOP_LEFT, "3001", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* 10 */ "2110", "2110", "3001", [TOP_RIGHT, "3010", "2110"],
+      /* 14 */ "2110", "2110", "3001", [TOP_RIGHT, "3010", "2110"],
+      /* 18 */ "3001", "3100", [TOP_LEFT, "1000", "2770"], [TOP_LEFT, "1000", "2770"],
+      /* 1c */ "3001", "3100", "3001", [TOP_LEFT, "1000", "2770"],
+      /* 20 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* 28 */ "3001", "3100", [TOP_LEFT, "3001", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* 2c */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2110"],
+      /* 30 */ "2110", "2110", "3001", [TOP_RIGHT, "3010", "2110"],
+      /* 34 */ "2110", "2110", "3001", [TOP_RIGHT, "3010", "2110"],
+      /* 38 */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2770"],
+      /* 3c */ "3001", "3100", "3001", [TOP_LEFT, "1000", "2110"],
+      /* 40 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* 48 */ "3001", [BOTTOM_LEFT, "3100", "2110"], [TOP_LEFT, "1000", "2770"], [TOP_LEFT, "1000", "2770"],
+      /* 4c */ "3001", [BOTTOM_LEFT, "3100", "2110"], [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2770"],
+      /* 50 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* 58 */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2770"],
+      /* 5c */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2770"],
+      /* 60 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* 68 */ "3001", [BOTTOM_LEFT, "3100", "2110"], "3001", [TOP_LEFT, "1000", "2770"],
+      /* 6c */ "3001", [BOTTOM_LEFT, "3100", "2110"], "3001", [TOP_LEFT, "1000", "2110"],
+      /* 70 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", [TOP_RIGHT, "3010", "2110"],
+      /* 78 */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2770"],
+      /* 7c */ "3001", [BOTTOM_LEFT, "3100", "2110"], "3001", [TOP_LEFT, "1000", "2110"],
+      /* 80 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* 88 */ "3001", "3100", [TOP_LEFT, "3001", "2770"], [TOP_LEFT, "1000", "2770"],
+      /* 8c */ "3001", "3100", [TOP_LEFT, "3001", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* 90 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* 98 */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2770"],
+      /* 9c */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2770"],
+      /* a0 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* a8 */ "3001", "3100", [TOP_LEFT, "3001", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* ac */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2110"],
+      /* b0 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* b8 */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* bc */ "3001", "3100", "3001", [TOP_LEFT, "1000", "2110"],
+      /* c0 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* c8 */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2770"],
+      /* cc */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* d0 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* d8 */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2770"],
+      /* dc */ "3001", "3100", "3001", [TOP_LEFT, "1000", "2770"],
+      /* e0 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* e8 */ "3001", "3100", [TOP_LEFT, "3001", "2110"], [TOP_LEFT, "1000", "2770"],
+      /* ec */ "3001", "3100", "3001", [TOP_LEFT, "1000", "2110"],
+      /* f0 */ "2110", "2110", "3001", "3010", "2110", "2110", "3001", "3010",
+      /* f8 */ "3001", "3100", "3001", [TOP_LEFT, "1000", "2770"],
+      /* fc */ "3001", "3100", "3001", [TOP_LEFT, "1000", "2110"],
+    ],
+    // Pixel (1, 0)
+    [
+      /* 00 */ "3100", "3100", "1000", "1000", "3100", "3100", "1000", "1000",
+      /* 08 */ "3100", "3100", [TOP_LEFT, "1000", "7100"], [TOP_LEFT, "1000", "7100"],
+      /* 0c */ "3100", "3100", [TOP_LEFT, "1000", "1300"], [TOP_LEFT, "1000", "1300"],
+      /* 10 */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], [TOP_RIGHT, "1000", "1300"],
+      /* 14 */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], [TOP_RIGHT, "1000", "1300"],
+      /* 18 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"],
+      /* 1c */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], "1000",
+      /* 20 */ "3100", "3100", "1000", "1000", "3100", "3100", "1000", "1000",
+      /* 28 */ "3100", "3100", [TOP_LEFT, "1000", "3100"], [TOP_LEFT, "1000", "3100"],
+      /* 2c */ "3100", "3100", "1000", "1000",
+      /* 30 */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], [TOP_RIGHT, "1000", "1300"],
+      /* 34 */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], [TOP_RIGHT, "1000", "1300"],
+      /* 38 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"],
+      /* 3c */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], "1000",
+      /* 40 */ "3100", "3100", "1000", "1000", "3100", "3100", "1000", "1000",
+      /* 48 */ "3100", "3100", [TOP_LEFT, "1000", "7100"], [TOP_LEFT, "1000", "7100"],
+      /* 4c */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"],
+      /* 50 */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], "1000",
+      /* 54 */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], [TOP_RIGHT, "1000", "7100"],
+      /* 58 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"],
+      /* 5c */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], "1000",
+      /* 60 */ "3100", "3100", "1000", "1000", "3100", "3100", "1000", "1000",
+      /* 68 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"], "3100", "3100", "1000", "1000",
+      /* 70 */ "3100", "3100", "1000", "1000",
+      /* 74 */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], [TOP_RIGHT, "1000", "1300"],
+      /* 78 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"],
+      /* 7c */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], [TOP_LEFT, "1000", "7100"],
+      /* 80 */ "3100", "3100", "1000", "1000", "3100", "3100", "1000", "1000",
+      /* 88 */ "3100", "3100", [TOP_LEFT, "1000", "7100"], [TOP_LEFT, "1000", "7100"],
+      /* 8c */ "3100", "3100", [TOP_LEFT, "1000", "1300"], [TOP_LEFT, "1000", "1300"],
+      /* 90 */ "3100", "3100", [TOP_RIGHT, "1000", "3100"], "1000",
+      /* 94 */ "3100", "3100", [TOP_RIGHT, "1000", "3100"], "1000",
+      /* 98 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"],
+      /* 9c */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], "1000",
+      /* a0 */ "3100", "3100", "1000", "1000", "3100", "3100", "1000", "1000",
+      /* a8 */ "3100", "3100", [TOP_LEFT, "1000", "3100"], [TOP_LEFT, "1000", "3100"],
+      /* ac */ "3100", "3100", "1000", "1000",
+      /* b0 */ "3100", "3100", [TOP_RIGHT, "1000", "3100"], "1000",
+      /* b4 */ "3100", "3100", [TOP_RIGHT, "1000", "3100"], "1000",
+      /* b8 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "3100"],
+      /* bc */ "3100", "3100", [TOP_RIGHT, "1000", "3100"], "1000",
+      /* c0 */ "3100", "3100", "1000", "1000", "3100", "3100", "1000", "1000",
+      /* c8 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"],
+      /* cc */ "3100", "3100", "1000", [TOP_LEFT, "1000", "1300"],
+      /* d0 */ "3100", "3100", "1000", "1000", "3100", "3100", [TOP_RIGHT, "1000", "7100"], "1000",
+      /* d8 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"],
+      /* dc */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], [TOP_RIGHT, "1000", "7100"],
+      /* e0 */ "3100", "3100", "1000", "1000", "3100", "3100", "1000", "1000",
+      /* e8 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"], "3100", "3100", "1000", "1000",
+      /* f0 */ "3100", "3100", "1000", "1000", "3100", "3100", [TOP_RIGHT, "1000", "7100"], "1000",
+      /* f8 */ "3100", "3100", "1000", [TOP_LEFT, "1000", "7100"],
+      /* fc */ "3100", "3100", [TOP_RIGHT, "1000", "7100"], "1000",
+    ],
+  ],
+  4: [
+    // Pixel (0, 0)
+    [
+      /* 00 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* 08 */ "5003", "5300", [TOP_LEFT, "5003", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* 0c */ "5003", "5300", [TOP_LEFT, "5003", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* 10 */ "2110", "2110", "5003", [TOP_RIGHT, "5030", "3100"],
+      /* 14 */ "2110", "2110", "5003", [TOP_RIGHT, "5030", "3100"],
+      /* 18 */ "5003", "5300", [TOP_LEFT, "1000", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* 1c */ "5003", "5300", "5003", [TOP_LEFT, "1000", "0110"],
+      /* 20 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* 28 */ "5003", "5300", [TOP_LEFT, "5003", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* 2c */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "2110"],
+      /* 30 */ "2110", "2110", "5003", [TOP_RIGHT, "5030", "3100"],
+      /* 34 */ "2110", "2110", "5003", [TOP_RIGHT, "5030", "3100"],
+      /* 38 */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* 3c */ "5003", "5300", "5003", [TOP_LEFT, "1000", "2110"],
+      /* 40 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* 48 */ "5003", [BOTTOM_LEFT, "5300", "3010"], [TOP_LEFT, "1000", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* 4c */ "5003", [BOTTOM_LEFT, "5300", "3010"], [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* 50 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* 58 */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* 5c */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* 60 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* 68 */ "5003", [BOTTOM_LEFT, "5300", "3010"], "5003", [TOP_LEFT, "1000", "0110"],
+      /* 6c */ "5003", [BOTTOM_LEFT, "5300", "3010"], "5003", [TOP_LEFT, "1000", "2110"],
+      /* 70 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", [TOP_RIGHT, "5030", "3100"],
+      /* 78 */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* 7c */ "5003", [BOTTOM_LEFT, "5300", "3010"], "5003", [TOP_LEFT, "1000", "2110"],
+      /* 80 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* 88 */ "5003", "5300", [TOP_LEFT, "5003", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* 8c */ "5003", "5300", [TOP_LEFT, "5003", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* 90 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* 98 */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* 9c */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* a0 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* a8 */ "5003", "5300", [TOP_LEFT, "5003", "0110"], [TOP_LEFT, "1000", "0110"],
+      /* ac */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "2110"],
+      /* b0 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* b8 */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* bc */ "5003", "5300", "5003", [TOP_LEFT, "1000", "2110"],
+      /* c0 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* c8 */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* cc */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* d0 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* d8 */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* dc */ "5003", "5300", "5003", [TOP_LEFT, "1000", "0110"],
+      /* e0 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* e8 */ "5003", "5300", [TOP_LEFT, "5003", "2110"], [TOP_LEFT, "1000", "0110"],
+      /* ec */ "5003", "5300", "5003", [TOP_LEFT, "1000", "2110"],
+      /* f0 */ "2110", "2110", "5003", "5030", "2110", "2110", "5003", "5030",
+      /* f8 */ "5003", "5300", "5003", [TOP_LEFT, "1000", "0110"],
+      /* fc */ "5003", "5300", "5003", [TOP_LEFT, "1000", "2110"],
+    ],
+    // Pixel (1, 0)
+    [
+      /* 00 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* 08 */ "5201", "5300", [TOP_LEFT, "3001", "1100"], [TOP_LEFT, "1000", "1100"],
+      /* 0c */ "5201", "5300", [TOP_LEFT, "3001", "0530"], [TOP_LEFT, "1000", "0530"],
+      /* 10 */ "5210", "5210", "3001", [TOP_RIGHT, "7010", "1300"],
+      /* 14 */ "5210", "5210", "3001", [TOP_RIGHT, "7010", "1300"],
+      /* 18 */ "5201", "5300", [TOP_LEFT, "1000", "1100"], [TOP_LEFT, "1000", "1100"],
+      /* 1c */ "5201", "5300", "3001", [TOP_LEFT, "1000", "1100"],
+      /* 20 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* 28 */ "5201", "5300", [TOP_LEFT, "3001", "1210"], [TOP_LEFT, "1000", "1210"],
+      /* 2c */ "5201", "5300", [TOP_LEFT, "3001", "3100"], "1000",
+      /* 30 */ "5210", "5210", "3001", [TOP_RIGHT, "7010", "1300"],
+      /* 34 */ "5210", "5210", "3001", [TOP_RIGHT, "7010", "1300"],
+      /* 38 */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1100"],
+      /* 3c */ "5201", "5300", "3001", "1000",
+      /* 40 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* 48 */ "5201", "5300", [TOP_LEFT, "1000", "1100"], [TOP_LEFT, "1000", "1100"],
+      /* 4c */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1100"],
+      /* 50 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* 58 */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1100"],
+      /* 5c */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1100"],
+      /* 60 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* 68 */ "5201", "5300", "3001", [TOP_LEFT, "1000", "1100"], "5201", "5300", "3001", "1000",
+      /* 70 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", [TOP_RIGHT, "7010", "1300"],
+      /* 78 */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1100"],
+      /* 7c */ "5201", "5300", "3001", "1000",
+      /* 80 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* 88 */ "5201", "5300", [TOP_LEFT, "3001", "1100"], [TOP_LEFT, "1000", "1100"],
+      /* 8c */ "5201", "5300", [TOP_LEFT, "3001", "0530"], [TOP_LEFT, "1000", "0530"],
+      /* 90 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* 98 */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1100"],
+      /* 9c */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1100"],
+      /* a0 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* a8 */ "5201", "5300", [TOP_LEFT, "3001", "1210"], [TOP_LEFT, "1000", "1210"],
+      /* ac */ "5201", "5300", [TOP_LEFT, "3001", "3100"], "1000",
+      /* b0 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* b8 */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1210"],
+      /* bc */ "5201", "5300", "3001", "1000",
+      /* c0 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* c8 */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1100"],
+      /* cc */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "0530"],
+      /* d0 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* d8 */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1100"],
+      /* dc */ "5201", "5300", "3001", [TOP_LEFT, "1000", "1100"],
+      /* e0 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* e8 */ "5201", "5300", [TOP_LEFT, "3001", "3100"], [TOP_LEFT, "1000", "1100"],
+      /* ec */ "5201", "5300", "3001", "1000",
+      /* f0 */ "5210", "5210", "3001", "7010", "5210", "5210", "3001", "7010",
+      /* f8 */ "5201", "5300", "3001", [TOP_LEFT, "1000", "1100"], "5201", "5300", "3001", "1000",
+    ],
+    // Pixel (0, 1)
+    [
+      /* 00 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* 08 */ "3001", "7100", [TOP_LEFT, "3001", "1010"], [TOP_LEFT, "1000", "1010"],
+      /* 0c */ "3001", "7100", [TOP_LEFT, "3001", "1120"], [TOP_LEFT, "1000", "1120"],
+      /* 10 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* 18 */ "3001", "7100", [TOP_LEFT, "1000", "1010"], [TOP_LEFT, "1000", "1010"],
+      /* 1c */ "3001", "7100", "3001", [TOP_LEFT, "1000", "1010"],
+      /* 20 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* 28 */ "3001", "7100", [TOP_LEFT, "3001", "0350"], [TOP_LEFT, "1000", "0350"],
+      /* 2c */ "3001", "7100", [TOP_LEFT, "3001", "3010"], "1000",
+      /* 30 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* 38 */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1010"],
+      /* 3c */ "3001", "7100", "3001", "1000",
+      /* 40 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* 48 */ "3001", [BOTTOM_LEFT, "7100", "1030"], [TOP_LEFT, "1000", "1010"], [TOP_LEFT, "1000", "1010"],
+      /* 4c */ "3001", [BOTTOM_LEFT, "7100", "1030"], [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1010"],
+      /* 50 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* 58 */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1010"],
+      /* 5c */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1010"],
+      /* 60 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* 68 */ "3001", [BOTTOM_LEFT, "7100", "1030"], "3001", [TOP_LEFT, "1000", "1010"],
+      /* 6c */ "3001", [BOTTOM_LEFT, "7100", "1030"], "3001", "1000",
+      /* 70 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* 78 */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1010"],
+      /* 7c */ "3001", [BOTTOM_LEFT, "7100", "1030"], "3001", "1000",
+      /* 80 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* 88 */ "3001", "7100", [TOP_LEFT, "3001", "1010"], [TOP_LEFT, "1000", "1010"],
+      /* 8c */ "3001", "7100", [TOP_LEFT, "3001", "1120"], [TOP_LEFT, "1000", "1120"],
+      /* 90 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* 98 */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1010"],
+      /* 9c */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1010"],
+      /* a0 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* a8 */ "3001", "7100", [TOP_LEFT, "3001", "0350"], [TOP_LEFT, "1000", "0350"],
+      /* ac */ "3001", "7100", [TOP_LEFT, "3001", "3010"], "1000",
+      /* b0 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* b8 */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "0350"],
+      /* bc */ "3001", "7100", "3001", "1000",
+      /* c0 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* c8 */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1010"],
+      /* cc */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1120"],
+      /* d0 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* d8 */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1010"],
+      /* dc */ "3001", "7100", "3001", [TOP_LEFT, "1000", "1010"],
+      /* e0 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* e8 */ "3001", "7100", [TOP_LEFT, "3001", "3010"], [TOP_LEFT, "1000", "1010"],
+      /* ec */ "3001", "7100", "3001", "1000",
+      /* f0 */ "5120", "5120", "5021", "5030", "5120", "5120", "5021", "5030",
+      /* f8 */ "3001", "7100", "3001", [TOP_LEFT, "1000", "1010"], "3001", "7100", "3001", "1000",
+    ],
+    // Pixel (1, 1)
+    [
+      /* 00 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* 08 */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000",
+      /* 0c */ "7001", "7100", [TOP_LEFT, "7001", "6110"], [TOP_LEFT, "1000", "6110"],
+      /* 10 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* 18 */ "7001", "7100", "1000", "1000", "7001", "7100", "7001", "1000",
+      /* 20 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* 28 */ "7001", "7100", [TOP_LEFT, "7001", "6110"], [TOP_LEFT, "1000", "6110"],
+      /* 2c */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000",
+      /* 30 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* 38 */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000", "7001", "7100", "7001", "1000",
+      /* 40 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* 48 */ "7001", "7100", "1000", "1000", "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000",
+      /* 50 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* 58 */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000",
+      /* 5c */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000",
+      /* 60 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* 68 */ "7001", "7100", "7001", "1000", "7001", "7100", "7001", "1000",
+      /* 70 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* 78 */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000", "7001", "7100", "7001", "1000",
+      /* 80 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* 88 */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000",
+      /* 8c */ "7001", "7100", [TOP_LEFT, "7001", "6110"], [TOP_LEFT, "1000", "6110"],
+      /* 90 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* 98 */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000",
+      /* 9c */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000",
+      /* a0 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* a8 */ "7001", "7100", [TOP_LEFT, "7001", "6110"], [TOP_LEFT, "1000", "6110"],
+      /* ac */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000",
+      /* b0 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* b8 */ "7001", "7100", [TOP_LEFT, "7001", "1000"], [TOP_LEFT, "1000", "6110"],
+      /* bc */ "7001", "7100", "7001", "1000",
+      /* c0 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* c8 */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000",
+      /* cc */ "7001", "7100", [TOP_LEFT, "7001", "1000"], [TOP_LEFT, "1000", "6110"],
+      /* d0 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* d8 */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000", "7001", "7100", "7001", "1000",
+      /* e0 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* e8 */ "7001", "7100", [TOP_LEFT, "7001", "1000"], "1000", "7001", "7100", "7001", "1000",
+      /* f0 */ "6110", "6110", "7001", "7010", "6110", "6110", "7001", "7010",
+      /* f8 */ "7001", "7100", "7001", "1000", "7001", "7100", "7001", "1000",
+    ],
+  ],
+};
@@ -0,0 +1,185 @@
+/**
+ * @file lib/image-resizers/imageCodec.js
+ * @author Anshi
+ * @description Browser-side decoding of image files into raw RGBA buffers and encoding of raw buffers back into image Blobs.
+ * @lastUpdated 2026-10-19
+ */
+import { decodeUpright } from "./metadata";
+import { hasTiffSignature, decodeTiff } from "./tiffDecoder";
+import { encodePng } from "./pngEncoder";
+import { OUTPUT_FORMATS, DEFAULT_OUTPUT, prepareForFormat, encodeWithinSize } from "./outputFormat";
+
+/**
+ * @typedef {object} ResizeFileOptions
+ * @overview The options shared by the resizer functions that take an image file (`performBicubicResize` and the
+ * others), on top of the `resample` options they pass on.
+ * @property {object} [transform] - Crop, flip and rotation applied before resizing (see `IDENTITY_TRANSFORM`).
+ * @property {object} [sharpen] - Unsharp-mask settings (see `unsharpMask`) applied after resizing, if given.
+ * @property {object} [placement] - Where to place the resized image on a padded or cropped output (see `computeFitLayout`).
+ * @property {number[]} [background] - The RGBA color of the padding added by `placement`.
+ * @property {object} [output=DEFAULT_OUTPUT] - The output format and its settings (see `resolveOutput`).
+ * @property {(result: {quality?: number, fits: boolean}) => void} [onEncoded] - Receives the quality used and whether the output meets the maximum file size.
+ * @property {(fraction: number) => void} [onProgress] - Receives the completed fraction (0 to 1) of the resize.
+ * @property {AbortSignal} [signal] - Aborting it rejects the promise with an `AbortError`.
+ */
+
+/**
+ * @overview Decodes an image file into raw RGBA pixel data, upright: the EXIF orientation of a JPEG or TIFF is applied here
+ * rather than left to the browser (see `decodeUpright`).
+ *
+ * @param {File} file - The image file (Blob or File object) to decode.
+ *
+ * @returns {Promise<{data: Uint8ClampedArray, width: number, height: number}>} A Promise that resolves with the
+ * decoded pixel data (4 bytes per pixel, row-major) and the image dimensions.
+ * @throws {Error} If the image fails to load or the canvas rendering context cannot be obtained.
+ */
+export function decodeImageFile(file) {
+  return decodeUpright(file, decodeStoredPixels);
+}
+
+/**
+ * @overview Returns a version of an image file that an `<img>` element can show. TIFF files, which most browsers
+ * cannot load, are decoded and re-encoded upright as PNG; every other file is returned as is.
+ *
+ * @param {Blob} file - The image file.
+ *
+ * @returns {Promise<Blob>} A Promise that resolves with the file or its PNG copy.
+ * @throws {Error} If a TIFF file cannot be decoded.
+ */
+export async function createDisplayableImage(file) {
+  if (!(await hasTiffSignature(file))) return file;
+  return encodeImageData(await decodeImageFile(file));
+}
+
+/**
+ * @overview Decodes an image file into raw RGBA pixel data by drawing it onto an offscreen canvas; TIFF files,
+ * which most browsers cannot load, go through the bundled decoder instead (see `decodeTiff`).
+ *
+ * @param {Blob} file - The image file to decode.
+ *
+ * @returns {Promise<{data: Uint8ClampedArray, width: number, height: number}>} A Promise that resolves with the
+ * decoded pixel data and the image dimensions.
+ * @throws {Error} If the image fails to load or the canvas rendering context cannot be obtained.
+ */
+async function decodeStoredPixels(file) {
+  if (await hasTiffSignature(file)) {
+    return decodeTiff(file);
+  }
+
+  return new Promise((resolve, reject) => {
+    const imageElement = new Image();
+    // Ensure cross-origin images can be loaded without tainting the canvas
+    imageElement.crossOrigin = "anonymous";
+    const objectUrl = URL.createObjectURL(file);
+
+    imageElement.onload = () => {
+      URL.revokeObjectURL(objectUrl); // The decoded image no longer needs the Blob URL
+      try {
+        const canvas = document.createElement("canvas");
+        const ctx = canvas.getContext("2d");
+
+        if (!ctx) {
+          throw new Error("Canvas context unavailable.");
+        }
+
+        canvas.width = imageElement.width;
+        canvas.height = imageElement.height;
+        ctx.drawImage(imageElement, 0, 0);
+
+        const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        resolve({ data, width, height });
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    imageElement.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error("Source image failed to load."));
+    };
+
+    imageElement.src = objectUrl;
+  });
+}
+
+/**
+ * @overview Encodes raw RGBA pixel data into an image Blob. PNG is encoded here at the requested compression level
+ * (see `encodePng`); the lossy formats go through an offscreen canvas, flattened over white first if the format has
+ * no alpha, at the requested quality or at the highest quality that meets the maximum file size (see `encodeWithinSize`).
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The pixel data and its dimensions.
+ * @param {{type: string, quality: number, compressionLevel: number, maxFileSize?: number}} [output=DEFAULT_OUTPUT] -
+ * The output format and its settings (see `resolveOutput`).
+ * @param {(result: {quality?: number, fits: boolean}) => void} [onEncoded] - Receives the quality the image was
+ * encoded at (none for PNG) and whether it meets the maximum file size.
+ *
+ * @returns {Promise<Blob>} A Promise that resolves with the encoded image.
+ * @throws {Error} If the canvas rendering context cannot be obtained, blob creation fails, or the browser cannot
+ * encode the format.
+ */
+export async function encodeImageData(image, output = DEFAULT_OUTPUT, onEncoded) {
+  const { type, compressionLevel } = output;
+  if (type === "image/png") {
+    onEncoded?.({ fits: true });
+    return new Blob([encodePng(image, compressionLevel)], { type });
+  }
+
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+
+  if (!ctx) {
+    throw new Error("Canvas context unavailable.");
+  }
+
+  const prepared = prepareForFormat(image, type);
+  canvas.width = prepared.width;
+  canvas.height = prepared.height;
+  ctx.putImageData(new ImageData(prepared.data, prepared.width, prepared.height), 0, 0);
+
+  const encodeAt = (quality) =>
+    new Promise((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => {
+          if (!blob) {
+            reject(new Error("Blob creation failed."));
+          } else if (blob.type !== type) {
+            // Browsers fall back to PNG for formats they cannot encode
+            reject(new Error(`This browser cannot encode ${OUTPUT_FORMATS[type].label} images.`));
+          } else {
+            resolve(blob);
+          }
+        },
+        type,
+        quality
+      );
+    });
+  const { blob, quality, fits } = await encodeWithinSize(encodeAt, output);
+  onEncoded?.({ quality, fits });
+  return blob;
+}
+
+const formatSupport = new Map(); // Cached results of supportsOutputType, by MIME type
+
+/**
+ * @overview Checks whether the browser can encode an output format, by encoding a one-pixel canvas. Canvas
+ * encoding falls back to PNG for unsupported types, which is how the check tells; AVIF is the usual gap.
+ *
+ * @param {string} type - The MIME type.
+ *
+ * @returns {Promise<boolean>} A Promise that resolves with true if the format can be encoded.
+ */
+export function supportsOutputType(type) {
+  if (type === "image/png") return Promise.resolve(true);
+  if (!formatSupport.has(type)) {
+    formatSupport.set(
+      type,
+      new Promise((resolve) => {
+        const canvas = document.createElement("canvas");
+        canvas.width = 1;
+        canvas.height = 1;
+        canvas.toBlob((blob) => resolve(blob?.type === type), type);
+      }),
+    );
+  }
+  return formatSupport.get(type);
+}
@@ -0,0 +1,60 @@
+/**
+ * @file lib/image-resizers/inputFormat.js
+ * @author Sameer
+ * @description Image formats that can be uploaded, and recognizing the format of an uploaded file.
+ * @lastUpdated 2026-10-19
+ */
+
+// Formats named in the upload area and file picker, by MIME type. TIFF is decoded by a bundled decoder and SVG is
+// rasterized at the target size; the others are decoded by the browser. Any other image type the browser can
+// decode (such as HEIC in Safari) is accepted as well.
+export const INPUT_FORMATS = {
+  "image/jpeg": { label: "JPEG", extensions: ["jpg", "jpeg"] },
+  "image/png": { label: "PNG", extensions: ["png"] },
+  "image/webp": { label: "WebP", extensions: ["webp"] },
+  "image/gif": { label: "GIF", extensions: ["gif"] },
+  "image/bmp": { label: "BMP", extensions: ["bmp"] },
+  "image/avif": { label: "AVIF", extensions: ["avif"] },
+  "image/tiff": { label: "TIFF", extensions: ["tif", "tiff"] },
+  "image/svg+xml": { label: "SVG", extensions: ["svg"] },
+};
+
+// Value of the file input's accept attribute: any image, plus the extensions systems often give no MIME type
+export const ACCEPTED_INPUT = ["image/*", ...Object.values(INPUT_FORMATS).flatMap(({ extensions }) => extensions.map((extension) => "." + extension))].join(",");
+
+/**
+ * @overview Returns the MIME type of an uploaded file. Some systems report no type for less common formats such as
+ * TIFF or AVIF, so the extension is used when the type is missing.
+ *
+ * @param {File} file - The uploaded file.
+ *
+ * @returns {string} The MIME type, or an empty string if it is unknown.
+ */
+export function getInputType(file) {
+  if (file.type) return file.type === "image/jpg" ? "image/jpeg" : file.type;
+  const extension = file.name?.split(".").pop().toLowerCase();
+  return Object.keys(INPUT_FORMATS).find((type) => INPUT_FORMATS[type].extensions.includes(extension)) ?? "";
+}
+
+/**
+ * @overview Checks whether an uploaded file is an image. Whether the browser can actually decode it is only known
+ * once it is loaded.
+ *
+ * @param {File} file - The uploaded file.
+ *
+ * @returns {boolean} True if the file is an image.
+ */
+export function isImageInput(file) {
+  return getInputType(file).startsWith("image/");
+}
+
+/**
+ * @overview Checks whether a file is an SVG image, which is rasterized at the target size instead of resampled.
+ *
+ * @param {Blob} file - The file.
+ *
+ * @returns {boolean} True for SVG files.
+ */
+export function isSvgFile(file) {
+  return getInputType(file) === "image/svg+xml";
+}
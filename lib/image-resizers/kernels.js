@@ -0,0 +1,92 @@
+/**
+ * @file lib/image-resizers/kernels.js
+ * @author Sameer
+ * @description Reconstruction kernels shared by the interpolating resizers.
+ * @lastUpdated 2026-10-19
+ */
+
+// Range of lobes accepted by the Lanczos kernel; every extra lobe widens the kernel by a pixel on each side
+export const MIN_LANCZOS_LOBES = 1;
+export const MAX_LANCZOS_LOBES = 8;
+
+/**
+ * @overview Implements the triangle (tent) kernel used by bilinear interpolation.
+ *
+ * @param {number} t - The signed distance from the sample point to a source pixel center.
+ *
+ * @returns {number} The weighting factor, falling linearly from 1 at the center to 0 at a distance of 1.
+ */
+export function triangleWeight(t) {
+  return Math.max(0, 1 - Math.abs(t));
+}
+
+/**
+ * @overview Implements the box (area-averaging) filter. Unlike the other kernels it is not sampled at the source
+ * pixel's center: the weight is the exact length of the overlap between the source pixel and the footprint of
+ * the target pixel, so every source pixel counts in proportion to how much of it the target pixel covers.
+ *
+ * @param {number} t - The signed distance from the target pixel center to a source pixel center, divided by
+ * `max(1, scale)` as for every kernel.
+ * @param {number} scale - The ratio of source size to target size along this axis, i.e. the footprint width in source pixels.
+ *
+ * @returns {number} The covered length of the source pixel, between 0 and 1; zero beyond a radius of 1.
+ */
+export function boxWeight(t, scale) {
+  const distance = t * Math.max(1, scale);
+  const halfFootprint = scale / 2;
+  return Math.max(0, Math.min(distance + 0.5, halfFootprint) - Math.max(distance - 0.5, -halfFootprint));
+}
+
+/**
+ * @overview Named points of the Mitchell-Netravali (B, C) cubic family. B controls blur and C controls sharpening
+ * (and with it ringing): B-spline is the smoothest and never rings, Catmull-Rom interpolates exactly, and the
+ * Keys cubic convolution kernel with parameter `a` corresponds to B = 0, C = -a.
+ * @constant {Object<string, {label: string, b: number, c: number}>}
+ */
+export const CUBIC_PRESETS = {
+  classic: { label: "Classic (a = -1)", b: 0, c: 1 },
+  bspline: { label: "B-Spline", b: 1, c: 0 },
+  mitchell: { label: "Mitchell", b: 1 / 3, c: 1 / 3 },
+  catmullRom: { label: "Catmull-Rom", b: 0, c: 0.5 },
+  sharp: { label: "Sharp (a = -0.75)", b: 0, c: 0.75 },
+};
+
+/**
+ * @overview Implements the Mitchell-Netravali family of cubic kernels used by bicubic interpolation.
+ * This function calculates the weighting factor for a given distance `t` from a pixel's center.
+ *
+ * @param {number} t - The signed distance from the sample point to a source pixel center.
+ * @param {number} b - The B parameter (blur), usually between 0 and 1.
+ * @param {number} c - The C parameter (sharpening), usually between 0 and 1.
+ *
+ * @returns {number} The cubic weighting factor for the given distance `t`, zero beyond a 2-pixel radius.
+ */
+export function cubicWeight(t, b, c) {
+  const absT = Math.abs(t);
+  const absT2 = absT * absT;
+  const absT3 = absT2 * absT;
+
+  if (absT < 1) {
+    return ((12 - 9 * b - 6 * c) * absT3 + (-18 + 12 * b + 6 * c) * absT2 + (6 - 2 * b)) / 6;
+  } else if (absT < 2) {
+    return ((-b - 6 * c) * absT3 + (6 * b + 30 * c) * absT2 + (-12 * b - 48 * c) * absT + (8 * b + 24 * c)) / 6;
+  }
+  return 0; // Return 0 for distances outside the 2-pixel radius
+}
+
+/**
+ * @overview Implements the Lanczos kernel: sinc(t) * sinc(t / lobes) inside the window, zero outside.
+ *
+ * @param {number} t - The signed distance from the sample point to a source pixel center.
+ * @param {number} lobes - The kernel radius in pixels (number of lobes on each side).
+ *
+ * @returns {number} The Lanczos weighting factor for the given distance `t`.
+ */
+export function lanczosWeight(t, lobes) {
+  if (t === 0) return 1;
+  const absT = Math.abs(t);
+  if (absT >= lobes) return 0; // Outside the window
+
+  const piT = Math.PI * t;
+  return (lobes * Math.sin(piT) * Math.sin(piT / lobes)) / (piT * piT);
+}
@@ -0,0 +1,646 @@
+/**
+ * @file lib/image-resizers/metadata.js
+ * @author Anshi
+ * @description Reading EXIF/XMP metadata from JPEG files (orientation, author, copyright, capture date, GPS) and
+ * writing the kept fields into encoded JPEG, WebP and PNG output.
+ * @lastUpdated 2026-10-19
+ */
+import { IDENTITY_TRANSFORM, orientImage } from "./transform";
+import { createPngChunk } from "./pngEncoder";
+
+// Fields that can be carried from the uploaded file into the output
+export const METADATA_FIELDS = ["author", "copyright", "dateTaken", "gps"];
+
+// Fields kept unless the user says otherwise; the location is stripped by default
+export const DEFAULT_KEPT_METADATA = ["author", "copyright", "dateTaken"];
+
+// The lossless transform (see `orientPixels`) that turns the stored pixels upright, for each EXIF orientation value
+export const EXIF_ORIENTATION_TRANSFORMS = {
+  1: IDENTITY_TRANSFORM,
+  2: { ...IDENTITY_TRANSFORM, flipX: true },
+  3: { ...IDENTITY_TRANSFORM, rotate: 180 },
+  4: { ...IDENTITY_TRANSFORM, flipY: true },
+  5: { ...IDENTITY_TRANSFORM, flipY: true, rotate: 90 },
+  6: { ...IDENTITY_TRANSFORM, rotate: 90 },
+  7: { ...IDENTITY_TRANSFORM, flipX: true, rotate: 90 },
+  8: { ...IDENTITY_TRANSFORM, rotate: 270 },
+};
+
+// EXIF tags read and written here
+const TAG = {
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+};
+
+// Size in bytes of one component of each TIFF field type (BYTE, ASCII, SHORT, LONG, RATIONAL, SBYTE, UNDEFINED,
+// SSHORT, SLONG, SRATIONAL, FLOAT, DOUBLE), and the size of the unit whose bytes are swapped between byte orders
+const TYPE_SIZES = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+const SWAP_SIZES = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 4, 6: 1, 7: 1, 8: 2, 9: 4, 10: 4, 11: 4, 12: 8 };
+
+const ASCII_TYPE = 2;
+const LONG_TYPE = 4;
+const EXIF_HEADER = "Exif\0\0";
+// The most EXIF data a JPEG APP1 segment holds: its 16-bit length counts itself and the "Exif\0\0" header as well
+const MAX_EXIF_SIZE = 0xffff - 2 - EXIF_HEADER.length;
+// The most any container adds around the EXIF data: WebP's 'VP8X' chunk plus the 'EXIF' chunk header and padding
+const MAX_CONTAINER_OVERHEAD = 18 + 8 + 1;
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+/**
+ * @overview Reads the metadata of an image file (see `readImageMetadata`).
+ *
+ * @param {Blob} file - The image file.
+ *
+ * @returns {Promise<ReturnType<typeof readImageMetadata>>} The metadata found in the file.
+ */
+export async function readFileMetadata(file) {
+  return readImageMetadata(new Uint8Array(await file.arrayBuffer()));
+}
+
+/**
+ * @overview Reads the EXIF orientation and the fields that can be carried into the output from a JPEG file's
+ * EXIF (APP1) segment, falling back to its XMP packet for the author, copyright and capture date, or from the
+ * first image file directory of a TIFF file, which has the same layout as EXIF data. Other formats,
+ * and files with missing or damaged metadata, yield an upright image without fields: metadata is never a reason
+ * to reject an image.
+ *
+ * @param {Uint8Array} bytes - The contents of the file.
+ *
+ * @returns {{orientation: number, orientationOffset: number, littleEndian: boolean, author: string | null,
+ * copyright: string | null, dateTaken: string | null, gps: Array<{tag: number, type: number, count: number, bytes: Uint8Array}> | null}}
+ * The EXIF orientation (1 to 8, 1 meaning upright) and the byte offset of its value in the file (-1 if absent),
+ * the byte order of the EXIF data, the author, copyright and capture date ('YYYY:MM:DD HH:MM:SS'), and the raw
+ * GPS entries with their values in big-endian byte order.
+ */
+export function readImageMetadata(bytes) {
+  const metadata = {
+    orientation: 1,
+    orientationOffset: -1,
+    littleEndian: false,
+    author: null,
+    copyright: null,
+    dateTaken: null,
+    gps: null,
+  };
+  const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8;
+  const isTiff = startsWith(bytes, 0, "II") || startsWith(bytes, 0, "MM");
+  if (!isJpeg && !isTiff) return metadata;
+
+  let xmp = null;
+  try {
+    // A TIFF file is laid out like the EXIF data of a JPEG, starting at its first byte
+    if (isTiff) readExif(bytes, 0, metadata);
+    for (const segment of isJpeg ? readJpegSegments(bytes) : []) {
+      if (segment.marker !== 0xe1) continue;
+      if (startsWith(bytes, segment.start, EXIF_HEADER)) {
+        readExif(bytes, segment.start + EXIF_HEADER.length, metadata);
+      } else if (startsWith(bytes, segment.start, XMP_HEADER)) {
+        xmp = new TextDecoder().decode(bytes.subarray(segment.start + XMP_HEADER.length, segment.end));
+      }
+    }
+  } catch (error) {
+    console.warn("Ignoring unreadable image metadata:", error);
+  }
+
+  if (xmp) {
+    metadata.author ??= readXmpListItem(xmp, "dc:creator");
+    metadata.copyright ??= readXmpListItem(xmp, "dc:rights");
+    metadata.dateTaken ??= toExifDate(readXmpProperty(xmp, "exif:DateTimeOriginal") ?? readXmpProperty(xmp, "xmp:CreateDate"));
+  }
+  if (!EXIF_ORIENTATION_TRANSFORMS[metadata.orientation]) metadata.orientation = 1;
+  return metadata;
+}
+
+/**
+ * @overview Returns the transform that turns an image stored with the given EXIF orientation upright.
+ *
+ * @param {number} orientation - The EXIF orientation value.
+ *
+ * @returns {object} The transform, to be applied with `orientImage` or `orientPixels`.
+ */
+export function getOrientationTransform(orientation) {
+  return EXIF_ORIENTATION_TRANSFORMS[orientation] ?? IDENTITY_TRANSFORM;
+}
+
+/**
+ * @overview Returns a copy of an image file whose EXIF orientation says the pixels are already upright. Browsers
+ * disagree on whether decoding applies the orientation, so the pipeline decodes this copy, which every browser
+ * decodes as stored, and turns the pixels upright itself.
+ *
+ * @param {Blob} file - The image file.
+ * @param {{orientation: number, orientationOffset: number, littleEndian: boolean}} metadata - Its metadata (see `readImageMetadata`).
+ *
+ * @returns {Blob} The copy, or `file` itself when it is already upright.
+ */
+export function withoutOrientation(file, metadata) {
+  if (metadata.orientation === 1 || metadata.orientationOffset < 0) return file;
+  const upright = new Uint8Array(2);
+  upright[metadata.littleEndian ? 0 : 1] = 1;
+  const offset = metadata.orientationOffset;
+  return new Blob([file.slice(0, offset), upright, file.slice(offset + 2)], { type: file.type });
+}
+
+/**
+ * @overview Decodes an image file upright, whatever the browser does with its EXIF orientation: the file is
+ * decoded as stored, then flipped and turned as its orientation says.
+ *
+ * @param {Blob} file - The image file.
+ * @param {(file: Blob) => Promise<{data: Uint8ClampedArray, width: number, height: number}>} decode - Decodes a file
+ * into raw RGBA pixels.
+ *
+ * @returns {Promise<{data: Uint8ClampedArray, width: number, height: number}>} The upright pixels.
+ */
+export async function decodeUpright(file, decode) {
+  const metadata = await readFileMetadata(file);
+  const image = await decode(withoutOrientation(file, metadata));
+  return orientImage(image, getOrientationTransform(metadata.orientation));
+}
+
+/**
+ * @overview Picks the fields to carry into the output from an image's metadata.
+ *
+ * @param {ReturnType<typeof readImageMetadata>} metadata - The metadata of the uploaded image.
+ * @param {string[]} fields - The keys of `METADATA_FIELDS` to keep.
+ *
+ * @returns {{author?: string, copyright?: string, dateTaken?: string, gps?: object[]} | null} The kept fields that
+ * the image has, or null if there are none.
+ */
+export function pickMetadata(metadata, fields) {
+  const picked = {};
+  for (const field of fields) {
+    if (METADATA_FIELDS.includes(field) && metadata[field]) picked[field] = metadata[field];
+  }
+  return Object.keys(picked).length > 0 ? picked : null;
+}
+
+/**
+ * @overview Tells how many bytes at most `embedMetadata` adds to an encoded image, so a size limit can leave room for it.
+ *
+ * @param {{author?: string, copyright?: string, dateTaken?: string, gps?: object[]} | null} metadata - The fields to
+ * write (see `pickMetadata`).
+ *
+ * @returns {number} The number of bytes, 0 if there is nothing to write.
+ */
+export function getMetadataSize(metadata) {
+  const exif = metadata && createExifBlock(metadata);
+  return exif ? exif.length + MAX_CONTAINER_OVERHEAD : 0;
+}
+
+/**
+ * @overview Writes metadata into an encoded image as an EXIF block: an APP1 segment for JPEG, an 'EXIF' chunk for
+ * WebP and an 'eXIf' chunk for PNG. No orientation is written, since the output pixels are upright. Other formats
+ * are returned unchanged. Metadata too large for an APP1 segment is cut down to fit (see `createExifBlock`).
+ *
+ * @param {Blob} blob - The encoded image.
+ * @param {{author?: string, copyright?: string, dateTaken?: string, gps?: object[]} | null} metadata - The fields to
+ * write (see `pickMetadata`).
+ *
+ * @returns {Promise<Blob>} The image with its metadata, or `blob` itself when there is nothing to write.
+ */
+export async function embedMetadata(blob, metadata) {
+  if (!metadata) return blob;
+  const exif = createExifBlock(metadata);
+  if (!exif) return blob;
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  switch (blob.type) {
+    case "image/jpeg":
+      return new Blob([insertJpegExif(bytes, exif)], { type: blob.type });
+    case "image/webp":
+      return new Blob([insertWebpExif(bytes, exif)], { type: blob.type });
+    case "image/png":
+      return new Blob([insertPngExif(bytes, exif)], { type: blob.type });
+    default:
+      return blob;
+  }
+}
+
+/**
+ * @overview Lists the marker segments of a JPEG file up to the start of the image data.
+ *
+ * @param {Uint8Array} bytes - The contents of the file.
+ *
+ * @returns {Array<{marker: number, start: number, end: number}>} Each segment's marker and the range of its payload.
+ */
+function readJpegSegments(bytes) {
+  const segments = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break; // The image data (or the end) follows
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker, start: offset + 4, end: Math.min(bytes.length, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  return segments;
+}
+
+/**
+ * @overview Reads the orientation, author, copyright, capture date and GPS entries from EXIF data into `metadata`.
+ *
+ * @param {Uint8Array} bytes - The contents of the file.
+ * @param {number} tiffStart - The offset of the TIFF header that starts the EXIF data.
+ * @param {object} metadata - The metadata being read (see `readImageMetadata`), updated in place.
+ *
+ * @returns {void}
+ * @throws {RangeError} If the EXIF data is truncated.
+ */
+function readExif(bytes, tiffStart, metadata) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = view.getUint16(tiffStart) === 0x4949; // "II" (Intel) or "MM" (Motorola)
+  if (view.getUint16(tiffStart + 2, littleEndian) !== 42) return;
+  metadata.littleEndian = littleEndian;
+
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+  const orientation = ifd0.get(TAG.orientation);
+  if (orientation) {
+    metadata.orientation = view.getUint16(orientation.valueOffset, littleEndian);
+    metadata.orientationOffset = orientation.valueOffset;
+  }
+  metadata.author = readAscii(bytes, ifd0.get(TAG.artist));
+  metadata.copyright = readAscii(bytes, ifd0.get(TAG.copyright));
+
+  const exifIfd = ifd0.get(TAG.exifIfd);
+  const exif = exifIfd ? readIfd(view, tiffStart, view.getUint32(exifIfd.valueOffset, littleEndian), littleEndian) : null;
+  metadata.dateTaken = readAscii(bytes, exif?.get(TAG.dateTimeOriginal)) ?? readAscii(bytes, ifd0.get(TAG.dateTime));
+
+  const gpsIfd = ifd0.get(TAG.gpsIfd);
+  if (gpsIfd) {
+    const gps = readIfd(view, tiffStart, view.getUint32(gpsIfd.valueOffset, littleEndian), littleEndian);
+    metadata.gps = [...gps.values()]
+      .filter((entry) => TYPE_SIZES[entry.type])
+      .map(({ tag, type, count, valueOffset }) => {
+        const size = TYPE_SIZES[type] * count;
+        const value = bytes.slice(valueOffset, valueOffset + size);
+        if (littleEndian) swapBytes(value, SWAP_SIZES[type]);
+        return { tag, type, count, bytes: value };
+      });
+    if (metadata.gps.length === 0) metadata.gps = null;
+  }
+}
+
+/**
+ * @overview Reads the entries of a TIFF image file directory (IFD).
+ *
+ * @param {DataView} view - A view over the contents of the file.
+ * @param {number} tiffStart - The offset of the TIFF header, which IFD and value offsets are relative to.
+ * @param {number} ifdOffset - The offset of the IFD, relative to the TIFF header.
+ * @param {boolean} littleEndian - The byte order of the TIFF data.
+ *
+ * @returns {Map<number, {tag: number, type: number, count: number, valueOffset: number}>} The entries by tag, each
+ * with the absolute offset of its value, which is stored in the entry itself when it fits in four bytes.
+ */
+function readIfd(view, tiffStart, ifdOffset, littleEndian) {
+  const entries = new Map();
+  const start = tiffStart + ifdOffset;
+  const count = view.getUint16(start, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+    const valueOffset = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, littleEndian);
+    entries.set(tag, { tag, type, count: valueCount, valueOffset });
+  }
+  return entries;
+}
+
+/**
+ * @overview Reads the text of an ASCII entry, trimmed and without its terminating NUL.
+ *
+ * @param {Uint8Array} bytes - The contents of the file.
+ * @param {{type: number, count: number, valueOffset: number} | undefined} entry - The IFD entry, if present.
+ *
+ * @returns {string | null} The text, or null if the entry is absent, not ASCII or empty.
+ */
+function readAscii(bytes, entry) {
+  if (!entry || entry.type !== ASCII_TYPE) return null;
+  // Many cameras and editors store UTF-8 despite the ASCII type, so decode it leniently as UTF-8
+  const text = new TextDecoder().decode(bytes.subarray(entry.valueOffset, entry.valueOffset + entry.count));
+  return text.replace(/\0+$/, "").trim() || null;
+}
+
+/**
+ * @overview Reads the first item of an XMP list property such as `dc:creator` or `dc:rights`.
+ *
+ * @param {string} xmp - The XMP packet.
+ * @param {string} property - The qualified property name.
+ *
+ * @returns {string | null} The item's text, or null if the property is absent or empty.
+ */
+function readXmpListItem(xmp, property) {
+  const match = xmp.match(new RegExp(`<${property}>[\\s\\S]*?<rdf:li[^>]*>([\\s\\S]*?)</rdf:li>`));
+  return match ? decodeXmlText(match[1]) : null;
+}
+
+/**
+ * @overview Reads a simple XMP property, written either as an attribute or as an element.
+ *
+ * @param {string} xmp - The XMP packet.
+ * @param {string} property - The qualified property name.
+ *
+ * @returns {string | null} The property's text, or null if it is absent or empty.
+ */
+function readXmpProperty(xmp, property) {
+  const match = xmp.match(new RegExp(`${property}(?:="([^"]*)"|>([^<]*)<)`));
+  return match ? decodeXmlText(match[1] ?? match[2]) : null;
+}
+
+/**
+ * @overview Replaces the predefined XML entities in a piece of XML text and trims it.
+ *
+ * @param {string} text - The XML text.
+ *
+ * @returns {string | null} The plain text, or null if it is empty.
+ */
+function decodeXmlText(text) {
+  const entities = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+  return text.replace(/&(amp|lt|gt|quot|apos);/g, (_, name) => entities[name]).trim() || null;
+}
+
+/**
+ * @overview Converts an XMP (ISO 8601) date to the EXIF date format.
+ *
+ * @param {string | null} date - The XMP date, such as '2024-05-01T12:34:56+02:00'.
+ *
+ * @returns {string | null} The date as 'YYYY:MM:DD HH:MM:SS', or null if it cannot be read.
+ */
+function toExifDate(date) {
+  const match = date?.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) return null;
+  const [, year, month, day, hours = "00", minutes = "00", seconds = "00"] = match;
+  return `${year}:${month}:${day} ${hours}:${minutes}:${seconds}`;
+}
+
+/**
+ * @overview Builds the EXIF data to embed (see `layOutExif`), no larger than a JPEG APP1 segment can hold, so that
+ * every format gets the same block. Only an author or copyright text of tens of kilobytes, or an unusually large set
+ * of GPS entries, can outgrow it: the longer text is shortened first, and the GPS entries are dropped only if the
+ * texts are gone and the block still does not fit.
+ *
+ * @param {{author?: string, copyright?: string, dateTaken?: string, gps?: object[]}} metadata - The fields to write.
+ *
+ * @returns {Uint8Array | null} The EXIF data, or null if there is nothing to write.
+ */
+function createExifBlock(metadata) {
+  let fields = metadata;
+  let block = layOutExif(fields);
+  while (block && block.length > MAX_EXIF_SIZE) {
+    const excess = block.length - MAX_EXIF_SIZE;
+    const [longest] = ["author", "copyright"]
+      .filter((field) => fields[field])
+      .sort((a, b) => new TextEncoder().encode(fields[b]).length - new TextEncoder().encode(fields[a]).length);
+    fields = longest ? { ...fields, [longest]: truncateUtf8(fields[longest], excess) } : { ...fields, gps: null };
+    block = layOutExif(fields);
+  }
+  return block;
+}
+
+/**
+ * @overview Shortens a text by at least a number of UTF-8 bytes, without splitting a character.
+ *
+ * @param {string} text - The text.
+ * @param {number} excess - The number of bytes to remove.
+ *
+ * @returns {string} The shortened text, empty if it had no more bytes than that.
+ */
+function truncateUtf8(text, excess) {
+  const bytes = new TextEncoder().encode(text);
+  let end = Math.max(0, bytes.length - excess);
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--; // Back up to the first byte of a character
+  return new TextDecoder().decode(bytes.subarray(0, end));
+}
+
+/**
+ * @overview Lays out big-endian EXIF (TIFF) data holding the given fields: the author and copyright in the first IFD,
+ * the capture date in an Exif IFD and the location in a GPS IFD.
+ *
+ * @param {{author?: string, copyright?: string, dateTaken?: string, gps?: object[]}} metadata - The fields to write.
+ *
+ * @returns {Uint8Array | null} The EXIF data, or null if there is nothing to write.
+ */
+function layOutExif(metadata) {
+  const ascii = (tag, text) => {
+    const bytes = new TextEncoder().encode(text + "\0");
+    return { tag, type: ASCII_TYPE, count: bytes.length, bytes };
+  };
+
+  // Entries of each IFD in ascending tag order; sub-IFDs are linked from the first one by pointer entries
+  const ifd0 = [];
+  const subIfds = [];
+  if (metadata.author) ifd0.push(ascii(TAG.artist, metadata.author));
+  if (metadata.copyright) ifd0.push(ascii(TAG.copyright, metadata.copyright));
+  if (metadata.dateTaken) subIfds.push({ tag: TAG.exifIfd, entries: [ascii(TAG.dateTimeOriginal, metadata.dateTaken)] });
+  if (metadata.gps?.length) subIfds.push({ tag: TAG.gpsIfd, entries: [...metadata.gps].sort((a, b) => a.tag - b.tag) });
+  if (ifd0.length === 0 && subIfds.length === 0) return null;
+
+  // Lay out the header, then the IFDs, then the values too large to be stored in their entries
+  const ifdSize = (entries) => 2 + entries.length * 12 + 4;
+  const ifds = [{ entries: ifd0.concat(subIfds.map(({ tag }) => ({ tag, type: LONG_TYPE, count: 1, bytes: null }))) }, ...subIfds];
+  ifds[0].entries.sort((a, b) => a.tag - b.tag);
+  let offset = 8;
+  for (const ifd of ifds) {
+    ifd.offset = offset;
+    offset += ifdSize(ifd.entries);
+  }
+  let dataSize = 0;
+  for (const ifd of ifds) {
+    for (const entry of ifd.entries) {
+      if (entry.bytes && entry.bytes.length > 4) dataSize += entry.bytes.length + (entry.bytes.length % 2);
+    }
+  }
+
+  const block = new Uint8Array(offset + dataSize);
+  const view = new DataView(block.buffer);
+  block.set([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]); // "MM", 42, first IFD at offset 8
+  let dataOffset = offset;
+  for (const ifd of ifds) {
+    view.setUint16(ifd.offset, ifd.entries.length);
+    ifd.entries.forEach((entry, i) => {
+      const position = ifd.offset + 2 + i * 12;
+      view.setUint16(position, entry.tag);
+      view.setUint16(position + 2, entry.type);
+      view.setUint32(position + 4, entry.count);
+      if (!entry.bytes) {
+        view.setUint32(position + 8, ifds.find((other) => other.tag === entry.tag).offset); // Pointer to a sub-IFD
+      } else if (entry.bytes.length <= 4) {
+        block.set(entry.bytes, position + 8);
+      } else {
+        view.setUint32(position + 8, dataOffset);
+        block.set(entry.bytes, dataOffset);
+        dataOffset += entry.bytes.length + (entry.bytes.length % 2); // Values start on a word boundary
+      }
+    });
+    // The offset of the next IFD stays 0: there is no thumbnail IFD
+  }
+  return block;
+}
+
+/**
+ * @overview Inserts EXIF data into a JPEG file as an APP1 segment, after the JFIF (APP0) segment if there is one.
+ *
+ * @param {Uint8Array} bytes - The JPEG file.
+ * @param {Uint8Array} exif - The EXIF data.
+ *
+ * @returns {Uint8Array} The JPEG file with the segment.
+ */
+function insertJpegExif(bytes, exif) {
+  let position = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) position += 2 + ((bytes[4] << 8) | bytes[5]);
+
+  const length = 2 + EXIF_HEADER.length + exif.length;
+  const segment = new Uint8Array(2 + length);
+  segment.set([0xff, 0xe1, length >> 8, length & 0xff]);
+  segment.set(new TextEncoder().encode(EXIF_HEADER), 4);
+  segment.set(exif, 4 + EXIF_HEADER.length);
+  return concatBytes([bytes.subarray(0, position), segment, bytes.subarray(position)]);
+}
+
+/**
+ * @overview Inserts EXIF data into a WebP file as an 'EXIF' chunk. A simple (lossy 'VP8 ' or lossless 'VP8L') file
+ * is first turned into an extended one by adding the 'VP8X' header chunk that announces the metadata.
+ *
+ * @param {Uint8Array} bytes - The WebP file.
+ * @param {Uint8Array} exif - The EXIF data.
+ *
+ * @returns {Uint8Array} The WebP file with the chunk.
+ * @throws {Error} If the file is not a WebP file the browser could have encoded.
+ */
+function insertWebpExif(bytes, exif) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const firstChunk = readFourCC(bytes, 12);
+  const exifChunk = createRiffChunk("EXIF", exif);
+  let header;
+  let chunks;
+
+  if (firstChunk === "VP8X") {
+    header = new Uint8Array(0);
+    chunks = bytes.slice(12);
+    chunks[8] |= 0x08; // The EXIF flag of the VP8X chunk
+  } else {
+    let width;
+    let height;
+    let hasAlpha = false;
+    if (firstChunk === "VP8L") {
+      const bits = view.getUint32(21, true); // After the one-byte signature
+      width = (bits & 0x3fff) + 1;
+      height = ((bits >>> 14) & 0x3fff) + 1;
+      hasAlpha = Boolean((bits >>> 28) & 1);
+    } else if (firstChunk === "VP8 ") {
+      width = view.getUint16(26, true) & 0x3fff; // After the frame tag and start code
+      height = view.getUint16(28, true) & 0x3fff;
+    } else {
+      throw new Error("Unsupported WebP chunk: " + firstChunk);
+    }
+
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = 0x08 | (hasAlpha ? 0x10 : 0); // EXIF and alpha flags
+    vp8x.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, (width - 1) >> 16], 4);
+    vp8x.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, (height - 1) >> 16], 7);
+    header = createRiffChunk("VP8X", vp8x);
+    chunks = bytes.subarray(12);
+  }
+
+  const riff = new Uint8Array(12);
+  riff.set(bytes.subarray(0, 12));
+  new DataView(riff.buffer).setUint32(4, 4 + header.length + chunks.length + exifChunk.length, true);
+  return concatBytes([riff, header, chunks, exifChunk]);
+}
+
+/**
+ * @overview Inserts EXIF data into a PNG file as an 'eXIf' chunk, right after the header (IHDR) chunk.
+ *
+ * @param {Uint8Array} bytes - The PNG file.
+ * @param {Uint8Array} exif - The EXIF data.
+ *
+ * @returns {Uint8Array} The PNG file with the chunk.
+ */
+function insertPngExif(bytes, exif) {
+  const position = 8 + 8 + 13 + 4; // Signature, then IHDR's length, type, 13 data bytes and CRC
+  return concatBytes([bytes.subarray(0, position), createPngChunk("eXIf", exif), bytes.subarray(position)]);
+}
+
+/**
+ * @overview Builds a RIFF chunk, padded to an even size.
+ *
+ * @param {string} fourCC - The chunk type.
+ * @param {Uint8Array} data - The chunk payload.
+ *
+ * @returns {Uint8Array} The chunk.
+ */
+function createRiffChunk(fourCC, data) {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(new TextEncoder().encode(fourCC));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+/**
+ * @overview Reads a four-character code.
+ *
+ * @param {Uint8Array} bytes - The file contents.
+ * @param {number} offset - The offset of the code.
+ *
+ * @returns {string} The code.
+ */
+function readFourCC(bytes, offset) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+/**
+ * @overview Tells whether the bytes at an offset spell out a given Latin-1 string.
+ *
+ * @param {Uint8Array} bytes - The file contents.
+ * @param {number} offset - Where to compare.
+ * @param {string} text - The expected text.
+ *
+ * @returns {boolean} True if the bytes match.
+ */
+function startsWith(bytes, offset, text) {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/**
+ * @overview Reverses the byte order of each unit of a value in place.
+ *
+ * @param {Uint8Array} value - The value's bytes.
+ * @param {number} unit - The size of the units to swap (1 leaves the value as is).
+ *
+ * @returns {void}
+ */
+function swapBytes(value, unit) {
+  for (let start = 0; start + unit <= value.length; start += unit) {
+    value.subarray(start, start + unit).reverse();
+  }
+}
+
+/**
+ * @overview Concatenates byte arrays.
+ *
+ * @param {Uint8Array[]} parts - The arrays to join.
+ *
+ * @returns {Uint8Array} The joined bytes.
+ */
+function concatBytes(parts) {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,128 @@
+/**
+ * @file lib/image-resizers/outputFormat.js
+ * @author Sameer
+ * @description Output formats of the resize (PNG, JPEG, WebP, AVIF), their settings, and preparing pixels for them.
+ * @lastUpdated 2026-10-19
+ */
+import { MIN_PNG_COMPRESSION, MAX_PNG_COMPRESSION } from "./pngEncoder";
+
+// Formats the resized image can be encoded to, by MIME type; lossy formats take a quality, PNG a compression level
+export const OUTPUT_FORMATS = {
+  "image/png": { label: "PNG", extension: "png", lossy: false, alpha: true },
+  "image/jpeg": { label: "JPEG", extension: "jpg", lossy: true, alpha: false },
+  "image/webp": { label: "WebP", extension: "webp", lossy: true, alpha: true },
+  "image/avif": { label: "AVIF", extension: "avif", lossy: true, alpha: true },
+};
+
+// The output used unless another is chosen: lossless PNG at a balanced compression level
+export const DEFAULT_OUTPUT = { type: "image/png", quality: 0.9, compressionLevel: 6 };
+
+// Lowest quality, in percent, tried when searching for a quality that meets a maximum file size
+const MIN_SEARCH_QUALITY = 1;
+
+// Color that transparent areas are flattened onto for formats without alpha
+const FLATTEN_BACKGROUND = [255, 255, 255];
+
+/**
+ * @overview Checks an output format's settings and fills in the defaults.
+ *
+ * @param {{type?: string, quality?: number, compressionLevel?: number, maxFileSize?: number}} [output] - The
+ * requested output; `maxFileSize` is a limit in bytes, only supported by the lossy formats.
+ *
+ * @returns {{type: string, quality: number, compressionLevel: number, maxFileSize?: number}} The complete output settings.
+ * @throws {Error} If the format is unknown or a setting is out of range.
+ */
+export function resolveOutput(output = {}) {
+  const { type, quality, compressionLevel, maxFileSize } = { ...DEFAULT_OUTPUT, ...output };
+  if (!OUTPUT_FORMATS[type]) {
+    throw new Error("Unsupported output format: " + type);
+  }
+  if (!(quality > 0 && quality <= 1)) {
+    throw new Error("Invalid output quality: " + quality);
+  }
+  if (!Number.isInteger(compressionLevel) || compressionLevel < MIN_PNG_COMPRESSION || compressionLevel > MAX_PNG_COMPRESSION) {
+    throw new Error("Invalid PNG compression level: " + compressionLevel);
+  }
+  if (maxFileSize === undefined) {
+    return { type, quality, compressionLevel };
+  }
+  if (!OUTPUT_FORMATS[type].lossy) {
+    throw new Error(`A maximum file size needs a lossy format, not ${OUTPUT_FORMATS[type].label}`);
+  }
+  if (!(maxFileSize >= 1)) {
+    throw new Error("Invalid maximum file size: " + maxFileSize);
+  }
+  return { type, quality, compressionLevel, maxFileSize };
+}
+
+/**
+ * @overview Encodes an image at the output's quality or, when it has a maximum file size that this exceeds, at the
+ * highest quality that meets it, found by a binary search over whole percents (about seven encodes). If even the
+ * lowest quality is too large, the smallest file found is returned and marked as not fitting.
+ *
+ * @param {(quality: number) => Promise<Blob>} encode - Encodes the image at a quality between 0 and 1.
+ * @param {{quality: number, maxFileSize?: number}} output - The output settings (see `resolveOutput`).
+ *
+ * @returns {Promise<{blob: Blob, quality: number, fits: boolean}>} The encoded image, the quality it was encoded at
+ * and whether it meets the maximum file size (always true without one).
+ */
+export async function encodeWithinSize(encode, output) {
+  const { quality, maxFileSize } = output;
+  const first = await encode(quality);
+  if (!maxFileSize || first.size <= maxFileSize) {
+    return { blob: first, quality, fits: true };
+  }
+
+  // Find the highest percent below the requested quality whose file fits
+  let smallest = { blob: first, quality };
+  let best = null;
+  let low = MIN_SEARCH_QUALITY;
+  let high = Math.round(quality * 100) - 1;
+  while (low <= high) {
+    const percent = Math.floor((low + high) / 2);
+    const blob = await encode(percent / 100);
+    if (blob.size <= maxFileSize) {
+      best = { blob, quality: percent / 100 };
+      low = percent + 1;
+    } else {
+      high = percent - 1;
+      if (blob.size < smallest.blob.size) smallest = { blob, quality: percent / 100 };
+    }
+  }
+  return best ? { ...best, fits: true } : { ...smallest, fits: false };
+}
+
+/**
+ * @overview Returns the file extension for an output format.
+ *
+ * @param {string} type - The MIME type.
+ *
+ * @returns {string} The extension without a dot; 'png' for unknown types.
+ */
+export function getFileExtension(type) {
+  return OUTPUT_FORMATS[type]?.extension ?? "png";
+}
+
+/**
+ * @overview Prepares pixels for a format that cannot store alpha by blending them over white, so transparent
+ * areas (such as the padding of 'contain' or the corners of a rotation) come out white rather than black.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The pixel data and its dimensions.
+ * @param {string} type - The MIME type the image will be encoded to.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} An opaque copy, or `image` itself when the
+ * format keeps alpha.
+ */
+export function prepareForFormat(image, type) {
+  if (OUTPUT_FORMATS[type]?.alpha !== false) return image;
+
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = image.data[i + 3] / 255;
+    for (let channel = 0; channel < 3; channel++) {
+      data[i + channel] = image.data[i + channel] * alpha + FLATTEN_BACKGROUND[channel] * (1 - alpha);
+    }
+    data[i + 3] = 255;
+  }
+  return { data, width: image.width, height: image.height };
+}
@@ -0,0 +1,563 @@
+/**
+ * @file lib/image-resizers/pixelArt.js
+ * @author Harsh
+ * @description Edge-aware pixel-art upscalers (EPX/Scale2x/Scale3x, hq2x/hq3x/hq4x and xBR) over raw RGBA buffers.
+ * @lastUpdated 2026-10-19
+ */
+import { resolveEdgeIndex } from "./SeparableResampler";
+import { throwIfAborted, createProgressTracker } from "./taskControl";
+import { HQX_TABLES } from "./hqxTables";
+
+/**
+ * @overview The integer scale factors each pixel-art scaler supports. These scalers work on whole source pixels,
+ * replacing each one with a block of `factor` x `factor` pixels, so the factor must be the same on both axes.
+ * @constant {Object<string, number[]>}
+ */
+export const PIXEL_ART_FACTORS = {
+  epx: [2, 3],
+  hqx: [2, 3, 4],
+  xbr: [2, 3, 4],
+};
+
+// Neighbourhood radius read around each source pixel (xBR looks two pixels out)
+const NEIGHBORHOOD_RADIUS = 2;
+const NEIGHBORHOOD_SIZE = 2 * NEIGHBORHOOD_RADIUS + 1;
+// Position of the center pixel in the flattened 5x5 neighbourhood
+const CENTER = NEIGHBORHOOD_RADIUS * NEIGHBORHOOD_SIZE + NEIGHBORHOOD_RADIUS;
+
+// Thresholds on the YUV difference of two colors, those of hqx and xBR; larger differences count as an edge
+const THRESHOLD_Y = 48;
+const THRESHOLD_U = 7;
+const THRESHOLD_V = 6;
+const THRESHOLD_ALPHA = 48;
+
+// Neighbours that make up an hqx pattern, in bit order, and the pixels an hqx blend weighs, in the order of its
+// digits (see `HQX_TABLES`); both as [dx, dy] offsets from the center
+const HQX_NEIGHBORS = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]];
+const HQX_BLEND_PIXELS = [[0, 0], [0, -1], [-1, 0], [-1, -1]];
+
+// Output pixels of the top-left quarter of a block that the hqx tables cover, in table order
+const HQX_PIXELS = {
+  2: [[0, 0]],
+  3: [[0, 0], [1, 0]],
+  4: [[0, 0], [1, 0], [0, 1], [1, 1]],
+};
+
+// The hqx tables with the digits of every blend parsed into weights
+const HQX_RULES = Object.fromEntries(
+  Object.entries(HQX_TABLES).map(([factor, tables]) => [factor, tables.map((table) => table.map(parseHqxEntry))])
+);
+
+/**
+ * @overview How xBR fills a block when an edge cuts off the bottom-right corner of the source pixel; the other
+ * corners use the same steps turned. The steps are applied in order: `[x, y, weight]` mixes output pixel (x, y)
+ * toward the color beyond the edge by `weight`, and `[x, y, weight, fromX, fromY]` mixes output pixel (fromX, fromY)
+ * instead and stores the result at (x, y). A shallow edge runs closer to horizontal than 45° and a steep one closer
+ * to vertical; an edge that is both takes the shallow steps and then the steep ones unless `both` is given. A weak
+ * edge, one barely stronger than the crossing diagonal, only softens the corner pixel.
+ * @constant {Object<number, Object<string, number[][]>>}
+ */
+const XBR_STEPS = {
+  2: {
+    shallow: [[1, 1, 3 / 4], [0, 1, 1 / 4]],
+    steep: [[1, 1, 3 / 4], [1, 0, 1 / 4]],
+    diagonal: [[1, 1, 1 / 2]],
+    weak: [[1, 1, 1 / 4]],
+  },
+  3: {
+    shallow: [[1, 2, 3 / 4], [2, 1, 1 / 4], [0, 2, 1 / 4], [2, 2, 1]],
+    steep: [[2, 1, 3 / 4], [1, 2, 1 / 4], [2, 0, 1 / 4], [2, 2, 1]],
+    both: [[1, 2, 3 / 4], [2, 1, 0, 1, 2], [0, 2, 1 / 4], [2, 0, 0, 0, 2], [2, 2, 1]],
+    diagonal: [[2, 2, 7 / 8], [2, 1, 1 / 8], [1, 2, 1 / 8]],
+    weak: [[2, 2, 1 / 2]],
+  },
+  4: {
+    shallow: [[3, 3, 1], [2, 3, 1], [3, 2, 3 / 4], [1, 3, 3 / 4], [0, 3, 1 / 4], [2, 2, 1 / 4]],
+    steep: [[3, 3, 1], [2, 3, 3 / 4], [3, 2, 1], [3, 0, 1 / 4], [3, 1, 3 / 4], [2, 2, 1 / 4]],
+    diagonal: [[3, 3, 1], [2, 3, 1 / 2], [3, 2, 1 / 2]],
+    weak: [[3, 3, 1 / 2]],
+  },
+};
+
+// For each number of clockwise quarter turns, the position in the 5x5 neighbourhood that each position of the
+// turned view reads, so that rules written for one corner apply to all four
+const TURNED_NEIGHBORHOODS = [0, 1, 2, 3].map((quarterTurns) =>
+  Int32Array.from({ length: NEIGHBORHOOD_SIZE * NEIGHBORHOOD_SIZE }, (_, position) => {
+    const [dx, dy] = turnOffset(
+      (position % NEIGHBORHOOD_SIZE) - NEIGHBORHOOD_RADIUS,
+      Math.floor(position / NEIGHBORHOOD_SIZE) - NEIGHBORHOOD_RADIUS,
+      quarterTurns
+    );
+    return CENTER + dy * NEIGHBORHOOD_SIZE + dx;
+  })
+);
+
+/**
+ * @overview Checks whether a resize method is one of the pixel-art scalers.
+ *
+ * @param {string} method - The resize method name.
+ *
+ * @returns {boolean} True for 'epx', 'hqx' and 'xbr'.
+ */
+export function isPixelArtMethod(method) {
+  return Object.keys(PIXEL_ART_FACTORS).includes(method);
+}
+
+/**
+ * @overview Determines the integer factor a pixel-art scaler would use for the given sizes.
+ *
+ * @param {string} method - The pixel-art method (a key of `PIXEL_ART_FACTORS`).
+ * @param {number} sourceWidth - The width of the source image.
+ * @param {number} sourceHeight - The height of the source image.
+ * @param {number} targetWidth - The width of the target image.
+ * @param {number} targetHeight - The height of the target image.
+ *
+ * @returns {number | null} The scale factor, or null if the target is not the source enlarged by a supported factor.
+ */
+export function getPixelArtFactor(method, sourceWidth, sourceHeight, targetWidth, targetHeight) {
+  const factor = targetWidth / sourceWidth;
+  const isSupported = targetHeight === sourceHeight * factor && PIXEL_ART_FACTORS[method].includes(factor);
+  return isSupported ? factor : null;
+}
+
+/**
+ * @overview Determines which source rows `scalePixelArt` reads to produce a band of target rows.
+ *
+ * @param {number} sourceHeight - The height of the source image.
+ * @param {number} targetHeight - The height of the target image; an integer multiple of `sourceHeight`.
+ * @param {number} rowStart - The first target row of the band.
+ * @param {number} rowEnd - The target row after the last row of the band.
+ * @param {string} edgeMode - How pixels outside the image are filled in (see `EDGE_MODES`).
+ *
+ * @returns {{start: number, end: number}} The first source row read and the row after the last one read.
+ */
+export function getPixelArtRowRange(sourceHeight, targetHeight, rowStart, rowEnd, edgeMode) {
+  const factor = Math.round(targetHeight / sourceHeight);
+  let start = Infinity;
+  let end = -Infinity;
+  for (let y = Math.floor(rowStart / factor) - NEIGHBORHOOD_RADIUS; y <= Math.ceil(rowEnd / factor) - 1 + NEIGHBORHOOD_RADIUS; y++) {
+    const row = resolveEdgeIndex(y, sourceHeight, edgeMode);
+    start = Math.min(start, row);
+    end = Math.max(end, row + 1);
+  }
+  return { start, end };
+}
+
+/**
+ * @overview Enlarges pixel art by an integer factor with an edge-aware scaler. Unlike the interpolating methods,
+ * these look at the pattern of similar and different colors around each source pixel and fill its block of output
+ * pixels so that diagonal edges come out smooth while flat areas and hard edges stay crisp.
+ * - `epx`: Scale2x (identical to EPX) for 2x and Scale3x for 3x. Only copies source colors, never blends them.
+ * - `hqx`: hq2x, hq3x and hq4x. Each neighbour is compared with the center by YUV difference, and the resulting
+ *   pattern looks up the blend of every output pixel in the hqx tables (see `HQX_TABLES`).
+ * - `xbr`: 2xBR, 3xBR and 4xBR. For each corner, the color differences along and across the diagonal of a 5x5
+ *   neighbourhood decide whether an edge cuts the corner off, and how steep it runs; the output pixels on the far
+ *   side of the edge are then blended toward the color beyond it (see `XBR_STEPS`).
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} source - The source pixel data and dimensions.
+ * @param {Uint8ClampedArray} targetData - The RGBA buffer to write the band of scaled rows into.
+ * @param {number} targetWidth - The width of the target image.
+ * @param {number} targetHeight - The full height of the target image.
+ * @param {string} method - The pixel-art method (a key of `PIXEL_ART_FACTORS`).
+ * @param {string} edgeMode - How pixels outside the image are filled in (see `EDGE_MODES`).
+ * @param {{rowStart: number, rowEnd: number, sourceRowOffset: number}} band - The target rows to produce and
+ * the source row stored at the start of `source.data`.
+ * @param {{onProgress?: (fraction: number) => void, signal?: AbortSignal}} control - Progress reporting and cancellation.
+ *
+ * @returns {void}
+ * @throws {Error} If the target size is not the source size multiplied by a factor the method supports.
+ * @throws {DOMException} An `AbortError` if `control.signal` is aborted.
+ */
+export function scalePixelArt(source, targetData, targetWidth, targetHeight, method, edgeMode, band, control) {
+  const { data, width, height } = source;
+  const factor = getPixelArtFactor(method, width, height, targetWidth, targetHeight);
+  if (!factor) {
+    throw new Error(
+      `The ${method} scaler needs a target size of exactly ${PIXEL_ART_FACTORS[method].join("x, ")}x the source size ` +
+        `(${width}x${height}), got ${targetWidth}x${targetHeight}`
+    );
+  }
+
+  const scaleBlock = { epx: scaleBlockEpx, hqx: scaleBlockHqx, xbr: scaleBlockXbr }[method];
+  const block = new Uint8ClampedArray(factor * factor * 4);
+  const neighborhood = new Int32Array(NEIGHBORHOOD_SIZE * NEIGHBORHOOD_SIZE);
+
+  // Resolve neighbour columns once; -1 marks a transparent pixel outside the image
+  const columns = new Int32Array(width + 2 * NEIGHBORHOOD_RADIUS);
+  for (let x = -NEIGHBORHOOD_RADIUS; x < width + NEIGHBORHOOD_RADIUS; x++) {
+    const isOutside = x < 0 || x >= width;
+    columns[x + NEIGHBORHOOD_RADIUS] = edgeMode === "transparent" && isOutside ? -1 : resolveEdgeIndex(x, width, edgeMode);
+  }
+
+  const firstSourceRow = Math.floor(band.rowStart / factor);
+  const lastSourceRow = Math.ceil(band.rowEnd / factor) - 1;
+  const advanceProgress = createProgressTracker(band.rowEnd - band.rowStart, control.onProgress);
+
+  for (let sourceY = firstSourceRow; sourceY <= lastSourceRow; sourceY++) {
+    throwIfAborted(control.signal);
+    // The block rows of this source row that fall inside the band
+    const blockRowStart = Math.max(0, band.rowStart - sourceY * factor);
+    const blockRowEnd = Math.min(factor, band.rowEnd - sourceY * factor);
+
+    for (let sourceX = 0; sourceX < width; sourceX++) {
+      for (let dy = -NEIGHBORHOOD_RADIUS; dy <= NEIGHBORHOOD_RADIUS; dy++) {
+        const y = sourceY + dy;
+        const isOutside = y < 0 || y >= height;
+        const row = edgeMode === "transparent" && isOutside ? -1 : resolveEdgeIndex(y, height, edgeMode) - band.sourceRowOffset;
+
+        for (let dx = -NEIGHBORHOOD_RADIUS; dx <= NEIGHBORHOOD_RADIUS; dx++) {
+          const column = columns[sourceX + dx + NEIGHBORHOOD_RADIUS];
+          const position = (dy + NEIGHBORHOOD_RADIUS) * NEIGHBORHOOD_SIZE + dx + NEIGHBORHOOD_RADIUS;
+          neighborhood[position] = row < 0 || column < 0 ? -1 : (row * width + column) * 4;
+        }
+      }
+
+      scaleBlock(data, neighborhood, factor, block);
+
+      for (let blockY = blockRowStart; blockY < blockRowEnd; blockY++) {
+        const targetIndex = ((sourceY * factor + blockY - band.rowStart) * targetWidth + sourceX * factor) * 4;
+        targetData.set(block.subarray(blockY * factor * 4, (blockY + 1) * factor * 4), targetIndex);
+      }
+    }
+    advanceProgress(blockRowEnd - blockRowStart);
+  }
+}
+
+/**
+ * @overview Fills one block with Scale2x (EPX) or Scale3x. Each output pixel takes the color of an orthogonal
+ * neighbour when that neighbour continues an edge through the corner, and the center color otherwise.
+ *
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {Int32Array} neighborhood - Byte offsets of the 5x5 neighbourhood in `data`, or -1 for transparent pixels.
+ * @param {number} factor - The scale factor (2 or 3).
+ * @param {Uint8ClampedArray} block - Receives the `factor` x `factor` output pixels.
+ *
+ * @returns {void}
+ */
+function scaleBlockEpx(data, neighborhood, factor, block) {
+  const at = (dx, dy) => neighborhood[CENTER + dy * NEIGHBORHOOD_SIZE + dx];
+  const same = (a, b) => isSameColor(data, a, b);
+  const [A, B, C, D, E, F, G, H, I] = [at(-1, -1), at(0, -1), at(1, -1), at(-1, 0), at(0, 0), at(1, 0), at(-1, 1), at(0, 1), at(1, 1)];
+
+  let pixels;
+  if (same(B, H) || same(D, F)) {
+    // No edge passes through the pixel in either direction
+    pixels = new Array(factor * factor).fill(E);
+  } else if (factor === 2) {
+    pixels = [
+      same(D, B) ? D : E, same(B, F) ? F : E,
+      same(D, H) ? D : E, same(H, F) ? F : E,
+    ];
+  } else {
+    pixels = [
+      same(D, B) ? D : E,
+      (same(D, B) && !same(E, C)) || (same(B, F) && !same(E, A)) ? B : E,
+      same(B, F) ? F : E,
+      (same(D, B) && !same(E, G)) || (same(D, H) && !same(E, A)) ? D : E,
+      E,
+      (same(B, F) && !same(E, I)) || (same(H, F) && !same(E, C)) ? F : E,
+      same(D, H) ? D : E,
+      (same(D, H) && !same(E, I)) || (same(H, F) && !same(E, G)) ? H : E,
+      same(H, F) ? F : E,
+    ];
+  }
+
+  pixels.forEach((pixel, i) => writeBlend(block, i * 4, data, [pixel], [1]));
+}
+
+/**
+ * @overview Fills one block with hq2x, hq3x or hq4x. Each quarter of the block is handled as if it were the
+ * top-left one, with the neighbourhood turned to match: the neighbours that differ from the center form the pattern,
+ * which selects the blend of each output pixel from the tables, some of them depending on whether two neighbours
+ * also differ from each other.
+ *
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {Int32Array} neighborhood - Byte offsets of the 5x5 neighbourhood in `data`, or -1 for transparent pixels.
+ * @param {number} factor - The scale factor (2, 3 or 4).
+ * @param {Uint8ClampedArray} block - Receives the `factor` x `factor` output pixels.
+ *
+ * @returns {void}
+ */
+function scaleBlockHqx(data, neighborhood, factor, block) {
+  const center = neighborhood[CENTER];
+
+  for (let quarterTurns = 0; quarterTurns < 4; quarterTurns++) {
+    const turned = TURNED_NEIGHBORHOODS[quarterTurns];
+    const at = ([dx, dy]) => neighborhood[turned[CENTER + dy * NEIGHBORHOOD_SIZE + dx]];
+    const pattern = HQX_NEIGHBORS.reduce((bits, offset, bit) => (isDifferentYuv(data, center, at(offset)) ? bits | (1 << bit) : bits), 0);
+    const pixels = HQX_BLEND_PIXELS.map(at);
+
+    HQX_PIXELS[factor].forEach(([x, y], i) => {
+      const rule = HQX_RULES[factor][i][pattern];
+      const weights = !rule.pair ? rule.weights : isDifferentYuv(data, at(rule.pair[0]), at(rule.pair[1])) ? rule.ifDifferent : rule.ifSimilar;
+      const [blockX, blockY] = turnBlockPixel(x, y, factor, quarterTurns);
+      writeBlend(block, (blockY * factor + blockX) * 4, data, pixels, weights);
+    });
+  }
+
+  // The tables leave out the middle pixel of a 3x block, which keeps the center color
+  if (factor === 3) writeBlend(block, 4 * 4, data, [center], [1]);
+}
+
+/**
+ * @overview Fills one block with 2xBR, 3xBR or 4xBR. The block starts out in the center color; then, corner by
+ * corner, the color differences along the corner's diagonal direction are weighed against those across it in the 5x5
+ * neighbourhood. Where an edge cuts the corner off, the steps of `XBR_STEPS` blend the output pixels beyond it toward
+ * the closer of the two neighbours on the far side, more of them for shallow and steep edges.
+ *
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {Int32Array} neighborhood - Byte offsets of the 5x5 neighbourhood in `data`, or -1 for transparent pixels.
+ * @param {number} factor - The scale factor (2, 3 or 4).
+ * @param {Uint8ClampedArray} block - Receives the `factor` x `factor` output pixels.
+ *
+ * @returns {void}
+ */
+function scaleBlockXbr(data, neighborhood, factor, block) {
+  const steps = XBR_STEPS[factor];
+  const E = neighborhood[CENTER];
+  const distance = (a, b) => yuvDistance(data, a, b);
+  const similar = (a, b) => !isDifferentYuv(data, a, b);
+  const same = (a, b) => isSameColor(data, a, b);
+
+  // Premultiplied colors of the output pixels, which each corner blends into in turn
+  const colors = new Float64Array(factor * factor * 4);
+  for (let i = 0; i < colors.length; i += 4) mixColor(colors, i, i, data, E, 1);
+
+  // Bottom-right, top-right, top-left and bottom-left corners, in the order xBR visits them
+  for (const quarterTurns of [0, 3, 2, 1]) {
+    const turned = TURNED_NEIGHBORHOODS[quarterTurns];
+    const at = (dx, dy) => neighborhood[turned[CENTER + dy * NEIGHBORHOOD_SIZE + dx]];
+    const [B, C, D, F, G, H, I] = [at(0, -1), at(1, -1), at(-1, 0), at(1, 0), at(-1, 1), at(0, 1), at(1, 1)];
+    if (same(E, H) || same(E, F)) continue;
+
+    const [F4, I4, H5, I5] = [at(2, 0), at(2, 1), at(0, 2), at(1, 2)];
+    const along = distance(E, C) + distance(E, G) + distance(I, H5) + distance(I, F4) + 4 * distance(H, F);
+    const across = distance(H, D) + distance(H, I5) + distance(F, I4) + distance(F, B) + 4 * distance(E, I);
+    if (along > across) continue;
+
+    const isStrong = along < across && (factor === 3
+      // 3xBR checks each side of the edge on its own
+      ? (!similar(F, B) && !similar(F, C)) || (!similar(H, D) && !similar(H, G)) ||
+        (similar(E, I) && ((!similar(F, F4) && !similar(F, I4)) || (!similar(H, H5) && !similar(H, I5)))) ||
+        similar(E, G) || similar(E, C)
+      : (!similar(F, B) && !similar(H, D)) || (similar(E, I) && !similar(F, I4) && !similar(H, I5)) ||
+        similar(E, G) || similar(E, C));
+
+    let cornerSteps = steps.weak;
+    if (isStrong) {
+      const isShallow = 2 * distance(F, G) <= distance(H, C) && !same(E, G) && !same(D, G);
+      const isSteep = distance(F, G) >= 2 * distance(H, C) && !same(E, C) && !same(B, C);
+      cornerSteps = isShallow && isSteep ? steps.both ?? [...steps.shallow, ...steps.steep]
+        : isShallow ? steps.shallow
+        : isSteep ? steps.steep
+        : steps.diagonal;
+    }
+
+    const edgeColor = distance(E, F) <= distance(E, H) ? F : H;
+    for (const [x, y, weight, fromX = x, fromY = y] of cornerSteps) {
+      const [targetX, targetY] = turnBlockPixel(x, y, factor, quarterTurns);
+      const [sourceX, sourceY] = turnBlockPixel(fromX, fromY, factor, quarterTurns);
+      mixColor(colors, (targetY * factor + targetX) * 4, (sourceY * factor + sourceX) * 4, data, edgeColor, weight);
+    }
+  }
+
+  for (let i = 0; i < colors.length; i += 4) {
+    const alpha = colors[i + 3];
+    for (let channel = 0; channel < 3; channel++) block[i + channel] = alpha > 0 ? (colors[i + channel] * 255) / alpha : 0;
+    block[i + 3] = alpha;
+  }
+}
+
+/**
+ * @overview Parses one entry of the hqx tables: a blend, or a pair of neighbours with the blends to use when they
+ * differ and when they are similar.
+ *
+ * @param {string|Array} entry - The table entry (see `HQX_TABLES`).
+ *
+ * @returns {{weights?: number[], pair?: number[][], ifDifferent?: number[], ifSimilar?: number[]}} The blend
+ * weights, or the pair as [dx, dy] offsets from the center with the weights for each case.
+ */
+function parseHqxEntry(entry) {
+  const parseWeights = (blend) => [...blend].map((digit) => parseInt(digit, 16));
+  if (!Array.isArray(entry)) return { weights: parseWeights(entry) };
+
+  const [pair, ifDifferent, ifSimilar] = entry;
+  return {
+    pair: pair.map((position) => [(position % 3) - 1, Math.floor(position / 3) - 1]),
+    ifDifferent: parseWeights(ifDifferent),
+    ifSimilar: parseWeights(ifSimilar),
+  };
+}
+
+/**
+ * @overview Turns an offset from the center pixel clockwise by whole quarter turns.
+ *
+ * @param {number} dx - The horizontal offset.
+ * @param {number} dy - The vertical offset.
+ * @param {number} quarterTurns - The number of clockwise quarter turns (0 to 3).
+ *
+ * @returns {number[]} The turned offset as [dx, dy].
+ */
+function turnOffset(dx, dy, quarterTurns) {
+  for (let turn = 0; turn < quarterTurns; turn++) [dx, dy] = [-dy, dx];
+  return [dx, dy];
+}
+
+/**
+ * @overview Turns a pixel of an output block clockwise about the block's center by whole quarter turns.
+ *
+ * @param {number} x - The column in the block.
+ * @param {number} y - The row in the block.
+ * @param {number} factor - The block size.
+ * @param {number} quarterTurns - The number of clockwise quarter turns (0 to 3).
+ *
+ * @returns {number[]} The turned position as [x, y].
+ */
+function turnBlockPixel(x, y, factor, quarterTurns) {
+  for (let turn = 0; turn < quarterTurns; turn++) [x, y] = [factor - 1 - y, x];
+  return [x, y];
+}
+
+/**
+ * @overview Checks whether two pixels have exactly the same RGBA value.
+ *
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {number} a - The byte offset of the first pixel, or -1 for a transparent pixel.
+ * @param {number} b - The byte offset of the second pixel, or -1 for a transparent pixel.
+ *
+ * @returns {boolean} True when all four channels are equal.
+ */
+function isSameColor(data, a, b) {
+  for (let channel = 0; channel < 4; channel++) {
+    if (readChannel(data, a, channel) !== readChannel(data, b, channel)) return false;
+  }
+  return true;
+}
+
+/**
+ * @overview Computes the absolute YUV (and alpha) differences between two pixels, the color metric of hqx and xBR.
+ * The colors are converted to whole YUV values first, as the reference hqx does, so that the thresholds split
+ * colors the same way.
+ *
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {number} a - The byte offset of the first pixel, or -1 for a transparent pixel.
+ * @param {number} b - The byte offset of the second pixel, or -1 for a transparent pixel.
+ *
+ * @returns {{y: number, u: number, v: number, alpha: number}} The absolute difference per component.
+ */
+function yuvDifference(data, a, b) {
+  const first = toYuv(data, a);
+  const second = toYuv(data, b);
+  return {
+    y: Math.abs(first.y - second.y),
+    u: Math.abs(first.u - second.u),
+    v: Math.abs(first.v - second.v),
+    alpha: Math.abs(readChannel(data, a, 3) - readChannel(data, b, 3)),
+  };
+}
+
+/**
+ * @overview Converts a pixel to whole YUV values.
+ *
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {number} offset - The byte offset of the pixel, or -1 for a transparent pixel.
+ *
+ * @returns {{y: number, u: number, v: number}} The luma and the two chroma components.
+ */
+function toYuv(data, offset) {
+  const red = readChannel(data, offset, 0);
+  const green = readChannel(data, offset, 1);
+  const blue = readChannel(data, offset, 2);
+  return {
+    y: Math.floor((299 * red + 587 * green + 114 * blue) / 1000),
+    u: Math.trunc((-169 * red - 331 * green + 500 * blue) / 1000),
+    v: Math.trunc((500 * red - 419 * green - 81 * blue) / 1000),
+  };
+}
+
+/**
+ * @overview Checks whether two pixels differ enough to count as an edge under the YUV thresholds.
+ *
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {number} a - The byte offset of the first pixel, or -1 for a transparent pixel.
+ * @param {number} b - The byte offset of the second pixel, or -1 for a transparent pixel.
+ *
+ * @returns {boolean} True when any component difference exceeds its threshold.
+ */
+function isDifferentYuv(data, a, b) {
+  const difference = yuvDifference(data, a, b);
+  return difference.y > THRESHOLD_Y || difference.u > THRESHOLD_U ||
+    difference.v > THRESHOLD_V || difference.alpha > THRESHOLD_ALPHA;
+}
+
+/**
+ * @overview Measures the weighted YUV distance between two pixels, weighting luma most.
+ *
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {number} a - The byte offset of the first pixel, or -1 for a transparent pixel.
+ * @param {number} b - The byte offset of the second pixel, or -1 for a transparent pixel.
+ *
+ * @returns {number} The distance; 0 for identical colors.
+ */
+function yuvDistance(data, a, b) {
+  const difference = yuvDifference(data, a, b);
+  return 48 * difference.y + 7 * difference.u + 6 * difference.v + 48 * difference.alpha;
+}
+
+/**
+ * @overview Writes the weighted mix of several pixels, blending color premultiplied by alpha.
+ *
+ * @param {Uint8ClampedArray} block - The output buffer.
+ * @param {number} offset - The byte offset to write the pixel at.
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {number[]} pixels - The byte offsets of the pixels, or -1 for transparent pixels.
+ * @param {number[]} weights - The weight of each pixel; they need not add up to 1.
+ *
+ * @returns {void}
+ */
+function writeBlend(block, offset, data, pixels, weights) {
+  let alpha = 0;
+  const color = [0, 0, 0];
+  pixels.forEach((pixel, i) => {
+    const pixelAlpha = readChannel(data, pixel, 3) * weights[i];
+    alpha += pixelAlpha;
+    for (let channel = 0; channel < 3; channel++) color[channel] += readChannel(data, pixel, channel) * pixelAlpha;
+  });
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  for (let channel = 0; channel < 3; channel++) block[offset + channel] = alpha > 0 ? color[channel] / alpha : 0;
+  block[offset + 3] = alpha / totalWeight;
+}
+
+/**
+ * @overview Mixes a premultiplied output color toward a source pixel, as the xBR steps do.
+ *
+ * @param {Float64Array} colors - The premultiplied output colors.
+ * @param {number} target - The offset in `colors` to store the result at.
+ * @param {number} from - The offset in `colors` of the color to start from.
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {number} pixel - The byte offset of the pixel to mix toward, or -1 for a transparent pixel.
+ * @param {number} weight - How far to mix, from 0 (keep the color) to 1 (take the pixel's).
+ *
+ * @returns {void}
+ */
+function mixColor(colors, target, from, data, pixel, weight) {
+  const alpha = readChannel(data, pixel, 3);
+  for (let channel = 0; channel < 3; channel++) {
+    colors[target + channel] = colors[from + channel] * (1 - weight) + (readChannel(data, pixel, channel) * alpha / 255) * weight;
+  }
+  colors[target + 3] = colors[from + 3] * (1 - weight) + alpha * weight;
+}
+
+/**
+ * @overview Reads one channel of a pixel, treating the -1 offset as a transparent black pixel.
+ *
+ * @param {Uint8ClampedArray} data - The source pixel data.
+ * @param {number} offset - The byte offset of the pixel, or -1.
+ * @param {number} channel - The channel (0 red, 1 green, 2 blue, 3 alpha).
+ *
+ * @returns {number} The channel value.
+ */
+function readChannel(data, offset, channel) {
+  return offset < 0 ? 0 : data[offset + channel];
+}
@@ -0,0 +1,168 @@
+/**
+ * @file lib/image-resizers/pngEncoder.js
+ * @author Sameer
+ * @description PNG encoding of raw RGBA buffers with a selectable compression level, which canvas encoding lacks.
+ * @lastUpdated 2026-10-19
+ */
+import { zlibSync } from "fflate";
+
+// Accepted compression levels: 0 stores the pixels uncompressed, 9 compresses hardest (and slowest)
+export const MIN_PNG_COMPRESSION = 0;
+export const MAX_PNG_COMPRESSION = 9;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const COLOR_TYPE_RGB = 2;
+const COLOR_TYPE_RGBA = 6;
+
+/**
+ * @overview Encodes an image as an 8-bit PNG. Fully opaque images are stored without their alpha channel. Each row
+ * is filtered with whichever of the five PNG filters leaves the smallest residuals, and the result is deflated at
+ * the given level, so higher levels trade encoding time for a smaller file while the pixels stay exact.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The pixel data and its dimensions.
+ * @param {number} level - The compression level, from `MIN_PNG_COMPRESSION` to `MAX_PNG_COMPRESSION`.
+ *
+ * @returns {Uint8Array} The PNG file.
+ * @throws {Error} If the level is out of range.
+ */
+export function encodePng(image, level) {
+  if (!Number.isInteger(level) || level < MIN_PNG_COMPRESSION || level > MAX_PNG_COMPRESSION) {
+    throw new Error("Invalid PNG compression level: " + level);
+  }
+
+  const { data, width, height } = image;
+  let opaque = true;
+  for (let i = 3; i < data.length && opaque; i += 4) {
+    opaque = data[i] === 255;
+  }
+  const channels = opaque ? 3 : 4;
+  const stride = width * channels;
+
+  // Pack the rows without alpha if it is not needed, then filter each one behind its filter type byte
+  const filtered = new Uint8Array(height * (stride + 1));
+  let previous = new Uint8Array(stride); // The row above the first is taken as zeros
+  let current = new Uint8Array(stride);
+  const candidate = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0, source = y * width * 4, target = 0; x < width; x++, source += 4, target += channels) {
+      current[target] = data[source];
+      current[target + 1] = data[source + 1];
+      current[target + 2] = data[source + 2];
+      if (channels === 4) current[target + 3] = data[source + 3];
+    }
+
+    const rowStart = y * (stride + 1);
+    let bestCost = Infinity;
+    // Level 0 does not compress, so searching for the best filter would only cost time
+    for (let filter = 0; filter < (level === 0 ? 1 : 5); filter++) {
+      const cost = applyFilter(filter, current, previous, channels, candidate);
+      if (cost < bestCost) {
+        bestCost = cost;
+        filtered[rowStart] = filter;
+        filtered.set(candidate, rowStart + 1);
+      }
+    }
+    [previous, current] = [current, previous];
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, opaque ? COLOR_TYPE_RGB : COLOR_TYPE_RGBA, 0, 0, 0], 8); // Bit depth, color type, deflate, adaptive filtering, no interlace
+
+  const chunks = [
+    createPngChunk("IHDR", header),
+    createPngChunk("IDAT", zlibSync(filtered, { level })),
+    createPngChunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((total, chunk) => total + chunk.length, 0));
+  png.set(PNG_SIGNATURE);
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+}
+
+/**
+ * @overview Builds a PNG chunk: its length, type, data and CRC.
+ *
+ * @param {string} type - The four-letter chunk type.
+ * @param {Uint8Array} data - The chunk data.
+ *
+ * @returns {Uint8Array} The chunk.
+ */
+export function createPngChunk(type, data) {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * @overview Filters one row with a PNG filter (0 None, 1 Sub, 2 Up, 3 Average, 4 Paeth) and scores the result by
+ * the sum of the residuals taken as signed bytes, the usual estimate of how well the row will compress.
+ *
+ * @param {number} filter - The filter type.
+ * @param {Uint8Array} row - The row's bytes.
+ * @param {Uint8Array} above - The bytes of the row above (zeros for the first row).
+ * @param {number} channels - The bytes per pixel.
+ * @param {Uint8Array} output - Receives the filtered bytes.
+ *
+ * @returns {number} The score; lower compresses better.
+ */
+function applyFilter(filter, row, above, channels, output) {
+  let cost = 0;
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= channels ? row[i - channels] : 0;
+    const up = above[i];
+    const upLeft = i >= channels ? above[i - channels] : 0;
+    let predicted = 0;
+    if (filter === 1) {
+      predicted = left;
+    } else if (filter === 2) {
+      predicted = up;
+    } else if (filter === 3) {
+      predicted = (left + up) >> 1;
+    } else if (filter === 4) {
+      // Paeth: the neighbor closest to left + up - upLeft
+      const estimate = left + up - upLeft;
+      const toLeft = Math.abs(estimate - left);
+      const toUp = Math.abs(estimate - up);
+      const toUpLeft = Math.abs(estimate - upLeft);
+      predicted = toLeft <= toUp && toLeft <= toUpLeft ? left : toUp <= toUpLeft ? up : upLeft;
+    }
+    const residual = (row[i] - predicted) & 0xff;
+    output[i] = residual;
+    cost += residual < 128 ? residual : 256 - residual;
+  }
+  return cost;
+}
+
+let crcTable = null; // Built on first use
+
+/**
+ * @overview Computes the CRC-32 checksum used by PNG chunks.
+ *
+ * @param {Uint8Array} bytes - The chunk type and data.
+ *
+ * @returns {number} The checksum as an unsigned 32-bit integer.
+ */
+function crc32(bytes) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,39 @@
+/**
+ * @file lib/image-resizers/postProcess.js
+ * @author Anshi
+ * @description The stages applied to the whole image after resampling: sharpening, then padding or cropping to the fit box.
+ * @lastUpdated 2026-10-19
+ */
+import { unsharpMask } from "./sharpen";
+import { placeImage } from "./fit";
+
+/**
+ * @overview Applies the post-resize stages requested in a set of resize options, in order: the unsharp mask, then
+ * the placement onto the padded or cropped output of the 'contain' and 'cover' fit modes. Sharpening comes first so
+ * that the edge between the image and its padding is not sharpened into a halo. Both stages need the whole image
+ * (sharpening reads across rows), so they run after any row bands have been stitched together.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The resampled image.
+ * @param {object} options - The resize options.
+ * @param {object} [options.sharpen] - Unsharp-mask settings (see `unsharpMask`); omitted to skip sharpening.
+ * @param {{width: number, height: number, left: number, top: number}} [options.placement] - The output box and the
+ * image's position in it (see `computeFitLayout`); omitted when the resampled image is the output.
+ * @param {number[]} [options.background] - The RGBA color of the padding (transparent by default).
+ * @param {AbortSignal} [options.signal] - Aborting it stops the sharpening at the next row.
+ * @param {{onProgress?: (fraction: number) => void, signal?: AbortSignal}} [control] - Progress reporting and
+ * cancellation for the sharpening; defaults to `options.signal` without progress.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The processed image, or `image` itself when
+ * no stage was requested.
+ * @throws {DOMException} An `AbortError` if the signal is aborted.
+ */
+export function applyPostProcessing(image, options, control = { signal: options.signal }) {
+  let result = image;
+  if (options.sharpen) {
+    result = unsharpMask(result, options.sharpen, control);
+  }
+  if (options.placement) {
+    result = placeImage(result, options.placement, options.background);
+  }
+  return result;
+}
@@ -0,0 +1,275 @@
+/**
+ * @file lib/image-resizers/resample.js
+ * @author Anshi
+ * @description DOM-free resizing core that operates on raw RGBA buffers, shared by all resizers.
+ * @lastUpdated 2026-10-19
+ */
+import { resampleSeparable, getContributingRows, EDGE_MODES } from "./SeparableResampler";
+import { boxWeight, triangleWeight, cubicWeight, lanczosWeight, CUBIC_PRESETS, MIN_LANCZOS_LOBES, MAX_LANCZOS_LOBES } from "./kernels";
+import { isPixelArtMethod, scalePixelArt, getPixelArtRowRange } from "./pixelArt";
+import { carveSeams } from "./seamCarving";
+import { upscaleEdgeDirected } from "./edgeDirected";
+import { resampleRotated, getRotatedRowRange } from "./transform";
+import { throwIfAborted, createProgressTracker } from "./taskControl";
+
+/**
+ * @overview Resizes raw RGBA pixel data to the target dimensions. This function touches no DOM APIs,
+ * so it can be unit-tested in Node and run inside a Web Worker. A band of target rows can be produced
+ * on its own (see `options.rowStart` / `options.rowEnd`), so a large resize can be split across workers.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number, rowOffset?: number}} source - The source pixel data
+ * (4 bytes per pixel, row-major) and its full dimensions. When `rowOffset` is given, `data` only holds the rows
+ * starting at that index, which must cover the range returned by `getSourceRowRange` for the band.
+ * @param {number} targetWidth - The width of the output image in pixels.
+ * @param {number} targetHeight - The height of the output image in pixels.
+ * @param {object} [options] - Resampling options.
+ * @param {('nearest' | 'area' | 'bilinear' | 'bicubic' | 'lanczos' | 'lanczos2' | 'lanczos3' | 'epx' | 'hqx' | 'xbr' | 'seam' | 'edi')} [options.method='bilinear'] -
+ * The interpolation method. The pixel-art scalers 'epx', 'hqx' and 'xbr' only enlarge by the integer factors listed in
+ * `PIXEL_ART_FACTORS`, equal on both axes. 'seam' resizes by seam carving (see `carveSeams`) and 'edi' enlarges by
+ * edge-directed interpolation (see `upscaleEdgeDirected`); both always produce the whole image, so they cannot be
+ * split into row bands (see `canSplitIntoBands`).
+ * @param {number} [options.lobes=3] - The number of lobes for the 'lanczos' method, a whole number from
+ * `MIN_LANCZOS_LOBES` to `MAX_LANCZOS_LOBES`.
+ * @param {number} [options.cubicB=0] - The B (blur) parameter of the 'bicubic' kernel (see `CUBIC_PRESETS`).
+ * @param {number} [options.cubicC=1] - The C (sharpening) parameter of the 'bicubic' kernel.
+ * @param {boolean} [options.linearLight=false] - Whether to interpolate in linear light rather than on the
+ * sRGB-encoded values. Has no effect on 'nearest', the pixel-art scalers and 'seam', and for 'edi' only on the final
+ * resize to the exact target size.
+ * @param {('clamp' | 'mirror' | 'wrap' | 'transparent')} [options.edgeMode='clamp'] - How kernel taps that fall outside
+ * the source image are filled in. 'nearest' only ever samples inside the image, so every mode gives the same result for it.
+ * @param {boolean} [options.alignCorners=false] - Whether to align the centers of the corner pixels of the source and
+ * target images instead of their outer edges. By default every target pixel is centered on the source area it covers,
+ * so all methods agree on where pixels lie; aligning corners keeps the corner pixels exact (as in e.g. TensorFlow's
+ * `align_corners`) at the cost of stretching the image by half a pixel at each edge.
+ * @param {object} [options.transform] - The crop, flip and rotation applied on the way in (see `IDENTITY_TRANSFORM`).
+ * Only its free `angle` is handled here: the source must already be cropped, flipped and turned (see `orientImage`).
+ * A non-zero angle rotates the image clockwise within the resampling, so the target covers the rotated bounding box;
+ * it is supported by 'nearest' and the kernel-based methods, and `options.edgeMode` / `options.alignCorners` do not apply.
+ * @param {Int8Array} [options.mask] - For 'seam', one `SEAM_MASK` value per source pixel marking areas to protect or remove.
+ * @param {number} [options.rowStart=0] - The first target row to produce.
+ * @param {number} [options.rowEnd=targetHeight] - The target row after the last row to produce.
+ * @param {(fraction: number) => void} [options.onProgress] - Receives the completed fraction (0 to 1) as rows are produced.
+ * @param {AbortSignal} [options.signal] - Aborting it stops the resize at the next row.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} A new RGBA buffer with the resized image,
+ * or with just the requested band of rows (in which case `height` is the band's height).
+ * @throws {Error} If the target dimensions, the method, the edge mode, the cubic parameters or the number of Lanczos
+ * lobes are invalid, if a pixel-art scaler is asked for a size that is not a supported integer multiple of the source,
+ * or if a free rotation is combined with a method that cannot perform it.
+ * @throws {DOMException} An `AbortError` if `options.signal` is aborted.
+ */
+export function resample(source, targetWidth, targetHeight, options = {}) {
+  const { method = "bilinear", edgeMode = "clamp", rowStart = 0, rowEnd = targetHeight, onProgress, signal } = options;
+
+  if (!Number.isInteger(targetWidth) || !Number.isInteger(targetHeight) || targetWidth < 1 || targetHeight < 1) {
+    throw new Error(`Invalid target dimensions: ${targetWidth}x${targetHeight}`);
+  }
+  // Validated up front so that 'nearest', which never reads outside the image, rejects typos as well
+  if (!EDGE_MODES.includes(edgeMode)) {
+    throw new Error("Unknown edge mode: " + edgeMode);
+  }
+
+  const angle = options.transform?.angle ?? 0;
+  if (angle && !supportsFreeRotation(method)) {
+    throw new Error(`The '${method}' method cannot rotate by a free angle`);
+  }
+
+  if (!canSplitIntoBands(method) && (rowStart !== 0 || rowEnd !== targetHeight || source.rowOffset)) {
+    throw new Error(`The '${method}' method cannot be split into row bands`);
+  }
+  if (method === "seam") {
+    return carveSeams(source, targetWidth, targetHeight, { mask: options.mask, onProgress, signal });
+  }
+  if (method === "edi") {
+    const linearLight = Boolean(options.linearLight);
+    return upscaleEdgeDirected(source, targetWidth, targetHeight, { edgeMode, linearLight, onProgress, signal });
+  }
+
+  const band = { rowStart, rowEnd, sourceRowOffset: source.rowOffset ?? 0 };
+  const control = { onProgress, signal };
+  const data = new Uint8ClampedArray(targetWidth * (rowEnd - rowStart) * 4);
+
+  if (angle) {
+    const filter = method === "nearest"
+      ? null
+      : { ...getInterpolationFilter(method, options), linearLight: Boolean(options.linearLight) };
+    resampleRotated(source, data, targetWidth, targetHeight, angle, filter, band, control);
+  } else if (method === "nearest") {
+    resampleNearest(source, data, targetWidth, targetHeight, Boolean(options.alignCorners), band, control);
+  } else if (isPixelArtMethod(method)) {
+    scalePixelArt(source, data, targetWidth, targetHeight, method, edgeMode, band, control);
+  } else {
+    const filter = {
+      ...getInterpolationFilter(method, options),
+      alignCorners: Boolean(options.alignCorners),
+      edgeMode,
+      linearLight: Boolean(options.linearLight),
+    };
+    resampleSeparable(source.data, source.width, source.height, data, targetWidth, targetHeight, filter, band, control);
+  }
+
+  return { data, width: targetWidth, height: rowEnd - rowStart };
+}
+
+/**
+ * @overview Checks whether a method can produce a band of target rows on its own, so that the work can be split
+ * across workers. Seam carving cannot, as every seam runs through the whole image, and neither can edge-directed
+ * upscaling, whose doublings each depend on the whole previous one.
+ *
+ * @param {string} method - The resize method name.
+ *
+ * @returns {boolean} True if `options.rowStart` / `options.rowEnd` may select a partial band for this method.
+ */
+export function canSplitIntoBands(method) {
+  return method !== "seam" && method !== "edi";
+}
+
+/**
+ * @overview Checks whether a method can rotate by a free angle (see `options.transform` of `resample`). This needs a
+ * kernel that can be evaluated anywhere, which 'nearest' and the kernel-based methods have.
+ *
+ * @param {string} method - The resize method name.
+ *
+ * @returns {boolean} True if the method supports a non-zero `transform.angle`.
+ */
+export function supportsFreeRotation(method) {
+  return method === "nearest" || ["area", "bilinear", "bicubic", "lanczos", "lanczos2", "lanczos3"].includes(method);
+}
+
+/**
+ * @overview Determines which source rows `resample` reads to produce a band of target rows.
+ *
+ * @param {{width: number, height: number}} source - The dimensions of the source image.
+ * @param {{width: number, height: number}} target - The dimensions of the target image.
+ * @param {number} rowStart - The first target row of the band.
+ * @param {number} rowEnd - The target row after the last row of the band.
+ * @param {object} [options] - The resampling options that will be passed to `resample`.
+ *
+ * @returns {{start: number, end: number}} The first source row read and the row after the last one read.
+ */
+export function getSourceRowRange(source, target, rowStart, rowEnd, options = {}) {
+  const { method = "bilinear", edgeMode = "clamp" } = options;
+  const sourceHeight = source.height;
+  const targetHeight = target.height;
+
+  const alignCorners = Boolean(options.alignCorners);
+
+  const angle = options.transform?.angle ?? 0;
+  if (angle) {
+    const radius = method === "nearest" ? 0 : getInterpolationFilter(method, options).radius;
+    return getRotatedRowRange(source, target, angle, radius, rowStart, rowEnd);
+  }
+
+  if (method === "nearest") {
+    return {
+      start: nearestSourceIndex(rowStart, sourceHeight, targetHeight, alignCorners),
+      end: nearestSourceIndex(rowEnd - 1, sourceHeight, targetHeight, alignCorners) + 1,
+    };
+  }
+
+  if (!canSplitIntoBands(method)) {
+    return { start: 0, end: sourceHeight };
+  }
+
+  if (isPixelArtMethod(method)) {
+    return getPixelArtRowRange(sourceHeight, targetHeight, rowStart, rowEnd, edgeMode);
+  }
+
+  const filter = { ...getInterpolationFilter(method, options), alignCorners, edgeMode };
+  return getContributingRows(sourceHeight, targetHeight, filter, rowStart, rowEnd);
+}
+
+/**
+ * @overview Resolves an interpolation method name to the kernel description used by the separable engine.
+ *
+ * @param {string} method - The interpolation method name.
+ * @param {object} options - The resampling options (see `resample`).
+ *
+ * @returns {{kernel: (t: number, scale: number) => number, radius: number}} The kernel description.
+ * @throws {Error} If the method is unknown, the cubic parameters are not finite numbers or the number of Lanczos lobes
+ * is not a whole number in the supported range.
+ */
+function getInterpolationFilter(method, options) {
+  switch (method) {
+    case "area":
+      // The footprint plus one source pixel never reaches further than 1 in kernel units
+      return { kernel: boxWeight, radius: 1 };
+    case "bilinear":
+      return { kernel: triangleWeight, radius: 1 };
+    case "bicubic": {
+      const { cubicB = CUBIC_PRESETS.classic.b, cubicC = CUBIC_PRESETS.classic.c } = options;
+      if (!Number.isFinite(cubicB) || !Number.isFinite(cubicC)) {
+        throw new Error(`Invalid cubic parameters: B=${cubicB}, C=${cubicC}`);
+      }
+      return { kernel: (t) => cubicWeight(t, cubicB, cubicC), radius: 2 };
+    }
+    case "lanczos2":
+    case "lanczos3":
+    case "lanczos": {
+      const lobes = method === "lanczos" ? options.lobes ?? 3 : Number(method.slice(-1));
+      if (!Number.isInteger(lobes) || lobes < MIN_LANCZOS_LOBES || lobes > MAX_LANCZOS_LOBES) {
+        throw new Error(`Invalid number of Lanczos lobes: ${lobes} (expected a whole number from ${MIN_LANCZOS_LOBES} to ${MAX_LANCZOS_LOBES})`);
+      }
+      return { kernel: (t) => lanczosWeight(t, lobes), radius: lobes };
+    }
+    default:
+      throw new Error("Unknown resize method: " + method);
+  }
+}
+
+/**
+ * @overview Copies the closest source pixel into every target pixel. Each RGBA pixel is moved as a single
+ * 32-bit word through `Uint32Array` views, with source coordinates precomputed once per row and column.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} source - The source pixel data and dimensions.
+ * @param {Uint8ClampedArray} targetData - The RGBA buffer to write the band of resized rows into.
+ * @param {number} targetWidth - The width of the target image.
+ * @param {number} targetHeight - The full height of the target image.
+ * @param {boolean} alignCorners - Whether to align the corner pixels rather than the image edges (see `resample`).
+ * @param {{rowStart: number, rowEnd: number, sourceRowOffset: number}} band - The target rows to produce and
+ * the source row stored at the start of `source.data`.
+ * @param {{onProgress?: (fraction: number) => void, signal?: AbortSignal}} control - Progress reporting and cancellation.
+ *
+ * @returns {void}
+ * @throws {DOMException} An `AbortError` if `control.signal` is aborted.
+ */
+function resampleNearest(source, targetData, targetWidth, targetHeight, alignCorners, band, control) {
+  const sourcePixels = new Uint32Array(source.data.buffer, source.data.byteOffset, source.data.length / 4);
+  const targetPixels = new Uint32Array(targetData.buffer, targetData.byteOffset, targetData.length / 4);
+
+  // Map each target column back to the nearest source column, clamped to the image bounds
+  const sourceColumns = new Int32Array(targetWidth);
+  for (let x = 0; x < targetWidth; x++) {
+    sourceColumns[x] = nearestSourceIndex(x, source.width, targetWidth, alignCorners);
+  }
+
+  const advanceProgress = createProgressTracker(band.rowEnd - band.rowStart, control.onProgress);
+  for (let y = band.rowStart; y < band.rowEnd; y++) {
+    throwIfAborted(control.signal);
+    const sourceRow = (nearestSourceIndex(y, source.height, targetHeight, alignCorners) - band.sourceRowOffset) * source.width;
+    const targetRow = (y - band.rowStart) * targetWidth;
+
+    for (let x = 0; x < targetWidth; x++) {
+      targetPixels[targetRow + x] = sourcePixels[sourceRow + sourceColumns[x]];
+    }
+    advanceProgress();
+  }
+}
+
+/**
+ * @overview Maps a target pixel index to the index of the source pixel whose center is nearest to the target
+ * pixel's center along one axis, using the same pixel alignment as the interpolating methods.
+ *
+ * @param {number} target - The target pixel index.
+ * @param {number} sourceSize - The number of source pixels along this axis.
+ * @param {number} targetSize - The number of target pixels along this axis.
+ * @param {boolean} alignCorners - Whether to align the corner pixels rather than the image edges (see `resample`).
+ *
+ * @returns {number} The source pixel index, clamped to the image bounds.
+ */
+function nearestSourceIndex(target, sourceSize, targetSize, alignCorners) {
+  const index = alignCorners
+    ? Math.round(targetSize === 1 ? (sourceSize - 1) / 2 : (target * (sourceSize - 1)) / (targetSize - 1))
+    : Math.floor(((target + 0.5) * sourceSize) / targetSize);
+  return Math.max(0, Math.min(sourceSize - 1, index));
+}
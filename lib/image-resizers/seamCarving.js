@@ -0,0 +1,333 @@
+/**
+ * @file lib/image-resizers/seamCarving.js
+ * @author Sameer
+ * @description Content-aware resizing by seam carving over raw RGBA buffers.
+ * @lastUpdated 2026-10-19
+ */
+import { throwIfAborted, createProgressTracker } from "./taskControl";
+
+/**
+ * @overview Values of a seam-carving mask, one per source pixel.
+ * @constant {{NONE: number, PROTECT: number, REMOVE: number}}
+ */
+export const SEAM_MASK = {
+  NONE: 0,
+  PROTECT: 1,
+  REMOVE: -1,
+};
+
+// Energy added to masked pixels; far above any gradient, so seams avoid (or seek out) them whenever possible
+const MASK_ENERGY = 1e6;
+
+/**
+ * @overview Resizes an image by seam carving (Avidan and Shamir, 2007). Instead of scaling every pixel, it
+ * repeatedly removes the connected path of pixels (a seam) that crosses the image with the least visible detail,
+ * or duplicates such seams to enlarge it, so faces and objects keep their proportions when the aspect ratio changes.
+ * Width is changed first, then height. Enlarging inserts at most half the current size per round, so stretched
+ * regions are spread over the image instead of repeating one seam.
+ *
+ * The cost is O(width * height) per seam, so changing a large image by many pixels takes noticeably longer than the
+ * other methods, and the work cannot be split into row bands.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} source - The source pixel data and dimensions.
+ * @param {number} targetWidth - The width of the output image in pixels.
+ * @param {number} targetHeight - The height of the output image in pixels.
+ * @param {object} [options] - Carving options.
+ * @param {Int8Array} [options.mask] - One `SEAM_MASK` value per source pixel (row-major). Seams avoid protected
+ * pixels and pass through pixels marked for removal; removal marks are ignored while enlarging.
+ * @param {(fraction: number) => void} [options.onProgress] - Receives the completed fraction (0 to 1) as seams are processed.
+ * @param {AbortSignal} [options.signal] - Aborting it stops the resize at the next seam.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} A new RGBA buffer with the carved image.
+ * @throws {Error} If the mask does not have one entry per source pixel.
+ * @throws {DOMException} An `AbortError` if `options.signal` is aborted.
+ */
+export function carveSeams(source, targetWidth, targetHeight, options = {}) {
+  const { mask, onProgress, signal } = options;
+  const { width, height } = source;
+
+  if (mask && mask.length !== width * height) {
+    throw new Error(`The seam mask has ${mask.length} entries, expected ${width * height}`);
+  }
+
+  const control = {
+    signal,
+    advanceProgress: createProgressTracker(Math.abs(targetWidth - width) + Math.abs(targetHeight - height), onProgress),
+  };
+
+  let image = {
+    pixels: new Uint32Array(source.data.slice().buffer),
+    mask: mask ? Int8Array.from(mask) : new Int8Array(width * height),
+    width,
+    height,
+  };
+  image = resizeWidth(image, targetWidth, control);
+  // Height is carved as the width of the transposed image
+  image = transpose(resizeWidth(transpose(image), targetHeight, control));
+
+  return { data: new Uint8ClampedArray(image.pixels.buffer), width: image.width, height: image.height };
+}
+
+/**
+ * @overview Removes or inserts vertical seams until the image has the target width.
+ *
+ * @param {{pixels: Uint32Array, mask: Int8Array, width: number, height: number}} image - The image, with one
+ * packed RGBA value and one mask value per pixel.
+ * @param {number} targetWidth - The width to reach.
+ * @param {{signal?: AbortSignal, advanceProgress: (units?: number) => void}} control - Cancellation and progress.
+ *
+ * @returns {{pixels: Uint32Array, mask: Int8Array, width: number, height: number}} The image at the target width.
+ * @throws {DOMException} An `AbortError` if `control.signal` is aborted.
+ */
+function resizeWidth(image, targetWidth, control) {
+  if (image.width > targetWidth) {
+    const carver = createCarver(image, false);
+    while (carver.width > targetWidth) {
+      throwIfAborted(control.signal);
+      removeSeam(carver);
+      control.advanceProgress();
+    }
+    return compact(carver);
+  }
+
+  while (image.width < targetWidth) {
+    const count = Math.min(targetWidth - image.width, Math.max(1, Math.floor(image.width / 2)));
+    image = insertSeams(image, count, control);
+  }
+  return image;
+}
+
+/**
+ * @overview Enlarges the image by duplicating its `count` lowest-energy seams. The seams are found by removing
+ * them one after another from a scratch copy, so each one is distinct, and are then inserted into the original
+ * image as the average of the seam pixel and its right-hand neighbour.
+ *
+ * @param {{pixels: Uint32Array, mask: Int8Array, width: number, height: number}} image - The image to enlarge.
+ * @param {number} count - The number of seams to insert; at most the image width.
+ * @param {{signal?: AbortSignal, advanceProgress: (units?: number) => void}} control - Cancellation and progress.
+ *
+ * @returns {{pixels: Uint32Array, mask: Int8Array, width: number, height: number}} The enlarged image.
+ * @throws {DOMException} An `AbortError` if `control.signal` is aborted.
+ */
+function insertSeams(image, count, control) {
+  const { pixels, mask, width, height } = image;
+  const carver = createCarver(image, true);
+  const seams = [];
+  for (let i = 0; i < count; i++) {
+    throwIfAborted(control.signal);
+    seams.push(removeSeam(carver));
+    control.advanceProgress();
+  }
+
+  const newWidth = width + count;
+  const newPixels = new Uint32Array(newWidth * height);
+  const newMask = new Int8Array(newWidth * height);
+  const duplicated = new Uint8Array(width);
+
+  for (let y = 0; y < height; y++) {
+    duplicated.fill(0);
+    for (const seam of seams) {
+      duplicated[seam[y]] = 1;
+    }
+
+    let target = y * newWidth;
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      newPixels[target] = pixels[index];
+      newMask[target++] = mask[index];
+      if (duplicated[x]) {
+        newPixels[target] = averagePixels(pixels[index], pixels[y * width + Math.min(width - 1, x + 1)]);
+        newMask[target++] = mask[index];
+      }
+    }
+  }
+
+  return { pixels: newPixels, mask: newMask, width: newWidth, height };
+}
+
+/**
+ * @overview Prepares the working state for removing seams from an image: copies of its pixels and mask, the
+ * luminance used for the energy, the energy itself and the original column of every pixel. Rows keep their
+ * original stride while seams are removed; only the first `width` entries of each row are in use.
+ *
+ * @param {{pixels: Uint32Array, mask: Int8Array, width: number, height: number}} image - The image to carve.
+ * @param {boolean} ignoreRemoveMarks - Whether pixels marked for removal should be treated as unmarked.
+ *
+ * @returns {object} The carver state passed to `removeSeam` and `compact`.
+ */
+function createCarver(image, ignoreRemoveMarks) {
+  const { width, height } = image;
+  const bytes = new Uint8Array(image.pixels.buffer, image.pixels.byteOffset, image.pixels.length * 4);
+  const luminance = new Float32Array(width * height);
+  const bias = new Float32Array(width * height);
+  const origin = new Int32Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    // Transparent pixels count as dark, so seams do not treat a fading edge as flat
+    const alpha = bytes[i * 4 + 3] / 255;
+    luminance[i] = (0.299 * bytes[i * 4] + 0.587 * bytes[i * 4 + 1] + 0.114 * bytes[i * 4 + 2]) * alpha;
+    if (image.mask[i] === SEAM_MASK.PROTECT) bias[i] = MASK_ENERGY;
+    else if (image.mask[i] === SEAM_MASK.REMOVE && !ignoreRemoveMarks) bias[i] = -MASK_ENERGY;
+    origin[i] = i % width;
+  }
+
+  const carver = {
+    pixels: image.pixels.slice(),
+    mask: image.mask.slice(),
+    luminance,
+    bias,
+    origin,
+    energy: new Float32Array(width * height),
+    cost: new Float64Array(width * height),
+    width,
+    stride: width,
+    height,
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      updateEnergy(carver, x, y);
+    }
+  }
+  return carver;
+}
+
+/**
+ * @overview Recomputes the energy of one pixel: the sum of its horizontal and vertical luminance gradients,
+ * plus the mask bias.
+ *
+ * @param {object} carver - The carver state (see `createCarver`).
+ * @param {number} x - The current column of the pixel.
+ * @param {number} y - The row of the pixel.
+ *
+ * @returns {void}
+ */
+function updateEnergy(carver, x, y) {
+  const { luminance, width, height, stride } = carver;
+  const row = y * stride;
+  const left = luminance[row + Math.max(0, x - 1)];
+  const right = luminance[row + Math.min(width - 1, x + 1)];
+  const up = luminance[Math.max(0, y - 1) * stride + x];
+  const down = luminance[Math.min(height - 1, y + 1) * stride + x];
+  carver.energy[row + x] = Math.abs(right - left) + Math.abs(down - up) + carver.bias[row + x];
+}
+
+/**
+ * @overview Finds the vertical seam with the lowest total energy by dynamic programming and removes it,
+ * shifting the rest of each row left. Only the energy of pixels next to the seam changes, so only those are
+ * recomputed.
+ *
+ * @param {object} carver - The carver state (see `createCarver`); updated in place.
+ *
+ * @returns {Int32Array} The original column of the removed pixel in every row.
+ */
+function removeSeam(carver) {
+  const { energy, cost, width, stride, height } = carver;
+
+  // Cheapest cost of a seam from the top row down to each pixel
+  for (let x = 0; x < width; x++) {
+    cost[x] = energy[x];
+  }
+  for (let y = 1; y < height; y++) {
+    const row = y * stride;
+    const previous = row - stride;
+    for (let x = 0; x < width; x++) {
+      let best = cost[previous + x];
+      if (x > 0 && cost[previous + x - 1] < best) best = cost[previous + x - 1];
+      if (x < width - 1 && cost[previous + x + 1] < best) best = cost[previous + x + 1];
+      cost[row + x] = energy[row + x] + best;
+    }
+  }
+
+  // Walk back up from the cheapest pixel in the bottom row
+  const seam = new Int32Array(height);
+  const lastRow = (height - 1) * stride;
+  for (let x = 1; x < width; x++) {
+    if (cost[lastRow + x] < cost[lastRow + seam[height - 1]]) seam[height - 1] = x;
+  }
+  for (let y = height - 2; y >= 0; y--) {
+    const row = y * stride;
+    const below = seam[y + 1];
+    let best = below;
+    if (below > 0 && cost[row + below - 1] < cost[row + best]) best = below - 1;
+    if (below < width - 1 && cost[row + below + 1] < cost[row + best]) best = below + 1;
+    seam[y] = best;
+  }
+
+  const removed = new Int32Array(height);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const x = seam[y];
+    removed[y] = carver.origin[row + x];
+    for (const values of [carver.pixels, carver.mask, carver.luminance, carver.bias, carver.origin, energy]) {
+      values.copyWithin(row + x, row + x + 1, row + width);
+    }
+  }
+  carver.width--;
+
+  // Seams move at most one column per row, so the pixels whose neighbours changed lie within two columns of it
+  for (let y = 0; y < height; y++) {
+    for (let x = Math.max(0, seam[y] - 2); x <= Math.min(carver.width - 1, seam[y] + 1); x++) {
+      updateEnergy(carver, x, y);
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * @overview Packs the pixels and mask that remain after removing seams into tightly packed arrays.
+ *
+ * @param {object} carver - The carver state (see `createCarver`).
+ *
+ * @returns {{pixels: Uint32Array, mask: Int8Array, width: number, height: number}} The carved image.
+ */
+function compact(carver) {
+  const { width, stride, height } = carver;
+  const pixels = new Uint32Array(width * height);
+  const mask = new Int8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    pixels.set(carver.pixels.subarray(y * stride, y * stride + width), y * width);
+    mask.set(carver.mask.subarray(y * stride, y * stride + width), y * width);
+  }
+  return { pixels, mask, width, height };
+}
+
+/**
+ * @overview Swaps the rows and columns of an image and its mask.
+ *
+ * @param {{pixels: Uint32Array, mask: Int8Array, width: number, height: number}} image - The image to transpose.
+ *
+ * @returns {{pixels: Uint32Array, mask: Int8Array, width: number, height: number}} The transposed image.
+ */
+function transpose(image) {
+  const { width, height } = image;
+  const pixels = new Uint32Array(width * height);
+  const mask = new Int8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels[x * height + y] = image.pixels[y * width + x];
+      mask[x * height + y] = image.mask[y * width + x];
+    }
+  }
+  return { pixels, mask, width: height, height: width };
+}
+
+/**
+ * @overview Averages two packed RGBA pixels, weighting color by alpha so transparent pixels do not darken the result.
+ *
+ * @param {number} first - The first pixel as a packed 32-bit value.
+ * @param {number} second - The second pixel as a packed 32-bit value.
+ *
+ * @returns {number} The averaged pixel as a packed 32-bit value.
+ */
+function averagePixels(first, second) {
+  const packed = new Uint32Array([first, second, 0]);
+  const bytes = new Uint8ClampedArray(packed.buffer);
+  const alpha = bytes[3] + bytes[7];
+  for (let channel = 0; channel < 3; channel++) {
+    bytes[8 + channel] = alpha > 0 ? (bytes[channel] * bytes[3] + bytes[4 + channel] * bytes[7]) / alpha : 0;
+  }
+  bytes[11] = alpha / 2;
+  return packed[2];
+}
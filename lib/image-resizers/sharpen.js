@@ -0,0 +1,115 @@
+/**
+ * @file lib/image-resizers/sharpen.js
+ * @author Harsh
+ * @description Unsharp-mask sharpening of raw RGBA buffers, applied after resampling.
+ * @lastUpdated 2026-10-19
+ */
+import { throwIfAborted, createProgressTracker } from "./taskControl";
+
+// Settings the UI starts from: a moderate sharpening suited to downscaled photos
+export const DEFAULT_SHARPEN = { radius: 1, amount: 0.8, threshold: 2 };
+
+// Largest radius (Gaussian standard deviation in pixels) accepted, which bounds the cost of the blur
+export const MAX_SHARPEN_RADIUS = 10;
+
+/**
+ * @overview Sharpens an image with an unsharp mask: the image is blurred with a Gaussian, and the difference
+ * between the image and its blurred copy (its fine detail) is amplified and added back. Differences smaller than
+ * the threshold are left alone, so flat areas and noise are not sharpened. Only the color channels are sharpened;
+ * the blur is computed premultiplied by alpha so transparent pixels do not leak into the edges, and alpha is kept as is.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The pixel data and its dimensions.
+ * @param {object} settings - The sharpening settings.
+ * @param {number} settings.radius - The standard deviation of the Gaussian blur in pixels (larger sharpens coarser detail).
+ * @param {number} settings.amount - How strongly the detail is amplified (1 adds it back once, i.e. 100%).
+ * @param {number} [settings.threshold=0] - The smallest difference, in levels from 0 to 255, that is sharpened.
+ * @param {{onProgress?: (fraction: number) => void, signal?: AbortSignal}} [control] - Progress reporting and cancellation.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} A new RGBA buffer with the sharpened image.
+ * @throws {Error} If the settings are out of range.
+ * @throws {DOMException} An `AbortError` if `control.signal` is aborted.
+ */
+export function unsharpMask(image, settings, control = {}) {
+  const { radius, amount, threshold = 0 } = settings;
+  if (!(radius > 0 && radius <= MAX_SHARPEN_RADIUS) || !(amount >= 0) || !(threshold >= 0 && threshold <= 255)) {
+    throw new Error(`Invalid sharpening settings: radius=${radius}, amount=${amount}, threshold=${threshold}`);
+  }
+
+  const { data, width, height } = image;
+  const weights = createGaussianWeights(radius);
+  const reach = (weights.length - 1) / 2;
+  const advanceProgress = createProgressTracker(2 * height, control.onProgress);
+
+  // Horizontal pass: premultiplied color and alpha, blurred along each row
+  const horizontal = new Float32Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    throwIfAborted(control.signal);
+    for (let x = 0; x < width; x++) {
+      let red = 0;
+      let green = 0;
+      let blue = 0;
+      let alpha = 0;
+      for (let i = 0; i < weights.length; i++) {
+        const sx = Math.min(width - 1, Math.max(0, x + i - reach));
+        const offset = (y * width + sx) * 4;
+        const weightedAlpha = weights[i] * data[offset + 3];
+        red += data[offset] * weightedAlpha;
+        green += data[offset + 1] * weightedAlpha;
+        blue += data[offset + 2] * weightedAlpha;
+        alpha += weightedAlpha;
+      }
+      const target = (y * width + x) * 4;
+      horizontal[target] = red;
+      horizontal[target + 1] = green;
+      horizontal[target + 2] = blue;
+      horizontal[target + 3] = alpha;
+    }
+    advanceProgress();
+  }
+
+  // Vertical pass: finish the blur, then add the amplified difference back to each color channel
+  const result = new Uint8ClampedArray(data.length);
+  const blurred = new Float64Array(4);
+  for (let y = 0; y < height; y++) {
+    throwIfAborted(control.signal);
+    for (let x = 0; x < width; x++) {
+      blurred.fill(0);
+      for (let i = 0; i < weights.length; i++) {
+        const sy = Math.min(height - 1, Math.max(0, y + i - reach));
+        const offset = (sy * width + x) * 4;
+        for (let channel = 0; channel < 4; channel++) {
+          blurred[channel] += weights[i] * horizontal[offset + channel];
+        }
+      }
+
+      const offset = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        const original = data[offset + channel];
+        const difference = blurred[3] > 0 ? original - blurred[channel] / blurred[3] : 0;
+        result[offset + channel] = Math.abs(difference) < threshold ? original : original + amount * difference;
+      }
+      result[offset + 3] = data[offset + 3];
+    }
+    advanceProgress();
+  }
+
+  return { data: result, width, height };
+}
+
+/**
+ * @overview Builds a normalized, symmetric Gaussian kernel reaching three standard deviations on each side.
+ *
+ * @param {number} sigma - The standard deviation in pixels.
+ *
+ * @returns {Float64Array} The weights, centered on the middle element.
+ */
+function createGaussianWeights(sigma) {
+  const reach = Math.max(1, Math.ceil(3 * sigma));
+  const weights = new Float64Array(2 * reach + 1);
+  let sum = 0;
+  for (let i = -reach; i <= reach; i++) {
+    weights[i + reach] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    sum += weights[i + reach];
+  }
+  return weights.map((weight) => weight / sum);
+}
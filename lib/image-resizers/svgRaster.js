@@ -0,0 +1,176 @@
+/**
+ * @file lib/image-resizers/svgRaster.js
+ * @author Anshi
+ * @description Rasterizing of SVG images at the size they are resized to, so vector art is redrawn rather than interpolated.
+ * @lastUpdated 2026-10-19
+ */
+import { IDENTITY_TRANSFORM, getTransformedSize } from "./transform";
+
+// Size browsers give an SVG that states neither a size nor a viewBox
+const DEFAULT_SVG_SIZE = { width: 300, height: 150 };
+
+// CSS pixels per unit of the absolute lengths an SVG's width and height may use
+const PIXELS_PER_UNIT = { px: 1, "": 1, in: 96, cm: 96 / 2.54, mm: 96 / 25.4, pt: 96 / 72, pc: 16 };
+
+/**
+ * @overview Reads the intrinsic size of an SVG image: its width and height attributes if they are absolute lengths,
+ * otherwise the size of its viewBox, scaled to whichever of the two attributes is given.
+ *
+ * @param {Blob} file - The SVG file.
+ *
+ * @returns {Promise<{width: number, height: number}>} A promise that resolves with the size in whole pixels.
+ * @throws {Error} If the file is not a valid SVG document.
+ */
+export async function readSvgSize(file) {
+  return getIntrinsicSize(await parseSvg(file));
+}
+
+/**
+ * @overview Plans how to rasterize an SVG so that, after the transform, it comes out at the target size: the size
+ * to draw the whole SVG at, and the transform with its crop scaled to match. Without a free rotation the resize
+ * then only copies pixels; with one, the drawn image is rotated at its final scale.
+ *
+ * @param {number} width - The intrinsic width of the SVG (see `readSvgSize`).
+ * @param {number} height - The intrinsic height of the SVG.
+ * @param {object} [transform] - The transform, with its crop in intrinsic pixels (see `IDENTITY_TRANSFORM`).
+ * @param {number} targetWidth - The width the transformed image is resized to.
+ * @param {number} targetHeight - The height the transformed image is resized to.
+ *
+ * @returns {{width: number, height: number, transform: object}} The size to draw the SVG at and the transform to
+ * apply to the drawing.
+ */
+export function getSvgRasterPlan(width, height, transform = IDENTITY_TRANSFORM, targetWidth, targetHeight) {
+  const transformed = getTransformedSize(width, height, transform);
+  // A quarter turn makes the target width span the SVG's height
+  const turned = transform.rotate === 90 || transform.rotate === 270;
+  const scaleX = turned ? targetHeight / transformed.height : targetWidth / transformed.width;
+  const scaleY = turned ? targetWidth / transformed.width : targetHeight / transformed.height;
+  const rasterWidth = Math.max(1, Math.round(width * scaleX));
+  const rasterHeight = Math.max(1, Math.round(height * scaleY));
+
+  const { crop } = transform;
+  if (!crop) {
+    return { width: rasterWidth, height: rasterHeight, transform };
+  }
+  const cropWidth = Math.min(rasterWidth, Math.max(1, Math.round(crop.width * scaleX)));
+  const cropHeight = Math.min(rasterHeight, Math.max(1, Math.round(crop.height * scaleY)));
+  return {
+    width: rasterWidth,
+    height: rasterHeight,
+    transform: {
+      ...transform,
+      crop: {
+        left: Math.min(Math.round(crop.left * scaleX), rasterWidth - cropWidth),
+        top: Math.min(Math.round(crop.top * scaleY), rasterHeight - cropHeight),
+        width: cropWidth,
+        height: cropHeight,
+      },
+    },
+  };
+}
+
+/**
+ * @overview Draws an SVG at the given size, stretched to it as the 'fill' fit mode would stretch a bitmap, and
+ * returns the drawing as a PNG file that the resize pipeline decodes like any other image.
+ *
+ * @param {Blob} file - The SVG file.
+ * @param {number} width - The width to draw it at, in pixels.
+ * @param {number} height - The height to draw it at, in pixels.
+ *
+ * @returns {Promise<Blob>} A promise that resolves with the drawing as a PNG.
+ * @throws {Error} If the file is not a valid SVG document, fails to load, or the canvas cannot be used.
+ */
+export async function rasterizeSvg(file, width, height) {
+  const svg = await parseSvg(file);
+  // Scale the drawing to the requested size by giving it that size, with the viewBox mapped onto all of it
+  if (!svg.hasAttribute("viewBox")) {
+    const size = getIntrinsicSize(svg);
+    svg.setAttribute("viewBox", `0 0 ${size.width} ${size.height}`);
+  }
+  svg.setAttribute("width", String(width));
+  svg.setAttribute("height", String(height));
+  svg.setAttribute("preserveAspectRatio", "none");
+  const resized = new Blob([new XMLSerializer().serializeToString(svg)], { type: "image/svg+xml" });
+
+  const imageElement = new Image();
+  const objectUrl = URL.createObjectURL(resized);
+  try {
+    await new Promise((resolve, reject) => {
+      imageElement.onload = resolve;
+      imageElement.onerror = () => reject(new Error("SVG image failed to load."));
+      imageElement.src = objectUrl;
+    });
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas context unavailable.");
+  }
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(imageElement, 0, 0, width, height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Blob creation failed."))), "image/png");
+  });
+}
+
+/**
+ * @overview Parses an SVG file.
+ *
+ * @param {Blob} file - The SVG file.
+ *
+ * @returns {Promise<SVGSVGElement>} A promise that resolves with the root `<svg>` element.
+ * @throws {Error} If the file is not a valid SVG document.
+ */
+async function parseSvg(file) {
+  const documentElement = new DOMParser().parseFromString(await file.text(), "image/svg+xml").documentElement;
+  if (documentElement.nodeName !== "svg") {
+    throw new Error("Invalid SVG image.");
+  }
+  return /** @type {SVGSVGElement} */ (/** @type {unknown} */ (documentElement));
+}
+
+/**
+ * @overview Works out the intrinsic size of a parsed SVG (see `readSvgSize`).
+ *
+ * @param {Element} svg - The root `<svg>` element.
+ *
+ * @returns {{width: number, height: number}} The size in whole pixels, at least one pixel each.
+ */
+function getIntrinsicSize(svg) {
+  const width = parseLength(svg.getAttribute("width"));
+  const height = parseLength(svg.getAttribute("height"));
+  const viewBox = (svg.getAttribute("viewBox") ?? "").trim().split(/[\s,]+/).map(Number);
+  const ratio = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0 ? viewBox[2] / viewBox[3] : null;
+
+  let size;
+  if (width && height) {
+    size = { width, height };
+  } else if (ratio) {
+    size = width
+      ? { width, height: width / ratio }
+      : height
+        ? { width: height * ratio, height }
+        : { width: viewBox[2], height: viewBox[3] };
+  } else {
+    size = DEFAULT_SVG_SIZE;
+  }
+  return { width: Math.max(1, Math.round(size.width)), height: Math.max(1, Math.round(size.height)) };
+}
+
+/**
+ * @overview Converts an SVG width or height attribute to pixels.
+ *
+ * @param {string | null} value - The attribute value, e.g. '120', '64px' or '2in'.
+ *
+ * @returns {number | null} The length in pixels, or null if it is missing, relative (such as a percentage) or not positive.
+ */
+function parseLength(value) {
+  const match = /^\s*([\d.]+(?:e[+-]?\d+)?)\s*(px|in|cm|mm|pt|pc)?\s*$/i.exec(value ?? "");
+  if (!match) return null;
+  const length = Number(match[1]) * PIXELS_PER_UNIT[(match[2] ?? "").toLowerCase()];
+  return length > 0 ? length : null;
+}
@@ -0,0 +1,69 @@
+/**
+ * @file lib/image-resizers/taskControl.js
+ * @author Anshi
+ * @description Helpers for reporting progress from, and cancelling, long-running resize loops.
+ * @lastUpdated 2026-10-19
+ */
+
+/**
+ * @overview Throws an `AbortError` if the given signal has been aborted. Resize loops call this between rows,
+ * so a cancelled resize stops within one row instead of running to completion.
+ *
+ * @param {AbortSignal} [signal] - The signal to check; nothing happens when it is omitted.
+ *
+ * @returns {void}
+ * @throws {DOMException} An `AbortError` when the signal has been aborted.
+ */
+export function throwIfAborted(signal) {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * @overview Creates the error used to reject cancelled resizes, matching what `fetch` throws on abort.
+ *
+ * @returns {DOMException} An error whose `name` is `AbortError`.
+ */
+export function createAbortError() {
+  return new DOMException("The resize was cancelled.", "AbortError");
+}
+
+/**
+ * @overview Checks whether an error is the result of a cancelled resize rather than a failure.
+ *
+ * @param {unknown} error - The caught error.
+ *
+ * @returns {boolean} True when the error is an `AbortError`.
+ */
+export function isAbortError(error) {
+  return error?.name === "AbortError";
+}
+
+/**
+ * @overview Creates a progress tracker for a task made of a known number of equal work units (e.g. rows).
+ * The callback is only invoked when the completed fraction has grown by at least one percent, so
+ * per-row updates do not flood React state or the worker message channel.
+ *
+ * @param {number} totalUnits - The total number of work units.
+ * @param {(fraction: number) => void} [onProgress] - Receives the completed fraction between 0 and 1.
+ *
+ * @returns {(units?: number) => void} A function to call after completing `units` (default 1) more units of work.
+ */
+export function createProgressTracker(totalUnits, onProgress) {
+  if (!onProgress || totalUnits <= 0) {
+    return () => {};
+  }
+
+  let completedUnits = 0;
+  let lastReported = 0;
+
+  return (units = 1) => {
+    completedUnits += units;
+    const fraction = Math.min(1, completedUnits / totalUnits);
+    if (fraction > lastReported && (fraction - lastReported >= 0.01 || fraction === 1)) {
+      lastReported = fraction;
+      onProgress(fraction);
+    }
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * @file lib/image-resizers/tiffDecoder.js
+ * @author Sameer
+ * @description Decoding of TIFF files, which browsers other than Safari cannot decode, with the bundled UTIF decoder.
+ * @lastUpdated 2026-10-19
+ */
+import UTIF from "utif";
+
+/**
+ * @overview Checks whether a file is a TIFF by its signature ('II*\0' or 'MM\0*'), which works for files without a
+ * name or MIME type, such as the copies the pipeline decodes.
+ *
+ * @param {Blob} file - The file.
+ *
+ * @returns {Promise<boolean>} A promise that resolves with true for TIFF files.
+ */
+export async function hasTiffSignature(file) {
+  const [a, b, c, d] = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return (a === 0x49 && b === 0x49 && c === 42 && d === 0) || (a === 0x4d && b === 0x4d && c === 0 && d === 42);
+}
+
+/**
+ * @overview Reads the dimensions of a TIFF image, as stored, without decoding its pixels.
+ *
+ * @param {Blob} file - The TIFF file.
+ *
+ * @returns {Promise<{width: number, height: number}>} A promise that resolves with the dimensions of its largest image.
+ * @throws {Error} If the file contains no image.
+ */
+export async function readTiffSize(file) {
+  const page = findMainImage(UTIF.decode(await file.arrayBuffer()));
+  return { width: page.t256[0], height: page.t257[0] };
+}
+
+/**
+ * @overview Decodes a TIFF image into raw RGBA pixel data, as stored. Only the largest image in the file is decoded,
+ * which skips thumbnails; for a multi-page TIFF with pages of one size, that is the first page.
+ *
+ * @param {Blob} file - The TIFF file.
+ *
+ * @returns {Promise<{data: Uint8ClampedArray, width: number, height: number}>} A promise that resolves with the
+ * decoded pixel data (4 bytes per pixel, row-major) and the image dimensions.
+ * @throws {Error} If the file contains no image or uses a compression the decoder does not support.
+ */
+export async function decodeTiff(file) {
+  const buffer = await file.arrayBuffer();
+  const page = findMainImage(UTIF.decode(buffer));
+  UTIF.decodeImage(buffer, page);
+  const rgba = UTIF.toRGBA8(page);
+  if (rgba.length !== page.width * page.height * 4) {
+    throw new Error("Unsupported TIFF image.");
+  }
+  return { data: new Uint8ClampedArray(rgba.buffer), width: page.width, height: page.height };
+}
+
+/**
+ * @overview Picks the image to use from the image file directories (IFDs) of a TIFF: the largest one.
+ *
+ * @param {object[]} ifds - The IFDs read by `UTIF.decode`.
+ *
+ * @returns {object} The IFD of the largest image.
+ * @throws {Error} If no IFD describes an image.
+ */
+function findMainImage(ifds) {
+  const pages = ifds.filter((ifd) => ifd.t256 && ifd.t257);
+  if (pages.length === 0) {
+    throw new Error("The TIFF file contains no image.");
+  }
+  return pages.reduce((largest, page) => (page.t256[0] * page.t257[0] > largest.t256[0] * largest.t257[0] ? page : largest));
+}
@@ -0,0 +1,327 @@
+/**
+ * @file lib/image-resizers/transform.js
+ * @author Sameer
+ * @description Crop, flip and rotation of raw RGBA buffers, applied on the way into the resize.
+ * @lastUpdated 2026-10-19
+ */
+import { throwIfAborted, createProgressTracker } from "./taskControl";
+import { SRGB_TO_LINEAR, linearToSrgb } from "./colorSpace";
+
+// The transform that leaves the image unchanged
+export const IDENTITY_TRANSFORM = { crop: null, rotate: 0, flipX: false, flipY: false, angle: 0 };
+
+// Quarter turns accepted by `transform.rotate`, in degrees clockwise
+export const QUARTER_TURNS = [0, 90, 180, 270];
+
+/*
+ * A transform is applied in a fixed order: the crop rectangle is cut from the image as uploaded, the result is
+ * flipped, turned clockwise by a quarter turn, and finally rotated clockwise by the free angle. The first three steps
+ * only move pixels, so they happen losslessly on the decoded image (`orientPixels`); the free rotation needs
+ * interpolation and is folded into the resampling itself (`resampleRotated`), so the pixels are filtered once.
+ */
+
+/**
+ * @overview Computes the size of an image after a transform, which is the size the resize scales from.
+ *
+ * @param {number} width - The width of the image as uploaded.
+ * @param {number} height - The height of the image as uploaded.
+ * @param {object} [transform] - The transform (see `IDENTITY_TRANSFORM`); omitted for none.
+ *
+ * @returns {{width: number, height: number}} The transformed size; a free rotation grows it to the rotated bounding box.
+ */
+export function getTransformedSize(width, height, transform = IDENTITY_TRANSFORM) {
+  const cropped = transform.crop ?? { width, height };
+  const turned = transform.rotate === 90 || transform.rotate === 270;
+  const oriented = turned ? { width: cropped.height, height: cropped.width } : { width: cropped.width, height: cropped.height };
+  if (!transform.angle) return oriented;
+
+  const bounds = getRotatedBounds(oriented.width, oriented.height, transform.angle);
+  return { width: Math.max(1, Math.round(bounds.width)), height: Math.max(1, Math.round(bounds.height)) };
+}
+
+/**
+ * @overview Finds where a point of the image as uploaded ends up once the transform is applied, for example to turn
+ * a click on the original image into a focal point of the image that gets resized.
+ *
+ * @param {number} x - The horizontal position, in pixels from the left edge of the image as uploaded.
+ * @param {number} y - The vertical position, in pixels from the top edge of the image as uploaded.
+ * @param {number} width - The width of the image as uploaded.
+ * @param {number} height - The height of the image as uploaded.
+ * @param {object} [transform] - The transform (see `IDENTITY_TRANSFORM`); omitted for none.
+ *
+ * @returns {{x: number, y: number}} The position in pixels of the transformed image (see `getTransformedSize`);
+ * outside it when the point was cropped away.
+ */
+export function transformPoint(x, y, width, height, transform = IDENTITY_TRANSFORM) {
+  const { crop, rotate = 0, flipX = false, flipY = false, angle = 0 } = transform;
+  const { left, top, width: cropWidth, height: cropHeight } = crop ?? { left: 0, top: 0, width, height };
+
+  let cropX = flipX ? cropWidth - (x - left) : x - left;
+  let cropY = flipY ? cropHeight - (y - top) : y - top;
+  // The inverse of the mapping in `orientPixels`, on continuous positions rather than pixel indices
+  if (rotate === 90) [cropX, cropY] = [cropHeight - cropY, cropX];
+  else if (rotate === 180) [cropX, cropY] = [cropWidth - cropX, cropHeight - cropY];
+  else if (rotate === 270) [cropX, cropY] = [cropY, cropWidth - cropX];
+  if (!angle) return { x: cropX, y: cropY };
+
+  // The free rotation turns the image about its center, which becomes the center of the bounding box
+  const turned = rotate === 90 || rotate === 270;
+  const centerX = (turned ? cropHeight : cropWidth) / 2;
+  const centerY = (turned ? cropWidth : cropHeight) / 2;
+  const bounds = getTransformedSize(width, height, transform);
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    x: bounds.width / 2 + (cropX - centerX) * cos - (cropY - centerY) * sin,
+    y: bounds.height / 2 + (cropX - centerX) * sin + (cropY - centerY) * cos,
+  };
+}
+
+/**
+ * @overview Applies the lossless part of a transform (crop, flip and quarter turn) in a single copy. Works on any
+ * typed array holding one element per pixel, so RGBA images (through a `Uint32Array` view) and per-pixel masks
+ * such as the seam-carving mask are transformed alike.
+ *
+ * @param {Uint32Array | Int8Array} pixels - The pixels, row-major.
+ * @param {number} width - The width of the image.
+ * @param {number} height - The height of the image.
+ * @param {object} [transform] - The transform (see `IDENTITY_TRANSFORM`); its free `angle` is ignored here.
+ *
+ * @returns {{pixels: Uint32Array | Int8Array, width: number, height: number}} The transformed pixels, in a new array
+ * of the same type, or the given array when the transform moves nothing.
+ * @throws {Error} If the crop rectangle does not lie inside the image or the quarter turn is invalid.
+ */
+export function orientPixels(pixels, width, height, transform = IDENTITY_TRANSFORM) {
+  const { crop, rotate = 0, flipX = false, flipY = false } = transform;
+  if (!QUARTER_TURNS.includes(rotate)) {
+    throw new Error("Invalid rotation: " + rotate);
+  }
+  const { left, top, width: cropWidth, height: cropHeight } = crop ?? { left: 0, top: 0, width, height };
+  if (
+    ![left, top, cropWidth, cropHeight].every(Number.isInteger) ||
+    left < 0 || top < 0 || cropWidth < 1 || cropHeight < 1 || left + cropWidth > width || top + cropHeight > height
+  ) {
+    throw new Error(`Invalid crop rectangle: ${cropWidth}x${cropHeight} at ${left},${top}`);
+  }
+  if (!crop && rotate === 0 && !flipX && !flipY) {
+    return { pixels, width, height };
+  }
+
+  const turned = rotate === 90 || rotate === 270;
+  const outputWidth = turned ? cropHeight : cropWidth;
+  const outputHeight = turned ? cropWidth : cropHeight;
+  const output = new pixels.constructor(outputWidth * outputHeight);
+
+  for (let y = 0; y < outputHeight; y++) {
+    for (let x = 0; x < outputWidth; x++) {
+      // Undo the quarter turn, then the flips, to find the pixel of the crop that lands here
+      let cropX = x;
+      let cropY = y;
+      if (rotate === 90) {
+        cropX = y;
+        cropY = cropHeight - 1 - x;
+      } else if (rotate === 180) {
+        cropX = cropWidth - 1 - x;
+        cropY = cropHeight - 1 - y;
+      } else if (rotate === 270) {
+        cropX = cropWidth - 1 - y;
+        cropY = x;
+      }
+      if (flipX) cropX = cropWidth - 1 - cropX;
+      if (flipY) cropY = cropHeight - 1 - cropY;
+      output[y * outputWidth + x] = pixels[(top + cropY) * width + left + cropX];
+    }
+  }
+  return { pixels: output, width: outputWidth, height: outputHeight };
+}
+
+/**
+ * @overview Applies the lossless part of a transform (see `orientPixels`) to a decoded RGBA image.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The decoded image.
+ * @param {object} [transform] - The transform (see `IDENTITY_TRANSFORM`); omitted for none.
+ *
+ * @returns {{data: Uint8ClampedArray, width: number, height: number}} The cropped, flipped and turned image, or
+ * `image` itself when the transform moves nothing.
+ * @throws {Error} If the crop rectangle does not lie inside the image or the quarter turn is invalid.
+ */
+export function orientImage(image, transform) {
+  const words = new Uint32Array(image.data.buffer, image.data.byteOffset, image.data.length / 4);
+  const { pixels, width, height } = orientPixels(words, image.width, image.height, transform);
+  if (pixels === words) return image;
+  return { data: new Uint8ClampedArray(pixels.buffer), width, height };
+}
+
+/**
+ * @overview Resamples an image rotated clockwise by a free angle, in one pass: every target pixel is mapped back into
+ * the source and filtered there with the given kernel, applied along both source axes and widened when the image
+ * shrinks. The target covers the rotated image's bounding box; the corners it adds are transparent, and the rotated
+ * edges are anti-aliased by treating everything outside the source as transparent.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number, rowOffset?: number}} source - The source pixel
+ * data and its full dimensions (see `resample` for `rowOffset`).
+ * @param {Uint8ClampedArray} targetData - The RGBA buffer to write the band of target rows into.
+ * @param {number} targetWidth - The width of the target image.
+ * @param {number} targetHeight - The full height of the target image.
+ * @param {number} angle - The clockwise rotation in degrees.
+ * @param {{kernel: (t: number, scale: number) => number, radius: number, linearLight?: boolean} | null} filter -
+ * The interpolation kernel, or null to take the nearest source pixel.
+ * @param {{rowStart: number, rowEnd: number}} band - The target rows to produce.
+ * @param {{onProgress?: (fraction: number) => void, signal?: AbortSignal}} control - Progress reporting and cancellation.
+ *
+ * @returns {void}
+ * @throws {DOMException} An `AbortError` if `control.signal` is aborted.
+ */
+export function resampleRotated(source, targetData, targetWidth, targetHeight, angle, filter, band, control) {
+  const { width: sourceWidth, height: sourceHeight, data } = source;
+  const rowOffset = source.rowOffset ?? 0;
+  const map = createRotationMapping(sourceWidth, sourceHeight, targetWidth, targetHeight, angle);
+  const reach = filter ? filter.radius * map.filterScale : 0;
+  const toWorkingSpace = filter?.linearLight ? SRGB_TO_LINEAR : null;
+  const read = (value) => (toWorkingSpace ? toWorkingSpace[value] : value);
+  const advanceProgress = createProgressTracker(band.rowEnd - band.rowStart, control.onProgress);
+
+  // Kernel weights of the taps along each axis, reused for every pixel
+  const maxTaps = Math.ceil(2 * reach) + 2;
+  const weightsX = new Float64Array(maxTaps);
+  const weightsY = new Float64Array(maxTaps);
+
+  for (let y = band.rowStart; y < band.rowEnd; y++) {
+    throwIfAborted(control.signal);
+    for (let x = 0; x < targetWidth; x++) {
+      const u = map.u0 + x * map.ux + y * map.uy;
+      const v = map.v0 + x * map.vx + y * map.vy;
+      const targetIndex = ((y - band.rowStart) * targetWidth + x) * 4;
+
+      if (!filter) {
+        const sx = Math.round(u);
+        const sy = Math.round(v);
+        if (sx >= 0 && sx < sourceWidth && sy >= 0 && sy < sourceHeight) {
+          const sourceIndex = ((sy - rowOffset) * sourceWidth + sx) * 4;
+          targetData.set(data.subarray(sourceIndex, sourceIndex + 4), targetIndex);
+        }
+        continue;
+      }
+
+      const startX = Math.ceil(u - reach);
+      const startY = Math.ceil(v - reach);
+      const tapsX = Math.floor(u + reach) - startX + 1;
+      const tapsY = Math.floor(v + reach) - startY + 1;
+      let weightSum = 0;
+      for (let i = 0; i < tapsX; i++) weightsX[i] = filter.kernel((startX + i - u) / map.filterScale, map.scale);
+      for (let j = 0; j < tapsY; j++) weightsY[j] = filter.kernel((startY + j - v) / map.filterScale, map.scale);
+
+      let red = 0;
+      let green = 0;
+      let blue = 0;
+      let alpha = 0;
+      for (let j = 0; j < tapsY; j++) {
+        const sy = startY + j;
+        for (let i = 0; i < tapsX; i++) {
+          const weight = weightsX[i] * weightsY[j];
+          weightSum += weight;
+          const sx = startX + i;
+          // Taps outside the source are transparent: they count towards the weights but add no color or alpha
+          if (weight === 0 || sx < 0 || sx >= sourceWidth || sy < 0 || sy >= sourceHeight) continue;
+          const pixelIndex = ((sy - rowOffset) * sourceWidth + sx) * 4;
+          const pixelAlpha = data[pixelIndex + 3];
+          const colorWeight = weight * (pixelAlpha / 255);
+          red += read(data[pixelIndex]) * colorWeight;
+          green += read(data[pixelIndex + 1]) * colorWeight;
+          blue += read(data[pixelIndex + 2]) * colorWeight;
+          alpha += pixelAlpha * weight;
+        }
+      }
+      if (weightSum === 0) continue;
+
+      alpha /= weightSum;
+      const unpremultiply = alpha > 0 ? 255 / (alpha * weightSum) : 0;
+      red *= unpremultiply;
+      green *= unpremultiply;
+      blue *= unpremultiply;
+      targetData[targetIndex] = toWorkingSpace ? linearToSrgb(red) : red;
+      targetData[targetIndex + 1] = toWorkingSpace ? linearToSrgb(green) : green;
+      targetData[targetIndex + 2] = toWorkingSpace ? linearToSrgb(blue) : blue;
+      targetData[targetIndex + 3] = alpha;
+    }
+    advanceProgress();
+  }
+}
+
+/**
+ * @overview Determines which source rows `resampleRotated` reads to produce a band of target rows.
+ *
+ * @param {{width: number, height: number}} source - The dimensions of the source image.
+ * @param {{width: number, height: number}} target - The dimensions of the target image.
+ * @param {number} angle - The clockwise rotation in degrees.
+ * @param {number} radius - The kernel radius in pixels at a scale of 1 (0 for nearest-neighbor).
+ * @param {number} rowStart - The first target row of the band.
+ * @param {number} rowEnd - The target row after the last row of the band.
+ *
+ * @returns {{start: number, end: number}} The first source row read and the row after the last one read.
+ */
+export function getRotatedRowRange(source, target, angle, radius, rowStart, rowEnd) {
+  const map = createRotationMapping(source.width, source.height, target.width, target.height, angle);
+  const reach = radius * map.filterScale;
+  // The source row is linear in the target position, so the extremes lie on the corners of the band
+  const corners = [0, target.width - 1].flatMap((x) => [rowStart, rowEnd - 1].map((y) => map.v0 + x * map.vx + y * map.vy));
+  const start = Math.max(0, Math.floor(Math.min(...corners) - reach - 0.5));
+  const end = Math.min(source.height, Math.ceil(Math.max(...corners) + reach + 0.5) + 1);
+  return { start: Math.min(start, end), end };
+}
+
+/**
+ * @overview Computes the bounding box of an image rotated by an angle.
+ *
+ * @param {number} width - The width of the image.
+ * @param {number} height - The height of the image.
+ * @param {number} angle - The rotation in degrees.
+ *
+ * @returns {{width: number, height: number}} The exact (unrounded) size of the bounding box.
+ */
+function getRotatedBounds(width, height, angle) {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+}
+
+/**
+ * @overview Builds the affine map from target pixel indices to source pixel coordinates for a rotation: the target
+ * spans the rotated bounding box, and pixel centers are aligned as in the other methods.
+ *
+ * @param {number} sourceWidth - The width of the source image.
+ * @param {number} sourceHeight - The height of the source image.
+ * @param {number} targetWidth - The width of the target image.
+ * @param {number} targetHeight - The height of the target image.
+ * @param {number} angle - The clockwise rotation in degrees.
+ *
+ * @returns {{u0: number, ux: number, uy: number, v0: number, vx: number, vy: number, filterScale: number, scale: number}}
+ * The source column is `u0 + x * ux + y * uy` and the source row `v0 + x * vx + y * vy` for target pixel (x, y);
+ * `filterScale` is how far the kernel is widened, and `scale` the target-to-source scale passed to the kernel.
+ */
+function createRotationMapping(sourceWidth, sourceHeight, targetWidth, targetHeight, angle) {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const bounds = getRotatedBounds(sourceWidth, sourceHeight, angle);
+  // Source pixels per target pixel along each target axis
+  const stepX = bounds.width / targetWidth;
+  const stepY = bounds.height / targetHeight;
+
+  // Offset of the first target pixel's center from the center of the bounding box
+  const dx = 0.5 * stepX - bounds.width / 2;
+  const dy = 0.5 * stepY - bounds.height / 2;
+  const filterScale = Math.max(1, stepX, stepY);
+  return {
+    u0: sourceWidth / 2 - 0.5 + dx * cos + dy * sin,
+    ux: stepX * cos,
+    uy: stepY * sin,
+    v0: sourceHeight / 2 - 0.5 - dx * sin + dy * cos,
+    vx: -stepX * sin,
+    vy: stepY * cos,
+    filterScale,
+    scale: 1 / Math.max(stepX, stepY),
+  };
+}
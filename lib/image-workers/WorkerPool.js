@@ -0,0 +1,171 @@
+/**
+ * @file lib/image-workers/WorkerPool.js
+ * @author Anshi
+ * @description A small fixed-size pool of Web Workers that runs queued tasks, one task per worker at a time.
+ * @lastUpdated 2026-10-19
+ */
+import { createAbortError } from "../image-resizers/taskControl";
+
+/**
+ * @overview WorkerPool lazily spawns up to `size` workers and hands each queued task to the next idle one.
+ * Workers reply to each task with either `{ result }` or `{ error }`, optionally preceded by `{ progress }` updates.
+ * A running task is cancelled by terminating its worker; a replacement is spawned for the next task.
+ */
+export class WorkerPool {
+  /**
+   * @param {() => Worker} createWorker - Factory that spawns a new worker.
+   * @param {number} size - The maximum number of workers running at once.
+   */
+  constructor(createWorker, size) {
+    this.createWorker = createWorker;
+    this.size = size;
+    this.idleWorkers = [];
+    this.activeTasks = new Map(); // Worker -> task it is currently running
+    this.queue = [];
+  }
+
+  /**
+   * @overview Queues a task and resolves with the worker's result once it has run.
+   *
+   * @param {object} message - The task message posted to the worker.
+   * @param {Transferable[]} [transfer] - Buffers to transfer (rather than copy) to the worker.
+   * @param {object} [control] - Progress reporting and cancellation.
+   * @param {(progress: number) => void} [control.onProgress] - Receives the worker's `progress` updates.
+   * @param {AbortSignal} [control.signal] - Aborting it removes the task from the queue or terminates its worker.
+   *
+   * @returns {Promise<any>} A promise that resolves with the worker's `result`, or rejects with its `error`
+   * (or with an `AbortError` when cancelled).
+   */
+  run(message, transfer = [], control = {}) {
+    const { onProgress, signal } = control;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const task = { message, transfer, onProgress, resolve, reject };
+      task.cleanup = () => signal?.removeEventListener("abort", task.abort);
+      task.abort = () => this.cancel(task);
+      signal?.addEventListener("abort", task.abort);
+
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * @overview Cancels a queued or running task, terminating the worker running it.
+   *
+   * @param {object} task - The task to cancel.
+   *
+   * @returns {void}
+   */
+  cancel(task) {
+    const queueIndex = this.queue.indexOf(task);
+    if (queueIndex !== -1) {
+      this.queue.splice(queueIndex, 1);
+    }
+
+    for (const [worker, activeTask] of this.activeTasks) {
+      if (activeTask === task) {
+        // There is no way to interrupt a busy worker, so drop it and let the next task spawn a fresh one
+        worker.terminate();
+        this.activeTasks.delete(worker);
+      }
+    }
+
+    task.cleanup();
+    task.reject(createAbortError());
+    this.dispatch();
+  }
+
+  /**
+   * @overview Terminates every worker and rejects queued and running tasks.
+   *
+   * @returns {void}
+   */
+  terminate() {
+    const error = new Error("Worker pool terminated.");
+    for (const [worker, task] of this.activeTasks) {
+      worker.terminate();
+      task.cleanup();
+      task.reject(error);
+    }
+    this.idleWorkers.forEach((worker) => worker.terminate());
+    this.queue.forEach((task) => {
+      task.cleanup();
+      task.reject(error);
+    });
+    this.activeTasks.clear();
+    this.idleWorkers = [];
+    this.queue = [];
+  }
+
+  /**
+   * @overview Starts queued tasks on idle workers, spawning new workers while below the pool size.
+   *
+   * @returns {void}
+   */
+  dispatch() {
+    while (this.queue.length > 0) {
+      let worker = this.idleWorkers.pop();
+      if (!worker) {
+        if (this.activeTasks.size >= this.size) return; // Every worker is busy
+        worker = this.spawn();
+      }
+
+      const task = this.queue.shift();
+      this.activeTasks.set(worker, task);
+      worker.postMessage(task.message, task.transfer);
+    }
+  }
+
+  /**
+   * @overview Creates a worker and wires its replies back to the task it is running.
+   *
+   * @returns {Worker} The new worker.
+   */
+  spawn() {
+    const worker = this.createWorker();
+
+    worker.onmessage = (event) => {
+      const { result, error, progress } = event.data;
+      const task = this.activeTasks.get(worker);
+      if (!task) return;
+
+      if (progress !== undefined) {
+        task.onProgress?.(progress);
+        return;
+      }
+
+      this.activeTasks.delete(worker);
+      this.idleWorkers.push(worker);
+      task.cleanup();
+
+      if (error !== undefined) {
+        task.reject(new Error(error));
+      } else {
+        task.resolve(result);
+      }
+      this.dispatch();
+    };
+
+    // An uncaught error (e.g. the script failed to load) leaves the worker unusable: drop it
+    worker.onerror = (event) => {
+      event.preventDefault();
+      const task = this.activeTasks.get(worker);
+      this.activeTasks.delete(worker);
+      worker.terminate();
+
+      if (task) {
+        task.cleanup();
+        task.reject(new Error(event.message || "Worker failed."));
+      }
+      this.dispatch();
+    };
+
+    return worker;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * @file lib/image-workers/resize.worker.js
+ * @author Anshi
+ * @description Web Worker that decodes, resamples and encodes images off the main thread.
+ * @lastUpdated 2026-10-19
+ */
+import { resample } from "../image-resizers/resample";
+import { applyPostProcessing } from "../image-resizers/postProcess";
+import { orientImage } from "../image-resizers/transform";
+import { decodeUpright } from "../image-resizers/metadata";
+import { encodePng } from "../image-resizers/pngEncoder";
+import { hasTiffSignature, decodeTiff } from "../image-resizers/tiffDecoder";
+import { OUTPUT_FORMATS, prepareForFormat, encodeWithinSize } from "../image-resizers/outputFormat";
+
+/**
+ * @overview Handles one task per message and replies with `{ result }` or `{ error }`. While resampling it
+ * also posts `{ progress }` messages with the completed fraction of its band (or of the image, while post-processing).
+ * Supported tasks:
+ * - `decode`: `{ file, transform }` -> `{ data, width, height }` decoded with `createImageBitmap` and an `OffscreenCanvas` (or `decodeTiff`),
+ *   turned upright by its EXIF orientation (see `decodeUpright`), then cropped, flipped and turned by the lossless
+ *   part of `transform` (see `orientImage`), if given.
+ * - `resample`: `{ source, targetWidth, targetHeight, options }` -> the resampled band (see `resample`).
+ * - `postProcess`: `{ image, options }` -> the image sharpened and placed in its fit box (see `applyPostProcessing`).
+ * - `encode`: `{ image, output }` -> `{ blob, quality, fits }`: the image encoded to the output format (see
+ *   `resolveOutput`), the quality used and whether it meets the maximum file size (see `encodeWithinSize`).
+ * Pixel buffers in results are transferred rather than copied.
+ *
+ * @param {MessageEvent} event - The task message posted by the `WorkerPool`.
+ *
+ * @returns {Promise<void>}
+ */
+self.onmessage = async (event) => {
+  const task = event.data;
+
+  try {
+    switch (task.type) {
+      case "decode": {
+        const image = orientImage(await decodeUpright(task.file, decodeImage), task.transform);
+        self.postMessage({ result: image }, [image.data.buffer]);
+        break;
+      }
+      case "resample": {
+        const band = resample(task.source, task.targetWidth, task.targetHeight, {
+          ...task.options,
+          onProgress: (fraction) => self.postMessage({ progress: fraction }),
+        });
+        self.postMessage({ result: band }, [band.data.buffer]);
+        break;
+      }
+      case "postProcess": {
+        const image = applyPostProcessing(task.image, task.options, {
+          onProgress: (fraction) => self.postMessage({ progress: fraction }),
+        });
+        self.postMessage({ result: image }, [image.data.buffer]);
+        break;
+      }
+      case "encode": {
+        self.postMessage({ result: await encodeImage(task.image, task.output) });
+        break;
+      }
+      default:
+        throw new Error("Unknown worker task: " + task.type);
+    }
+  } catch (error) {
+    self.postMessage({ error: error.message });
+  }
+};
+
+/**
+ * @overview Decodes an image file into raw RGBA pixel data, as stored, without touching the DOM. TIFF files go
+ * through the bundled decoder, since `createImageBitmap` cannot read them in most browsers.
+ *
+ * @param {Blob} file - The image file to decode.
+ *
+ * @returns {Promise<{data: Uint8ClampedArray, width: number, height: number}>} The decoded pixel data and dimensions.
+ * @throws {Error} If the image cannot be decoded or the canvas context is unavailable.
+ */
+async function decodeImage(file) {
+  if (await hasTiffSignature(file)) {
+    return decodeTiff(file);
+  }
+
+  const bitmap = await createImageBitmap(file);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext("2d");
+
+  if (!ctx) {
+    bitmap.close();
+    throw new Error("Canvas context unavailable.");
+  }
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close(); // Release the decoded bitmap as soon as its pixels have been copied
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { data, width, height };
+}
+
+/**
+ * @overview Encodes raw RGBA pixel data into an image Blob: PNG with `encodePng`, the lossy formats with an
+ * `OffscreenCanvas`, flattened over white first if the format has no alpha, at the requested quality or at the
+ * highest quality that meets the maximum file size.
+ *
+ * @param {{data: Uint8ClampedArray, width: number, height: number}} image - The pixel data and its dimensions.
+ * @param {{type: string, quality: number, compressionLevel: number, maxFileSize?: number}} output - The output
+ * format and its settings.
+ *
+ * @returns {Promise<{blob: Blob, quality?: number, fits: boolean}>} The encoded image, the quality used (none for
+ * PNG) and whether it meets the maximum file size.
+ * @throws {Error} If the canvas context is unavailable or the browser cannot encode the format.
+ */
+async function encodeImage(image, output) {
+  const { type, compressionLevel } = output;
+  if (type === "image/png") {
+    return { blob: new Blob([encodePng(image, compressionLevel)], { type }), fits: true };
+  }
+
+  const prepared = prepareForFormat(image, type);
+  const canvas = new OffscreenCanvas(prepared.width, prepared.height);
+  const ctx = canvas.getContext("2d");
+
+  if (!ctx) {
+    throw new Error("Canvas context unavailable.");
+  }
+
+  ctx.putImageData(new ImageData(prepared.data, prepared.width, prepared.height), 0, 0);
+  return encodeWithinSize(async (quality) => {
+    const blob = await canvas.convertToBlob({ type, quality });
+    // Browsers fall back to PNG for formats they cannot encode
+    if (blob.type !== type) {
+      throw new Error(`This browser cannot encode ${OUTPUT_FORMATS[type].label} images.`);
+    }
+    return blob;
+  }, output);
+}
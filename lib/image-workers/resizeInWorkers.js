@@ -0,0 +1,154 @@
+/**
+ * @file lib/image-workers/resizeInWorkers.js
+ * @author Anshi
+ * @description Runs the decode -> resample -> post-process -> encode pipeline on a pool of Web Workers, splitting large images into row bands.
+ * @lastUpdated 2026-10-19
+ */
+import { WorkerPool } from "./WorkerPool";
+import { getSourceRowRange, canSplitIntoBands } from "../image-resizers/resample";
+import { throwIfAborted } from "../image-resizers/taskControl";
+import { DEFAULT_OUTPUT } from "../image-resizers/outputFormat";
+
+// Below this many target pixels per band, the cost of copying buffers outweighs the gain from another worker
+const MIN_PIXELS_PER_BAND = 256 * 256;
+// Share of the overall progress bar given to decoding and to encoding; resampling gets the rest
+const DECODE_PROGRESS_SHARE = 0.05;
+const ENCODE_PROGRESS_SHARE = 0.05;
+// Share of the overall progress bar given to sharpening, when it is requested
+const SHARPEN_PROGRESS_SHARE = 0.1;
+// Upper bound on pool size, so huge images do not hold several full-size source slices in memory at once
+const MAX_WORKERS = 4;
+
+let resizePool = null;
+
+/**
+ * @overview Checks whether the browser provides everything the worker pipeline needs.
+ *
+ * @returns {boolean} True when Web Workers, `OffscreenCanvas` and `createImageBitmap` are all available.
+ */
+export function supportsWorkerResize() {
+  return (
+    typeof window !== "undefined" &&
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap !== "undefined"
+  );
+}
+
+/**
+ * @overview Returns the shared resize worker pool, creating it on first use.
+ *
+ * @returns {WorkerPool} The worker pool.
+ */
+function getResizePool() {
+  if (!resizePool) {
+    const size = Math.max(1, Math.min(MAX_WORKERS, navigator.hardwareConcurrency || 2));
+    resizePool = new WorkerPool(() => new Worker(new URL("./resize.worker.js", import.meta.url)), size);
+  }
+  return resizePool;
+}
+
+/**
+ * @overview Resizes an image file entirely off the main thread. One worker decodes the file, the target image
+ * is split into bands of rows that are resampled in parallel (each worker only receives the source rows its band
+ * reads), and one worker post-processes (sharpening, padding or cropping, if requested) and encodes the stitched result.
+ *
+ * @param {File} imageFile - The image file to be resized.
+ * @param {number} targetWidth - The target width in pixels.
+ * @param {number} targetHeight - The target height in pixels.
+ * @param {object} options - Resampling options passed to `resample` (e.g. `{ method: "bicubic" }`).
+ * @param {object} [options.transform] - Crop, flip and rotation applied before resampling (see `IDENTITY_TRANSFORM`).
+ * @param {object} [options.sharpen] - Unsharp-mask settings (see `unsharpMask`) applied to the stitched image, if given.
+ * @param {object} [options.placement] - Where to place the stitched image on a padded or cropped output (see `computeFitLayout`).
+ * @param {number[]} [options.background] - The RGBA color of the padding added by `options.placement`.
+ * @param {object} [options.output=DEFAULT_OUTPUT] - The output format and its settings (see `resolveOutput`).
+ * @param {(result: {quality?: number, fits: boolean}) => void} [options.onEncoded] - Receives the quality the image
+ * was encoded at and whether it meets the maximum file size (see `encodeImageData`).
+ * @param {(fraction: number) => void} [options.onProgress] - Receives the overall completed fraction (0 to 1).
+ * @param {AbortSignal} [options.signal] - Aborting it terminates the workers involved and rejects with an `AbortError`.
+ *
+ * @returns {Promise<Blob>} A promise that resolves with the resized image in the output format.
+ * @throws {Error} If decoding, resampling or encoding fails in a worker.
+ * @throws {DOMException} An `AbortError` if `options.signal` is aborted.
+ */
+export async function resizeImageInWorkers(imageFile, targetWidth, targetHeight, options) {
+  // Callbacks and signals cannot be posted to a worker, so only the plain resampling options are sent
+  const { onProgress, onEncoded, signal, sharpen, placement, background, output = DEFAULT_OUTPUT, ...resampleOptions } = options;
+  const pool = getResizePool();
+
+  // The lossless part of the transform (crop, flip, quarter turn) is applied right after decoding
+  const source = await pool.run({ type: "decode", file: imageFile, transform: resampleOptions.transform }, [], { signal });
+  onProgress?.(DECODE_PROGRESS_SHARE);
+
+  // Split into at most one band per worker, and none smaller than MIN_PIXELS_PER_BAND
+  const bandCount = !canSplitIntoBands(resampleOptions.method) ? 1 : Math.max(1, Math.min(
+    pool.size,
+    targetHeight,
+    Math.floor((targetWidth * targetHeight) / MIN_PIXELS_PER_BAND),
+  ));
+  const rowsPerBand = Math.ceil(targetHeight / bandCount);
+  const rowBytes = source.width * 4;
+
+  // Overall resampling progress is the row-weighted sum of each band's progress
+  const sharpenShare = sharpen ? SHARPEN_PROGRESS_SHARE : 0;
+  const resampleShare = 1 - DECODE_PROGRESS_SHARE - sharpenShare - ENCODE_PROGRESS_SHARE;
+  const bandProgress = [];
+  const reportBandProgress = () => {
+    const rowsDone = bandProgress.reduce((sum, band) => sum + band.fraction * band.rows, 0);
+    onProgress?.(DECODE_PROGRESS_SHARE + resampleShare * (rowsDone / targetHeight));
+  };
+
+  const bandTasks = [];
+  for (let rowStart = 0; rowStart < targetHeight; rowStart += rowsPerBand) {
+    const rowEnd = Math.min(targetHeight, rowStart + rowsPerBand);
+    const sourceRows = getSourceRowRange(source, { width: targetWidth, height: targetHeight }, rowStart, rowEnd, resampleOptions);
+    const slice = source.data.slice(sourceRows.start * rowBytes, sourceRows.end * rowBytes);
+    const progress = { rows: rowEnd - rowStart, fraction: 0 };
+    bandProgress.push(progress);
+
+    bandTasks.push(
+      pool
+        .run(
+          {
+            type: "resample",
+            source: { data: slice, width: source.width, height: source.height, rowOffset: sourceRows.start },
+            targetWidth,
+            targetHeight,
+            options: { ...resampleOptions, rowStart, rowEnd },
+          },
+          [slice.buffer],
+          {
+            signal,
+            onProgress: (fraction) => {
+              progress.fraction = fraction;
+              reportBandProgress();
+            },
+          },
+        )
+        .then((band) => ({ rowStart, band })),
+    );
+  }
+
+  // Stitch the bands back together in row order
+  const data = new Uint8ClampedArray(targetWidth * targetHeight * 4);
+  for (const { rowStart, band } of await Promise.all(bandTasks)) {
+    data.set(band.data, rowStart * targetWidth * 4);
+  }
+  let image = { data, width: targetWidth, height: targetHeight };
+
+  // Sharpening needs neighbouring rows across band boundaries, so post-processing runs on the whole stitched image
+  if (sharpen || placement) {
+    throwIfAborted(signal);
+    const postProcessOptions = { sharpen, placement, background };
+    image = await pool.run({ type: "postProcess", image, options: postProcessOptions }, [image.data.buffer], {
+      signal,
+      onProgress: (fraction) => onProgress?.(DECODE_PROGRESS_SHARE + resampleShare + sharpenShare * fraction),
+    });
+  }
+
+  throwIfAborted(signal);
+  const { blob, quality, fits } = await pool.run({ type: "encode", image, output }, [image.data.buffer], { signal });
+  onEncoded?.({ quality, fits });
+  onProgress?.(1);
+  return blob;
+}
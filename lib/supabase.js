@@ -2,7 +2,7 @@
  * @file lib/supabase.js
  * @author Anshi
  * @description Initializes and exports the Supabase client for database and authentication interactions.
- * @lastUpdated 2025-10-14
+ * @lastUpdated 2026-10-19
  */
 import { createClient } from "@supabase/supabase-js";
 
@@ -21,12 +21,14 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey);
  * @property {object} user_metadata - Metadata associated with the user.
  * @property {string} user_metadata.full_name - The user's full name.
  * @property {string} user_metadata.avatar_url - URL to the user's avatar.
+ * @property {string} [user_metadata.filename_template] - The user's filename template for downloads.
  */
 export const User = {
   id: "",
   email: "",
   user_metadata: {
     full_name: "",
-    avatar_url: ""
+    avatar_url: "",
+    filename_template: ""
   }
 };
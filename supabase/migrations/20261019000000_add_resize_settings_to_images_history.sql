@@ -0,0 +1,3 @@
+-- Settings a history image was resized with (method, linear light, fit, transform, output, folder, size, ...),
+-- written by every history insert. Older rows keep null, which the app treats as the defaults.
+alter table images_history add column if not exists resize_settings jsonb;